@@ -12,13 +12,20 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import ruleRoutes from './routes/rules.js';
+import ruleRoutes, { getStoredRules } from './routes/rules.js';
 import geminiRoutes from './routes/gemini.js';
 import executionRoutes from './routes/execution.js';
 import oauthRoutes from './routes/oauth.js';
+import analysisRoutes from './routes/analysis.js';
+import writeBackRoutes from './routes/writeback.js';
+import findingsRoutes from './routes/findings.js';
+import suppressionRoutes from './routes/suppressions.js';
+import scheduleRoutes from './routes/schedules.js';
 import fetch from 'node-fetch';
 import { tokenStore } from './services/tokenStore.js';
 import { oauthStateStore } from './services/oauthStateStore.js';
+import { getEnvironment, getOAuthConfig } from './services/quickbooksEnvironment.js';
+import { startScheduler } from './services/scheduler.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -28,6 +35,7 @@ console.log('🔧 Environment variables loaded:');
 console.log('- PORT:', process.env.PORT || '3001 (default)');
 console.log('- NODE_ENV:', process.env.NODE_ENV || 'development (default)');
 console.log('- FRONTEND_URL:', process.env.FRONTEND_URL || 'not set');
+console.log('- QUICKBOOKS_ENVIRONMENT:', getEnvironment());
 console.log('- GEMINI_API_KEY:', process.env.GEMINI_API_KEY ? '✅ Set' : '❌ Not set');
 console.log('- VITE_GEMINI_API_KEY:', process.env.VITE_GEMINI_API_KEY ? '✅ Set' : '❌ Not set');
 
@@ -90,6 +98,11 @@ app.use('/api/rules', ruleRoutes);
 app.use('/api/gemini', geminiRoutes);
 app.use('/api/execution', executionRoutes);
 app.use('/api/oauth', oauthRoutes);
+app.use('/api/analysis', analysisRoutes);
+app.use('/api/writeback', writeBackRoutes);
+app.use('/api/findings', findingsRoutes);
+app.use('/api/suppressions', suppressionRoutes);
+app.use('/api/schedules', scheduleRoutes);
 
 // OAuth callback route (simpler path for QuickBooks)
 // This needs to be a direct route, not mounted router
@@ -119,9 +132,8 @@ app.get('/callback', async (req, res) => {
     
     const clientId = process.env.QUICKBOOKS_CLIENT_ID;
     const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
-    const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-    
-    const tokenUrl = 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer';
+    const environment = getEnvironment();
+    const { tokenUrl } = getOAuthConfig(environment);
 
     // Exchange authorization code for tokens
     const tokenResponse = await fetch(tokenUrl, {
@@ -220,6 +232,10 @@ const server = app.listen(PORT, '0.0.0.0', () => {
     console.log('   Add QUICKBOOKS_CLIENT_ID and QUICKBOOKS_CLIENT_SECRET to your server/.env file');
     console.log('   Optional: QUICKBOOKS_REDIRECT_URI, QUICKBOOKS_ENVIRONMENT, QUICKBOOKS_SCOPE');
   }
+
+  // Scheduled audits run with each realm's stored OAuth tokens
+  startScheduler({ getRules: getStoredRules });
+  console.log('⏰ Scheduler: ✅ checking for due schedules');
 });
 
 // Handle server errors gracefully
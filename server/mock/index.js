@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '../.env') });
+
+import { createQuickBooksMock, loadFixtures, MOCK_ACCESS_TOKEN } from './quickbooksMock.js';
+
+const PORT = process.env.QUICKBOOKS_MOCK_PORT || 4010;
+const fixturesDir = process.env.QUICKBOOKS_MOCK_FIXTURES || join(__dirname, 'fixtures');
+
+const app = createQuickBooksMock({
+  fixturesDir,
+  rateLimit: parseInt(process.env.QUICKBOOKS_MOCK_RATE_LIMIT) || 500,
+  accessTokenTtl: parseInt(process.env.QUICKBOOKS_MOCK_TOKEN_TTL) || undefined
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock QuickBooks running on http://localhost:${PORT}`);
+  for (const company of loadFixtures(fixturesDir).values()) {
+    console.log(`- ${company.realmId}: ${company.name}`);
+  }
+  console.log(`🔑 Static access token: ${MOCK_ACCESS_TOKEN}`);
+  console.log('Set QUICKBOOKS_ENVIRONMENT=mock in server/.env to point the app at this server');
+});
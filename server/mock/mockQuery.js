@@ -0,0 +1,153 @@
+// Page size QuickBooks uses when a query has no MAXRESULTS
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+
+const QUERY_PATTERN = /^\s*SELECT\s+(\*|COUNT\(\*\))\s+FROM\s+([A-Za-z]+)(?:\s+WHERE\s+(.+?))?(?:\s+ORDERBY\s+([A-Za-z.]+)(?:\s+(ASC|DESC))?)?(?:\s+STARTPOSITION\s+(\d+))?(?:\s+MAXRESULTS\s+(\d+))?\s*$/i;
+
+// field op value, where value is a quoted string, a number or a parenthesized IN list
+const CONDITION_PATTERN = /^([A-Za-z][A-Za-z0-9.]*)\s*(=|!=|<>|<=|>=|<|>|\bLIKE\b|\bIN\b)\s*('(?:[^'\\]|\\.)*'|-?\d+(?:\.\d+)?|true|false|\((?:.*)\))$/i;
+
+/**
+ * A query the mock could not parse, reported as a QuickBooks ValidationFault
+ */
+export class MockQueryError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'MockQueryError';
+  }
+}
+
+function unquote(literal) {
+  if (literal.startsWith("'")) {
+    return literal.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  if (/^(true|false)$/i.test(literal)) {
+    return literal.toLowerCase() === 'true';
+  }
+  return Number(literal);
+}
+
+// Split on AND outside quotes; QuickBooks queries don't support OR
+function splitConditions(where) {
+  const parts = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < where.length; i++) {
+    const char = where[i];
+    if (char === '\\' && quoted) {
+      current += char + where[++i];
+      continue;
+    }
+    if (char === "'") quoted = !quoted;
+    if (!quoted && /^\sAND\s/i.test(where.slice(i, i + 5))) {
+      parts.push(current.trim());
+      current = '';
+      i += 4;
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function parseCondition(text) {
+  const match = text.match(CONDITION_PATTERN);
+  if (!match) {
+    throw new MockQueryError(`Unable to parse condition: ${text}`);
+  }
+  const [, field, rawOperator, rawValue] = match;
+  const operator = rawOperator.toUpperCase() === '<>' ? '!=' : rawOperator.toUpperCase();
+  const value = operator === 'IN'
+    ? rawValue.slice(1, -1).split(',').map(item => unquote(item.trim()))
+    : unquote(rawValue);
+  return { field, operator, value };
+}
+
+/**
+ * Parse the subset of the QuickBooks query language the app uses:
+ * SELECT * or COUNT(*), WHERE conditions joined by AND, ORDERBY,
+ * STARTPOSITION and MAXRESULTS
+ * @param {string} query - The query statement
+ * @returns {object} { count, entity, conditions, orderBy, descending, startPosition, maxResults }
+ */
+export function parseQuery(query) {
+  const match = String(query || '').match(QUERY_PATTERN);
+  if (!match) {
+    throw new MockQueryError(`Unable to parse query: ${query}`);
+  }
+  const [, select, entity, where, orderBy, direction, startPosition, maxResults] = match;
+  const size = maxResults ? parseInt(maxResults) : DEFAULT_MAX_RESULTS;
+  if (size > MAX_RESULTS_LIMIT) {
+    throw new MockQueryError(`MAXRESULTS may not exceed ${MAX_RESULTS_LIMIT}`);
+  }
+  return {
+    count: select !== '*',
+    entity,
+    conditions: where ? splitConditions(where).map(parseCondition) : [],
+    orderBy: orderBy || null,
+    descending: direction?.toUpperCase() === 'DESC',
+    startPosition: startPosition ? Math.max(parseInt(startPosition), 1) : 1,
+    maxResults: size
+  };
+}
+
+function valueAt(record, path) {
+  return path.split('.').reduce((value, key) => value?.[key], record);
+}
+
+// Compare numbers as numbers and everything else, including ISO dates, as text
+function compare(actual, expected) {
+  if (typeof expected === 'number') {
+    return Number(actual) - expected;
+  }
+  const left = String(actual);
+  const right = String(expected);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function matches(record, { field, operator, value }) {
+  const actual = valueAt(record, field);
+  if (actual === undefined || actual === null) {
+    return operator === '!=';
+  }
+  switch (operator) {
+    case '=': return compare(actual, value) === 0;
+    case '!=': return compare(actual, value) !== 0;
+    case '<': return compare(actual, value) < 0;
+    case '>': return compare(actual, value) > 0;
+    case '<=': return compare(actual, value) <= 0;
+    case '>=': return compare(actual, value) >= 0;
+    case 'IN': return value.some(item => compare(actual, item) === 0);
+    case 'LIKE': {
+      const pattern = String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*');
+      return new RegExp(`^${pattern}$`, 'i').test(String(actual));
+    }
+    default: return false;
+  }
+}
+
+/**
+ * Run a parsed query against a list of records
+ * @param {object} parsed - Result of parseQuery
+ * @param {Array} records - The entity's records
+ * @returns {object} The QueryResponse body QuickBooks would return
+ */
+export function runQuery(parsed, records) {
+  let selected = records.filter(record => parsed.conditions.every(condition => matches(record, condition)));
+
+  if (parsed.count) {
+    return { totalCount: selected.length };
+  }
+
+  if (parsed.orderBy) {
+    const direction = parsed.descending ? -1 : 1;
+    selected = [...selected].sort((a, b) => direction * compare(valueAt(a, parsed.orderBy), valueAt(b, parsed.orderBy)));
+  }
+
+  const page = selected.slice(parsed.startPosition - 1, parsed.startPosition - 1 + parsed.maxResults);
+  // QuickBooks leaves the entity out entirely when nothing matched
+  return page.length > 0
+    ? { [parsed.entity]: page, startPosition: parsed.startPosition, maxResults: page.length }
+    : {};
+}
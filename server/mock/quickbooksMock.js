@@ -0,0 +1,383 @@
+import express from 'express';
+import crypto from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parseQuery, runQuery, MockQueryError } from './mockQuery.js';
+
+// Access token accepted for every company, so tools can call the mock without the OAuth flow
+export const MOCK_ACCESS_TOKEN = process.env.QUICKBOOKS_MOCK_TOKEN || 'mock-access-token';
+
+const ACCESS_TOKEN_TTL = 3600;
+const REFRESH_TOKEN_TTL = 100 * 24 * 60 * 60;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const CDC_LOOKBACK_DAYS = 30;
+const CDC_MAX_RESULTS = 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+const FAULTS = {
+  auth: {
+    status: 401,
+    type: 'AUTHENTICATION',
+    Message: 'message=AuthenticationFailed; errorCode=003200; statusCode=401',
+    Detail: 'Token invalid or expired',
+    code: '3200'
+  },
+  forbidden: {
+    status: 403,
+    type: 'AUTHORIZATION',
+    Message: 'message=ApplicationAuthorizationFailed; errorCode=003100; statusCode=403',
+    Detail: 'This token is not authorized for the requested company',
+    code: '3100'
+  },
+  throttle: {
+    status: 429,
+    type: 'SERVICE',
+    Message: 'message=ThrottleExceeded; errorCode=003001; statusCode=429',
+    Detail: 'The request limit for this company has been reached',
+    code: '3001'
+  },
+  validation: {
+    status: 400,
+    type: 'ValidationFault',
+    Message: 'Error parsing query',
+    Detail: 'QueryParserError',
+    code: '4000'
+  },
+  stale: {
+    status: 400,
+    type: 'ValidationFault',
+    Message: 'Stale Object Error',
+    Detail: 'Stale Object Error : You and another user were working on the same thing. The other user finished before you did, so your work was not saved.',
+    code: '5010'
+  },
+  server_error: {
+    status: 500,
+    type: 'SystemFault',
+    Message: 'An application error has occurred while processing your request',
+    Detail: 'System Failure Error',
+    code: '10000'
+  }
+};
+
+export const FAULT_TYPES = Object.keys(FAULTS);
+
+/**
+ * Load the fixture companies of a directory, one JSON file per company
+ * @param {string} fixturesDir - Directory holding the fixture files
+ * @returns {Map<string, object>} Companies keyed by realm ID
+ */
+export function loadFixtures(fixturesDir) {
+  const companies = new Map();
+  for (const file of readdirSync(fixturesDir).filter(name => name.endsWith('.json')).sort()) {
+    const fixture = JSON.parse(readFileSync(join(fixturesDir, file), 'utf8'));
+    companies.set(String(fixture.realmId), {
+      realmId: String(fixture.realmId),
+      name: fixture.companyName || file,
+      entities: structuredClone(fixture.entities || {}),
+      deleted: structuredClone(fixture.deleted || {})
+    });
+  }
+  return companies;
+}
+
+// Fixtures keep QuickBooks Purchases under the Expense name the app queries them by
+const RESOURCE_ALIASES = {
+  purchase: { entity: 'Expense', key: 'Purchase' }
+};
+
+// Fixture entity and response key behind an update endpoint such as "bill"
+function resolveResource(company, resource) {
+  if (RESOURCE_ALIASES[resource]) {
+    return RESOURCE_ALIASES[resource];
+  }
+  const entity = Object.keys(company.entities).find(name => name.toLowerCase() === resource);
+  return entity ? { entity, key: entity } : null;
+}
+
+function sendFault(res, type, detail) {
+  const { status, type: faultType, ...error } = FAULTS[type];
+  res.status(status).json({
+    Fault: { Error: [{ ...error, ...(detail && { Detail: detail }) }], type: faultType },
+    time: new Date().toISOString()
+  });
+}
+
+function issueToken() {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+/**
+ * Create a local stand-in for the QuickBooks Online accounting API and
+ * its OAuth server, backed by fixture companies held in memory.
+ * Serves the query (with paging), CDC and sparse update endpoints, the OAuth
+ * authorize, token and revoke endpoints, per-company throttling, and
+ * control endpoints under /__mock for injecting faults and changing
+ * fixture records.
+ * @param {object} options
+ * @param {string} options.fixturesDir - Directory of fixture company JSON files
+ * @param {number} [options.rateLimit=500] - Requests per company per minute before throttling
+ * @param {number} [options.accessTokenTtl] - Access token lifetime in seconds
+ * @returns {object} Express app
+ */
+export function createQuickBooksMock({ fixturesDir, rateLimit = 500, accessTokenTtl = ACCESS_TOKEN_TTL }) {
+  let companies = loadFixtures(fixturesDir);
+  const codes = new Map();
+  const accessTokens = new Map();
+  const refreshTokens = new Map();
+  const injectedFaults = new Map();
+  const requestWindows = new Map();
+
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const defaultRealm = () => process.env.QUICKBOOKS_MOCK_REALM || companies.keys().next().value;
+
+  function grantTokens(realmId, previousRefreshToken) {
+    if (previousRefreshToken) refreshTokens.delete(previousRefreshToken);
+    const accessToken = issueToken();
+    const refreshToken = issueToken();
+    accessTokens.set(accessToken, { realmId, refreshToken, expiresAt: Date.now() + accessTokenTtl * 1000 });
+    refreshTokens.set(refreshToken, { realmId, expiresAt: Date.now() + REFRESH_TOKEN_TTL * 1000 });
+    return {
+      token_type: 'bearer',
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      expires_in: accessTokenTtl,
+      x_refresh_token_expires_in: REFRESH_TOKEN_TTL
+    };
+  }
+
+  // ---- OAuth ----
+
+  app.get('/oauth2/authorize', (req, res) => {
+    const { client_id: clientId, redirect_uri: redirectUri, state, realmId = defaultRealm() } = req.query;
+    if (!clientId || !redirectUri) {
+      return res.status(400).json({ error: 'invalid_request', error_description: 'client_id and redirect_uri are required' });
+    }
+    if (!companies.has(realmId)) {
+      return res.status(400).json({ error: 'invalid_request', error_description: `No fixture company ${realmId}` });
+    }
+
+    // Consent is implied: redirect straight back with a code
+    const code = issueToken();
+    codes.set(code, { realmId, redirectUri, expiresAt: Date.now() + CODE_TTL_MS });
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('code', code);
+    if (state) callback.searchParams.set('state', state);
+    callback.searchParams.set('realmId', realmId);
+    console.log(`🔑 Mock authorized company ${realmId}`);
+    res.redirect(callback.toString());
+  });
+
+  app.post('/oauth2/tokens/bearer', (req, res) => {
+    if (!/^Basic\s+\S+/.test(req.get('authorization') || '')) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+    const { grant_type: grantType, code, redirect_uri: redirectUri, refresh_token: refreshToken } = req.body;
+
+    if (grantType === 'authorization_code') {
+      const grant = codes.get(code);
+      codes.delete(code);
+      if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== redirectUri) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+      return res.json(grantTokens(grant.realmId));
+    }
+
+    if (grantType === 'refresh_token') {
+      const grant = refreshTokens.get(refreshToken);
+      if (!grant || grant.expiresAt < Date.now()) {
+        return res.status(400).json({ error: 'invalid_grant' });
+      }
+      return res.json(grantTokens(grant.realmId, refreshToken));
+    }
+
+    res.status(400).json({ error: 'unsupported_grant_type' });
+  });
+
+  app.post('/oauth2/tokens/revoke', (req, res) => {
+    const { token } = req.body;
+    if (!token) {
+      return res.status(400).json({ error: 'invalid_request' });
+    }
+    const refreshToken = accessTokens.get(token)?.refreshToken || token;
+    refreshTokens.delete(refreshToken);
+    for (const [accessToken, grant] of accessTokens) {
+      if (accessToken === token || grant.refreshToken === refreshToken) accessTokens.delete(accessToken);
+    }
+    res.status(200).end();
+  });
+
+  // ---- Accounting API ----
+
+  // Authenticate, throttle and apply injected faults before every company request
+  app.use('/v3/company/:realmId', (req, res, next) => {
+    const { realmId } = req.params;
+    const token = (req.get('authorization') || '').replace(/^Bearer\s+/i, '');
+    const grant = accessTokens.get(token);
+
+    if (token !== MOCK_ACCESS_TOKEN && (!grant || grant.expiresAt < Date.now())) {
+      return sendFault(res, 'auth');
+    }
+    if (!companies.has(realmId) || (grant && grant.realmId !== realmId)) {
+      return sendFault(res, 'forbidden');
+    }
+
+    const window = requestWindows.get(realmId);
+    if (!window || window.startedAt + RATE_WINDOW_MS <= Date.now()) {
+      requestWindows.set(realmId, { startedAt: Date.now(), count: 1 });
+    } else if (++window.count > rateLimit) {
+      res.set('Retry-After', String(Math.ceil((window.startedAt + RATE_WINDOW_MS - Date.now()) / 1000)));
+      return sendFault(res, 'throttle');
+    }
+
+    const faults = injectedFaults.get(realmId);
+    if (faults?.length) {
+      const fault = faults[0];
+      if (--fault.remaining <= 0) faults.shift();
+      if (fault.type === 'throttle' && fault.retryAfter !== undefined) {
+        res.set('Retry-After', String(fault.retryAfter));
+      }
+      return sendFault(res, fault.type);
+    }
+
+    req.company = companies.get(realmId);
+    next();
+  });
+
+  app.get('/v3/company/:realmId/query', (req, res) => {
+    let parsed;
+    try {
+      parsed = parseQuery(req.query.query);
+    } catch (error) {
+      if (error instanceof MockQueryError) return sendFault(res, 'validation', `QueryParserError: ${error.message}`);
+      throw error;
+    }
+    const records = req.company.entities[parsed.entity];
+    if (!records) {
+      return sendFault(res, 'validation', `QueryValidationError: Invalid context declaration : ${parsed.entity}`);
+    }
+    res.json({ QueryResponse: runQuery(parsed, records), time: new Date().toISOString() });
+  });
+
+  app.get('/v3/company/:realmId/cdc', (req, res) => {
+    const { entities, changedSince } = req.query;
+    const since = Date.parse(changedSince);
+    if (!entities || Number.isNaN(since)) {
+      return sendFault(res, 'validation', 'entities and changedSince are required');
+    }
+    if (Date.now() - since > CDC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000) {
+      return sendFault(res, 'validation', `changedSince may not be more than ${CDC_LOOKBACK_DAYS} days ago`);
+    }
+
+    const responses = String(entities).split(',').map(entity => {
+      const changed = (req.company.entities[entity] || [])
+        .filter(record => Date.parse(record.MetaData?.LastUpdatedTime) > since);
+      const deleted = (req.company.deleted[entity] || [])
+        .filter(record => Date.parse(record.deletedAt) > since)
+        .map(record => ({ Id: record.Id, status: 'Deleted', MetaData: { LastUpdatedTime: record.deletedAt } }));
+      const page = [...changed, ...deleted].slice(0, CDC_MAX_RESULTS);
+      return page.length > 0 ? { [entity]: page, startPosition: 1, maxResults: page.length } : {};
+    });
+
+    res.json({ CDCResponse: [{ QueryResponse: responses }], time: new Date().toISOString() });
+  });
+
+  // Sparse update: only the fields sent change, guarded by the record's SyncToken
+  app.post('/v3/company/:realmId/:resource', (req, res) => {
+    const target = resolveResource(req.company, req.params.resource.toLowerCase());
+    if (!target) {
+      return sendFault(res, 'validation', `Unsupported entity: ${req.params.resource}`);
+    }
+    const { Id, SyncToken, sparse, ...changes } = req.body || {};
+    if (sparse !== true) {
+      return sendFault(res, 'validation', 'The mock only supports sparse updates');
+    }
+    const record = (req.company.entities[target.entity] || []).find(existing => existing.Id === String(Id));
+    if (!record) {
+      return sendFault(res, 'validation', `Object Not Found: ${target.key} ${Id}`);
+    }
+    if (String(SyncToken) !== String(record.SyncToken)) {
+      return sendFault(res, 'stale');
+    }
+
+    const { CustomField: customFields, ...fields } = changes;
+    Object.assign(record, fields);
+    for (const field of customFields || []) {
+      const existing = (record.CustomField || (record.CustomField = [])).find(entry => entry.DefinitionId === field.DefinitionId);
+      if (existing) Object.assign(existing, field); else record.CustomField.push(field);
+    }
+    record.SyncToken = String(Number(record.SyncToken || 0) + 1);
+    record.MetaData = { ...record.MetaData, LastUpdatedTime: new Date().toISOString() };
+    res.json({ [target.key]: record, time: new Date().toISOString() });
+  });
+
+  // ---- Mock controls ----
+
+  app.get('/__mock/companies', (req, res) => {
+    res.json({
+      success: true,
+      data: [...companies.values()].map(company => ({
+        realmId: company.realmId,
+        name: company.name,
+        entities: Object.fromEntries(Object.entries(company.entities).map(([entity, records]) => [entity, records.length]))
+      })),
+      accessToken: MOCK_ACCESS_TOKEN
+    });
+  });
+
+  // Fail the company's next requests, e.g. { realmId, type: "throttle", times: 2, retryAfter: 1 }
+  app.post('/__mock/faults', (req, res) => {
+    const { realmId = defaultRealm(), type, times = 1, retryAfter } = req.body;
+    if (!FAULTS[type]) {
+      return res.status(400).json({ success: false, error: `type must be one of ${FAULT_TYPES.join(', ')}` });
+    }
+    if (!injectedFaults.has(realmId)) injectedFaults.set(realmId, []);
+    injectedFaults.get(realmId).push({ type, remaining: Math.max(1, parseInt(times) || 1), retryAfter });
+    res.json({ success: true, data: { realmId, pending: injectedFaults.get(realmId) } });
+  });
+
+  // Add or replace a record, stamping it as changed now so CDC picks it up
+  app.put('/__mock/companies/:realmId/:entity', (req, res) => {
+    const company = companies.get(req.params.realmId);
+    if (!company) {
+      return res.status(404).json({ success: false, error: 'Company not found' });
+    }
+    const record = {
+      ...req.body,
+      Id: String(req.body.Id || issueToken().slice(0, 8)),
+      MetaData: { ...req.body.MetaData, LastUpdatedTime: new Date().toISOString() }
+    };
+    const records = company.entities[req.params.entity] || (company.entities[req.params.entity] = []);
+    const index = records.findIndex(existing => existing.Id === record.Id);
+    if (index >= 0) records[index] = record; else records.push(record);
+    res.json({ success: true, data: record });
+  });
+
+  app.delete('/__mock/companies/:realmId/:entity/:id', (req, res) => {
+    const company = companies.get(req.params.realmId);
+    const records = company?.entities[req.params.entity] || [];
+    const index = records.findIndex(record => record.Id === req.params.id);
+    if (index < 0) {
+      return res.status(404).json({ success: false, error: 'Record not found' });
+    }
+    records.splice(index, 1);
+    const deleted = company.deleted[req.params.entity] || (company.deleted[req.params.entity] = []);
+    deleted.push({ Id: req.params.id, deletedAt: new Date().toISOString() });
+    res.json({ success: true });
+  });
+
+  // Reload fixtures and forget tokens, faults and rate windows
+  app.post('/__mock/reset', (req, res) => {
+    companies = loadFixtures(fixturesDir);
+    for (const store of [codes, accessTokens, refreshTokens, injectedFaults, requestWindows]) store.clear();
+    res.json({ success: true, message: 'Mock QuickBooks reset' });
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ Fault: { Error: [{ Message: `No mock for ${req.method} ${req.path}`, code: '404' }], type: 'SERVICE' } });
+  });
+
+  return app;
+}
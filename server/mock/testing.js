@@ -0,0 +1,39 @@
+import { once } from 'events';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { createQuickBooksMock, loadFixtures, MOCK_ACCESS_TOKEN } from './quickbooksMock.js';
+import { tokenStore } from '../services/tokenStore.js';
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/**
+ * Start the mock QuickBooks on a free port for a test file, pointing the
+ * app at it and storing a token for every fixture company, as if each
+ * had been connected through OAuth
+ * @returns {Promise<{url: string, close: Function}>} The mock's URL and a function to stop it
+ */
+export async function startMockQuickBooks() {
+  const server = createQuickBooksMock({ fixturesDir }).listen(0);
+  await once(server, 'listening');
+  const url = `http://localhost:${server.address().port}`;
+  process.env.QUICKBOOKS_ENVIRONMENT = 'mock';
+  process.env.QUICKBOOKS_MOCK_URL = url;
+
+  for (const realmId of loadFixtures(fixturesDir).keys()) {
+    tokenStore.set(realmId, {
+      accessToken: MOCK_ACCESS_TOKEN,
+      expiresAt: Date.now() + 60 * 60 * 1000,
+      realmId,
+      environment: 'mock',
+      updatedAt: Date.now()
+    });
+  }
+
+  return {
+    url,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}
@@ -0,0 +1,93 @@
+import express from 'express';
+import { fetchAllRecords, validateMaxRecords } from '../services/quickbooksQuery.js';
+import { QuickBooksError, sendQuickBooksError } from '../services/quickbooksClient.js';
+import { injectOAuthToken } from '../services/oauthTokenManager.js';
+import { analyzeBenford } from '../services/benfordAnalysis.js';
+
+const router = express.Router();
+
+/**
+ * Run Benford's law first-digit and first-two-digit tests over an entity
+ * POST /api/analysis/benford
+ */
+router.post('/benford', injectOAuthToken, async (req, res) => {
+  try {
+    const { realmId, accessToken, entity, field = 'TotalAmt', conditions = [], min_amount, top_buckets, max_records: maxRecords } = req.body;
+
+    if (!realmId || !accessToken || !entity) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId, accessToken, and entity are required'
+      });
+    }
+
+    if (typeof field !== 'string' || !field.trim()) {
+      return res.status(400).json({
+        success: false,
+        error: 'field must be a field path such as TotalAmt'
+      });
+    }
+
+    if (!Array.isArray(conditions) || conditions.some(condition => !condition || typeof condition !== 'object')) {
+      return res.status(400).json({
+        success: false,
+        error: 'conditions must be an array of conditions'
+      });
+    }
+
+    if (min_amount !== undefined && !(typeof min_amount === 'number' && Number.isFinite(min_amount) && min_amount >= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'min_amount must be a non-negative number'
+      });
+    }
+
+    if (top_buckets !== undefined && !(Number.isInteger(top_buckets) && top_buckets > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'top_buckets must be a positive integer'
+      });
+    }
+
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    console.log(`📐 Running Benford analysis on ${entity}.${field}...`);
+
+    const startTime = Date.now();
+    const { records, total_count, truncated } = await fetchAllRecords({ realmId, accessToken, entity, maxRecords });
+    const analysis = analyzeBenford(records, { field, conditions, min_amount, top_buckets });
+
+    console.log(`✅ Benford analysis completed: ${analysis.analyzed_records} amounts, first digit ${analysis.first_digit.conformity}`);
+
+    res.json({
+      success: true,
+      data: {
+        entity,
+        ...analysis,
+        population_count: total_count,
+        truncated,
+        execution_time: Date.now() - startTime,
+        analyzed_at: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Benford analysis error:', error);
+    if (error instanceof QuickBooksError) {
+      return sendQuickBooksError(res, error, 'Failed to run Benford analysis');
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run Benford analysis',
+      details: error.message
+    });
+  }
+});
+
+export default router;
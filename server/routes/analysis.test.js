@@ -0,0 +1,60 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import express from 'express';
+import analysisRoutes from './analysis.js';
+import { startMockQuickBooks } from '../mock/testing.js';
+import { MOCK_ACCESS_TOKEN } from '../mock/quickbooksMock.js';
+
+const request = { realmId: '9130350000000001', accessToken: MOCK_ACCESS_TOKEN, entity: 'Expense' };
+
+let quickbooks;
+let server;
+let url;
+before(async () => {
+  // Keep the analysis progress logging out of the test output
+  mock.method(console, 'log', () => {});
+  quickbooks = await startMockQuickBooks();
+  const app = express();
+  app.use(express.json());
+  app.use('/api/analysis', analysisRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  url = `http://localhost:${server.address().port}/api/analysis/benford`;
+});
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await quickbooks.close();
+});
+
+async function benford(body) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request, ...body })
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+test('rejects invalid analysis options', async () => {
+  const cases = [
+    [{ min_amount: '10' }, 'min_amount must be a non-negative number'],
+    [{ min_amount: -1 }, 'min_amount must be a non-negative number'],
+    [{ top_buckets: 0 }, 'top_buckets must be a positive integer'],
+    [{ top_buckets: 2.5 }, 'top_buckets must be a positive integer'],
+    [{ conditions: { field: 'TotalAmt' } }, 'conditions must be an array of conditions'],
+    [{ conditions: [null] }, 'conditions must be an array of conditions']
+  ];
+  for (const [body, error] of cases) {
+    const response = await benford(body);
+    assert.deepEqual([response.status, response.body.error], [400, error], JSON.stringify(body));
+  }
+});
+
+test('runs the analysis with valid options', async () => {
+  const response = await benford({ min_amount: 0, top_buckets: 2 });
+  assert.equal(response.status, 200);
+  assert.equal(response.body.data.min_amount, 0);
+  assert.ok(response.body.data.first_digit.over_represented.length <= 2);
+});
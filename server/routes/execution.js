@@ -1,16 +1,35 @@
 import express from 'express';
-import { executeRule, executeMultipleRules, getQuickBooksDataContext } from '../services/ruleExecutor.js';
+import { executeRule, executeRulesByEntity, getQuickBooksDataContext, validateRuleConfig, resolveRuleEntities } from '../services/ruleExecutor.js';
 import { injectOAuthToken } from '../services/oauthTokenManager.js';
+import { validateDuplicateConfig } from '../services/duplicateDetector.js';
+import { validatePeriod, resolvePeriod, describeScope } from '../services/periodScope.js';
+import { validateMaxRecords } from '../services/quickbooksQuery.js';
+import { QuickBooksError, sendQuickBooksError } from '../services/quickbooksClient.js';
+import { executeIncrementalRun, getCheckpoint, resetCheckpoint } from '../services/incrementalRuns.js';
+import { recordFindings, closeFindings } from '../services/findingsStore.js';
 
 const router = express.Router();
 
+/**
+ * Send a failed execution with the status its error maps to
+ * @param {object} res - Express response
+ * @param {object} result - Failed result from the rule executor
+ */
+function sendExecutionFailure(res, result) {
+  const { status = 500, data, ...body } = result;
+  if (status === 429 && body.retry_after !== null && body.retry_after !== undefined) {
+    res.set('Retry-After', String(body.retry_after));
+  }
+  res.status(status).json(body);
+}
+
 /**
  * Execute a single rule against QuickBooks data
  * POST /api/execution/rule
  */
 router.post('/rule', injectOAuthToken, async (req, res) => {
   try {
-    const { rule, realmId, accessToken, entity } = req.body;
+    const { rule, realmId, accessToken, entity, period, max_records: maxRecords } = req.body;
 
     // Validate required parameters
     if (!rule) {
@@ -27,6 +46,22 @@ router.post('/rule', injectOAuthToken, async (req, res) => {
       });
     }
 
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    const periodError = validatePeriod(period);
+    if (periodError) {
+      return res.status(400).json({
+        success: false,
+        error: periodError
+      });
+    }
+
     // Validate rule structure
     if (!rule.conditions || !Array.isArray(rule.conditions)) {
       return res.status(400).json({
@@ -35,22 +70,32 @@ router.post('/rule', injectOAuthToken, async (req, res) => {
       });
     }
 
-    console.log(`🚀 Executing rule ${rule.id || rule.rule_type} against ${entity}...`);
+    const configError = validateRuleConfig(rule);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError
+      });
+    }
+
+    // A rule bound to other entities runs against its own first entity
+    const ruleEntities = resolveRuleEntities(rule, entity);
+    const targetEntity = ruleEntities.includes(entity) ? entity : ruleEntities[0];
+
+    console.log(`🚀 Executing rule ${rule.id || rule.rule_type} against ${targetEntity}...`);
 
     // Execute the rule
-    const result = await executeRule(rule, { realmId, accessToken, entity });
+    const result = await executeRule(rule, { realmId, accessToken, entity: targetEntity, scope: period ? resolvePeriod(period) : null, maxRecords });
 
     if (result.success) {
+      result.data.findings = recordFindings(realmId, [result]);
       res.json({
         success: true,
         data: result.data,
         message: `Rule executed successfully. ${result.data.execution_summary.flagged_count} transactions flagged.`
       });
     } else {
-      res.status(500).json({
-        success: false,
-        error: result.error
-      });
+      sendExecutionFailure(res, result);
     }
 
   } catch (error) {
@@ -69,7 +114,7 @@ router.post('/rule', injectOAuthToken, async (req, res) => {
  */
 router.post('/rules', injectOAuthToken, async (req, res) => {
   try {
-    const { rules, realmId, accessToken, entity } = req.body;
+    const { rules, realmId, accessToken, entity, period, max_records: maxRecords } = req.body;
 
     // Validate required parameters
     if (!rules || !Array.isArray(rules) || rules.length === 0) {
@@ -86,6 +131,22 @@ router.post('/rules', injectOAuthToken, async (req, res) => {
       });
     }
 
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    const periodError = validatePeriod(period);
+    if (periodError) {
+      return res.status(400).json({
+        success: false,
+        error: periodError
+      });
+    }
+
     // Validate each rule structure
     for (const rule of rules) {
       if (!rule.conditions || !Array.isArray(rule.conditions)) {
@@ -94,24 +155,30 @@ router.post('/rules', injectOAuthToken, async (req, res) => {
           error: `Rule ${rule.id || rule.rule_type} must have a conditions array`
         });
       }
+
+      const configError = validateRuleConfig(rule);
+      if (configError) {
+        return res.status(400).json({
+          success: false,
+          error: `Rule ${rule.id || rule.rule_type}: ${configError}`
+        });
+      }
     }
 
-    console.log(`🚀 Executing ${rules.length} rules against ${entity}...`);
+    console.log(`🚀 Executing ${rules.length} rules...`);
 
-    // Execute the rules
-    const result = await executeMultipleRules(rules, { realmId, accessToken, entity });
+    // Execute the rules, each against the entities it is bound to
+    const result = await executeRulesByEntity(rules, { realmId, accessToken, entity, scope: period ? resolvePeriod(period) : null, maxRecords });
 
     if (result.success) {
+      result.data.findings = recordFindings(realmId, result.data.individual_results);
       res.json({
         success: true,
         data: result.data,
         message: `Batch execution completed. ${result.data.summary.total_transactions_flagged} total transactions flagged.`
       });
     } else {
-      res.status(500).json({
-        success: false,
-        error: result.error
-      });
+      sendExecutionFailure(res, result);
     }
 
   } catch (error) {
@@ -130,7 +197,7 @@ router.post('/rules', injectOAuthToken, async (req, res) => {
  */
 router.post('/all-active', injectOAuthToken, async (req, res) => {
   try {
-    const { realmId, accessToken, entity } = req.body;
+    const { realmId, accessToken, entity, period, max_records: maxRecords } = req.body;
 
     if (!realmId || !accessToken || !entity) {
       return res.status(400).json({
@@ -139,6 +206,22 @@ router.post('/all-active', injectOAuthToken, async (req, res) => {
       });
     }
 
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    const periodError = validatePeriod(period);
+    if (periodError) {
+      return res.status(400).json({
+        success: false,
+        error: periodError
+      });
+    }
+
     // Get all active rules from storage
     // This would typically come from a database, but for now we'll use the in-memory storage
     // You'll need to import the rules storage or pass the rules in the request body
@@ -166,31 +249,41 @@ router.post('/all-active', injectOAuthToken, async (req, res) => {
             failed_executions: 0,
             total_transactions_checked: 0,
             total_transactions_flagged: 0,
-            total_execution_time: 0
+            total_transactions_suppressed: 0,
+            unique_transactions_flagged: 0,
+            total_execution_time: 0,
+            total_fetch_time: 0,
+            total_evaluation_time: 0,
+            entities_fetched: 0,
+            dataset_cache_hits: 0,
+            truncated_populations: 0,
+            entities: []
           },
+          scope: describeScope(period ? resolvePeriod(period) : null),
+          warnings: [],
           individual_results: [],
+          risk_queue: [],
+          by_entity: [],
           executed_at: new Date().toISOString()
         },
         message: 'No active rules found to execute'
       });
     }
 
-    console.log(`🚀 Executing ${activeRules.length} active rules against ${entity}...`);
+    console.log(`🚀 Executing ${activeRules.length} active rules...`);
 
-    // Execute the active rules
-    const result = await executeMultipleRules(activeRules, { realmId, accessToken, entity });
+    // Execute the active rules, fanning out across every entity they reference
+    const result = await executeRulesByEntity(activeRules, { realmId, accessToken, entity, scope: period ? resolvePeriod(period) : null, maxRecords });
 
     if (result.success) {
+      result.data.findings = recordFindings(realmId, result.data.individual_results);
       res.json({
         success: true,
         data: result.data,
         message: `All active rules executed. ${result.data.summary.total_transactions_flagged} total transactions flagged.`
       });
     } else {
-      res.status(500).json({
-        success: false,
-        error: result.error
-      });
+      sendExecutionFailure(res, result);
     }
 
   } catch (error) {
@@ -203,6 +296,194 @@ router.post('/all-active', injectOAuthToken, async (req, res) => {
   }
 });
 
+/**
+ * Run active rules on the records changed since the last successful run
+ * POST /api/execution/incremental
+ */
+router.post('/incremental', injectOAuthToken, async (req, res) => {
+  try {
+    const { rules, realmId, accessToken, entity, full = false, max_records: maxRecords } = req.body;
+
+    if (!realmId || !accessToken || !entity) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId, accessToken, and entity are required'
+      });
+    }
+
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    if (!rules || !Array.isArray(rules) || rules.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rules array is required for incremental execution'
+      });
+    }
+
+    const activeRules = rules.filter(rule => rule.is_active !== false);
+    for (const rule of activeRules) {
+      if (!rule.conditions || !Array.isArray(rule.conditions)) {
+        return res.status(400).json({
+          success: false,
+          error: `Rule ${rule.id || rule.rule_type} must have a conditions array`
+        });
+      }
+
+      const configError = validateRuleConfig(rule);
+      if (configError) {
+        return res.status(400).json({
+          success: false,
+          error: `Rule ${rule.id || rule.rule_type}: ${configError}`
+        });
+      }
+    }
+
+    console.log(`🔄 Incremental run of ${activeRules.length} active rules against ${entity}...`);
+
+    const result = await executeIncrementalRun(activeRules, { realmId, accessToken, entity, maxRecords, full: full === true });
+
+    if (result.success) {
+      const { incremental } = result.data;
+      result.data.findings = {
+        ...recordFindings(realmId, result.data.individual_results),
+        resolved: closeFindings(realmId, entity, incremental.closed_findings)
+      };
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Incremental run (${incremental.mode}) completed. ${incremental.new_findings} new findings, ${incremental.closed_findings.length} closed.`
+      });
+    } else {
+      sendExecutionFailure(res, result);
+    }
+
+  } catch (error) {
+    console.error('Incremental execution error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run incremental execution',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Get the incremental checkpoint of a realm and entity
+ * GET /api/execution/incremental/checkpoint?realmId=...&entity=...
+ */
+router.get('/incremental/checkpoint', (req, res) => {
+  const { realmId, entity } = req.query;
+
+  if (!realmId || !entity) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId and entity are required'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: getCheckpoint(realmId, entity)
+  });
+});
+
+/**
+ * Forget the incremental checkpoint, so the next run audits everything
+ * DELETE /api/execution/incremental/checkpoint?realmId=...&entity=...
+ */
+router.delete('/incremental/checkpoint', (req, res) => {
+  const { realmId, entity } = req.query;
+
+  if (!realmId || !entity) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId and entity are required'
+    });
+  }
+
+  if (!resetCheckpoint(realmId, entity)) {
+    return res.status(404).json({
+      success: false,
+      error: `No incremental checkpoint for ${entity}`
+    });
+  }
+
+  res.json({
+    success: true,
+    message: `Incremental checkpoint for ${entity} cleared; the next run will audit all records`
+  });
+});
+
+/**
+ * Run the duplicate-payment detector without saving a rule
+ * POST /api/execution/duplicates
+ */
+router.post('/duplicates', injectOAuthToken, async (req, res) => {
+  try {
+    const { duplicate, conditions = [], realmId, accessToken, entity, max_records: maxRecords } = req.body;
+
+    if (!realmId || !accessToken || !entity) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId, accessToken, and entity are required'
+      });
+    }
+
+    const maxRecordsError = validateMaxRecords(maxRecords);
+    if (maxRecordsError) {
+      return res.status(400).json({
+        success: false,
+        error: maxRecordsError
+      });
+    }
+
+    const configError = validateDuplicateConfig(duplicate);
+    if (configError) {
+      return res.status(400).json({
+        success: false,
+        error: configError
+      });
+    }
+
+    const rule = {
+      rule_type: 'duplicate_detection',
+      kind: 'duplicate',
+      conditions,
+      duplicate,
+      action: 'review',
+      reason: `Possible duplicate ${entity} records`
+    };
+
+    console.log(`🚀 Detecting duplicate ${entity} records...`);
+
+    const result = await executeRule(rule, { realmId, accessToken, entity, maxRecords });
+
+    if (result.success) {
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Duplicate detection completed. ${result.data.execution_summary.flagged_count} clusters found.`
+      });
+    } else {
+      sendExecutionFailure(res, result);
+    }
+
+  } catch (error) {
+    console.error('Duplicate detection error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to detect duplicates',
+      details: error.message
+    });
+  }
+});
+
 /**
  * Get complete QuickBooks data context for analysis
  * GET /api/execution/data-context
@@ -262,6 +543,9 @@ async function handleDataContextRequest(req, res) {
 
   } catch (error) {
     console.error('Data context fetch error:', error);
+    if (error instanceof QuickBooksError) {
+      return sendQuickBooksError(res, error, 'Failed to fetch data context');
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch data context',
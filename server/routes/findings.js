@@ -0,0 +1,137 @@
+import express from 'express';
+import {
+  FINDING_STATUSES,
+  listFindings,
+  getFinding,
+  validateFindingUpdate,
+  updateFinding,
+  addFindingComment
+} from '../services/findingsStore.js';
+
+const router = express.Router();
+
+/**
+ * List the cases of a company, optionally filtered
+ * GET /api/findings?realmId=...&status=...&entity=...&rule_id=...&assignee=...
+ */
+router.get('/', (req, res) => {
+  const { realmId, status, entity, rule_id: ruleId, assignee } = req.query;
+
+  if (!realmId) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId is required'
+    });
+  }
+
+  if (status && !FINDING_STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      error: `status must be one of ${FINDING_STATUSES.join(', ')}`
+    });
+  }
+
+  const { findings, counts } = listFindings(realmId, { status, entity, ruleId, assignee });
+
+  res.json({
+    success: true,
+    data: findings,
+    counts,
+    count: findings.length
+  });
+});
+
+/**
+ * Get a case with its comments and history
+ * GET /api/findings/:id
+ */
+router.get('/:id', (req, res) => {
+  const finding = getFinding(req.params.id);
+
+  if (!finding) {
+    return res.status(404).json({
+      success: false,
+      error: 'Finding not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: finding
+  });
+});
+
+/**
+ * Move a case through the workflow or change its assignee
+ * PATCH /api/findings/:id
+ */
+router.patch('/:id', (req, res) => {
+  const finding = getFinding(req.params.id);
+
+  if (!finding) {
+    return res.status(404).json({
+      success: false,
+      error: 'Finding not found'
+    });
+  }
+
+  const { status, assignee, note, actor = 'user' } = req.body;
+  const updateError = validateFindingUpdate({ status, assignee, note, actor });
+  if (updateError) {
+    return res.status(400).json({
+      success: false,
+      error: updateError
+    });
+  }
+
+  const previousStatus = finding.status;
+  updateFinding(finding, { status, assignee, note }, actor);
+  if (finding.status !== previousStatus) {
+    console.log(`📋 Finding ${finding.id} moved from ${previousStatus} to ${finding.status}`);
+  }
+
+  res.json({
+    success: true,
+    data: finding,
+    message: 'Finding updated'
+  });
+});
+
+/**
+ * Comment on a case
+ * POST /api/findings/:id/comments
+ */
+router.post('/:id/comments', (req, res) => {
+  const finding = getFinding(req.params.id);
+
+  if (!finding) {
+    return res.status(404).json({
+      success: false,
+      error: 'Finding not found'
+    });
+  }
+
+  const { text, author = 'user' } = req.body;
+  if (typeof text !== 'string' || text.trim() === '') {
+    return res.status(400).json({
+      success: false,
+      error: 'text is required'
+    });
+  }
+  if (typeof author !== 'string' || author.trim() === '') {
+    return res.status(400).json({
+      success: false,
+      error: 'author must be a name'
+    });
+  }
+
+  const comment = addFindingComment(finding, author, text);
+
+  res.status(201).json({
+    success: true,
+    data: comment,
+    message: 'Comment added'
+  });
+});
+
+export default router;
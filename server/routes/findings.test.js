@@ -0,0 +1,70 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import express from 'express';
+import findingRoutes from './findings.js';
+import { recordFindings } from '../services/findingsStore.js';
+
+const realmId = 'findings-test';
+
+let server;
+let baseUrl;
+let id;
+before(async () => {
+  recordFindings(realmId, [{
+    success: true,
+    data: {
+      entity: 'Expense',
+      rule_id: 'big',
+      rule_type: 'big',
+      flagged_transactions: [{ id: '1', reason: 'big', data: { Id: '1', TotalAmt: 5000 } }]
+    }
+  }]);
+  const app = express();
+  app.use(express.json());
+  app.use('/api/findings', findingRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://localhost:${server.address().port}/api/findings`;
+  id = (await request('GET', `?realmId=${realmId}`)).body.data[0].id;
+});
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function request(method, path, body) {
+  const response = await fetch(`${baseUrl}/${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body && { body: JSON.stringify(body) })
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+test('rejects an actor or author that is not a name', async () => {
+  for (const actor of ['', '  ', 7, null]) {
+    const response = await request('PATCH', id, { status: 'in_review', actor });
+    assert.deepEqual([response.status, response.body.error], [400, 'actor must be a name'], JSON.stringify(actor));
+  }
+  for (const author of ['', { name: 'Sam' }]) {
+    const response = await request('POST', `${id}/comments`, { text: 'Looks fine', author });
+    assert.deepEqual([response.status, response.body.error], [400, 'author must be a name'], JSON.stringify(author));
+  }
+
+  const comment = await request('POST', `${id}/comments`, { text: 'Looks fine', author: ' Sam ' });
+  assert.equal(comment.status, 201);
+  assert.equal(comment.body.data.author, 'Sam');
+});
+
+test('keeps the note of an assignee-only update', async () => {
+  const assigned = await request('PATCH', id, { assignee: 'Dana', note: 'Covering this week', actor: 'Sam' });
+  assert.equal(assigned.status, 200);
+  const entry = assigned.body.data.history.at(-1);
+  assert.deepEqual([entry.by, entry.note], ['Sam', 'Assigned to Dana (Covering this week)']);
+
+  const moved = await request('PATCH', id, { assignee: 'Lee', status: 'in_review', note: 'Escalated' });
+  const [assignment, statusChange] = moved.body.data.history.slice(-2);
+  assert.deepEqual([assignment.by, assignment.note], ['user', 'Assigned to Lee']);
+  assert.deepEqual([statusChange.to, statusChange.note], ['in_review', 'Escalated']);
+});
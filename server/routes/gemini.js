@@ -6,9 +6,12 @@ const __dirname = dirname(__filename);
 dotenv.config({ path: join(__dirname, '../.env') });
 import express from 'express';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import fetch from 'node-fetch';
-import { getQuickBooksFields } from '../services/quickbooksSchemaExtractor.js';
+import { getQuickBooksFieldSchema, extractFieldSchema, fetchSampleRecords } from '../services/quickbooksSchemaExtractor.js';
+import { quickbooksErrorResponse } from '../services/quickbooksClient.js';
 import { injectOAuthToken } from '../services/oauthTokenManager.js';
+import { validateRule } from '../services/ruleValidator.js';
+import { describeOperatorsForPrompt } from '../services/operatorCatalog.js';
+import { REFERENCE_ENTITIES, buildReferenceSchema, findReferenceNames, findMentionedReferenceNames } from '../services/referenceData.js';
 
 const router = express.Router();
 
@@ -63,8 +66,20 @@ router.get('/status', (req, res) => {
   });
 });
 
+// List the reference field paths available to rules, one reference per line
+function describeReferenceFields(referenceSchema) {
+  return Object.entries(REFERENCE_ENTITIES)
+    .map(([name, referenceEntity]) => {
+      const prefix = `$${name}.`;
+      const paths = Object.keys(referenceSchema).filter(path => path.startsWith(prefix));
+      return paths.length > 0 ? `- $${name} (the linked ${referenceEntity}): ${paths.join(', ')}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
 // Helper to build a prompt with complete QuickBooks data context
-function buildPromptWithCompleteData(instruction, quickbooksData, entity) {
+function buildPromptWithCompleteData(instruction, quickbooksData, entity, referenceSchema = {}) {
   return `
 You are an expert audit rule parser. Convert the following natural language audit instruction into a structured JSON rule.
 
@@ -80,23 +95,83 @@ ${JSON.stringify(quickbooksData, null, 2)}
 Based on this complete data context, analyze the instruction and return a JSON object with the following structure:
 {
   "rule_type": "string",
+  "kind": "string (transaction, aggregate, duplicate, outlier, three_way_match) - optional, defaults to transaction",
   "conditions": [
     {
       "field": "string (use exact field names from the data above)",
-      "operator": "string (gt, lt, eq, ne, contains, not_contains, in, not_in)",
+      "operator": "string (one of the AVAILABLE OPERATORS below)",
       "value": "any",
-      "logical_operator": "string (AND, OR) - optional"
+      "logical_operator": "string (AND, OR) - optional, joins this entry to the previous one",
+      "negate": "boolean - optional, true to match when the condition is NOT met"
+    },
+    {
+      "logical_operator": "string (AND, OR) - optional, joins this group to the previous entry",
+      "logic": "string (AND, OR) - how the conditions inside this group are combined",
+      "scope": "string (line) - optional, require every Line.* condition in this group to match the same line item",
+      "negate": "boolean - optional, true to match when the group is NOT met",
+      "conditions": ["nested conditions or groups, same shape as this array"]
     }
   ],
+  "aggregate": {
+    "group_by": ["string field path, or { \"field\": \"TxnDate\", \"bucket\": \"day | week | month\" }"],
+    "window": { "field": "string (date field, default TxnDate)", "days": "number" },
+    "having": [
+      {
+        "metric": "string (count, sum, avg, min, max, distinct_count)",
+        "field": "string (required for every metric except count)",
+        "operator": "string (a numeric operator such as gt, gte, lt, lte, eq, ne, between)",
+        "value": "number (or [min, max] for between)",
+        "logical_operator": "string (AND, OR) - optional"
+      }
+    ]
+  },
+  "duplicate": {
+    "keys": {
+      "vendor": { "field": "string (default EntityRef.value)" },
+      "amount": { "field": "string (default TotalAmt)", "tolerance": "number", "tolerance_type": "string (absolute, percent)" },
+      "date": { "field": "string (default TxnDate)", "days": "number" },
+      "text": { "fields": ["string (default DocNumber, PrivateNote)"], "min_similarity": "number (0.0 to 1.0)" }
+    },
+    "min_score": "number (0.0 to 1.0, default 0.75)"
+  },
+  "outlier": {
+    "group_by": "string (field path whose history forms the baseline, e.g. EntityRef.value for vendor)",
+    "field": "string (numeric field compared to the baseline, default TotalAmt)",
+    "method": "string (zscore, mad, percentile)",
+    "threshold": "number (z-score for zscore/mad, e.g. 3; percentile for percentile, e.g. 95)",
+    "direction": "string (high, low, both) - default high",
+    "min_group_size": "number (minimum records per group, default 5)"
+  },
+  "three_way_match": {
+    "checks": ["string (bill_without_po, bill_exceeds_po, payment_exceeds_bill, payment_unmatched) - default all"],
+    "tolerance": "number (allowed excess, default 0)",
+    "tolerance_type": "string (absolute, percent)"
+  },
   "action": "string (flag, review, reject, approve)",
   "reason": "string",
+  "severity": "string (low, medium, high, critical) - how serious a single hit of this rule is",
   "confidence_score": "number (0.0 to 1.0)"
 }
 
+AVAILABLE OPERATORS:
+${describeOperatorsForPrompt()}
+
+REFERENCE FIELDS:
+Conditions can also use fields of the records a transaction links to. $vendor follows VendorRef or a vendor EntityRef, $customer follows CustomerRef or a customer EntityRef, and $account follows AccountRef, APAccountRef or DepositToAccountRef:
+${describeReferenceFields(referenceSchema) || '- none available'}
+
 IMPORTANT: 
 - Use exact field names from the QuickBooks data structure above
+- Use a REFERENCE FIELDS path (e.g. "$vendor.MetaData.CreateTime") only when the instruction is about the linked vendor, customer or account rather than the transaction itself
 - Consider the actual data values when determining appropriate conditions
 - Make sure your rule will work with the real data format shown
+- When several Line.* conditions describe the same line item (e.g. a Meals line over $500), put them in a group with scope "line"; otherwise each Line.* condition may be satisfied by a different line
+- Prefer a single condition with the most specific operator (e.g. between for ranges, is_empty for a missing memo, within_last_days for recent dates) over combining several conditions
+- In a flat conditions list AND binds tighter than OR, so "A OR B AND C" means "A OR (B AND C)". Use a group whenever the instruction needs different grouping, e.g. "(A AND B) OR (C AND D)" is two groups with logic AND joined by logical_operator OR
+- Use kind "aggregate" only when the instruction compares transactions with each other (frequency, duplicates, totals per vendor/account/period). Its conditions filter which records take part, aggregate.group_by groups them (e.g. EntityRef.value for vendor) and aggregate.having is checked per group. Omit "aggregate" and "window" when they are not needed
+- Use kind "duplicate" for duplicate or double-payment instructions. Enable only the duplicate.keys the instruction relies on (a key may be true to use its defaults); its conditions filter which records are compared. Omit "duplicate" for other kinds
+- Use kind "outlier" when the instruction asks for amounts that are unusual relative to a vendor's, account's or customer's own history rather than a fixed threshold. Prefer method "mad" for skewed amounts. Omit "outlier" for other kinds
+- Use kind "three_way_match" for instructions about matching bills to purchase orders and bill payments (bills without a PO, bills over the PO amount, overpaid or unapplied payments). It always checks the Bill, PurchaseOrder and BillPayment entities; its conditions filter which bills are checked and must use Bill fields. Omit "three_way_match" for other kinds
 
 Return ONLY the JSON object, no additional text or explanation.
 `;
@@ -120,56 +195,14 @@ router.post('/parse', injectOAuthToken, async (req, res) => {
       });
     }
     
-    // 1. Fetch complete QuickBooks data for this entity
+    // 1. Fetch a capped sample of QuickBooks data for this entity
     let quickbooksData;
     try {
-      // URL encode the query parameter - QuickBooks API requires this
-      const query = encodeURIComponent(`SELECT * FROM ${entity}`);
-      const url = `https://sandbox-quickbooks.api.intuit.com/v3/company/${realmId}/query?query=${query}`;
-      
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        // Try to get more details from the error response
-        let errorDetails = `${response.status} ${response.statusText}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.Fault) {
-            errorDetails = errorData.Fault.Error?.[0]?.Message || errorDetails;
-            if (errorData.Fault.Error?.[0]?.Detail) {
-              errorDetails += `: ${errorData.Fault.Error[0].Detail}`;
-            }
-          }
-        } catch (e) {
-          // If we can't parse the error response, use the status text
-        }
-        
-        throw new Error(`QuickBooks API error: ${errorDetails}`);
-      }
-
-      const data = await response.json();
-      
-      // Check for QuickBooks API errors in the response
-      if (data.Fault) {
-        const faultMessage = data.Fault.Error?.[0]?.Message || 'Unknown QuickBooks API error';
-        throw new Error(`QuickBooks API error: ${faultMessage}`);
-      }
-      
-      quickbooksData = data.QueryResponse && data.QueryResponse[entity];
-      
-      if (!quickbooksData || !quickbooksData.length) {
-        throw new Error(`No records found for entity: ${entity}`);
-      }
+      quickbooksData = await fetchSampleRecords({ realmId, accessToken, entity });
     } catch (err) {
-      return res.status(500).json({
-        success: false,
-        error: 'Failed to fetch QuickBooks data: ' + err.message,
+      const { status, body } = quickbooksErrorResponse(err, 'Failed to fetch QuickBooks data');
+      return res.status(status).json({
+        ...body,
         suggestions: [
           'Verify your QuickBooks Realm ID is correct',
           'Check that your OAuth access token is valid and not expired',
@@ -180,15 +213,29 @@ router.post('/parse', injectOAuthToken, async (req, res) => {
       });
     }
     
+    // Field schema of the fetched records, used to validate the parsed rule;
+    // null when the entity has no records yet
+    const schema = quickbooksData.length ? extractFieldSchema(quickbooksData) : null;
+
+    // Three-way match conditions select bills, so they are checked against the Bill schema
+    const schemaFor = async result => {
+      if (result.rule?.kind !== 'three_way_match' || entity === 'Bill') return schema;
+      return getQuickBooksFieldSchema({ realmId, accessToken, entity: 'Bill' });
+    };
+
     // 2. If Gemini is not available, use fallback parsing
     if (!model) {
       console.log('🔄 Using fallback parsing (Gemini not available)');
       const fallbackResult = fallbackParsing(instruction);
-      return res.json(fallbackResult);
+      return res.json(validateAgainstSchema(fallbackResult, await schemaFor(fallbackResult)));
     }
     
+    // Fields of the linked records the instruction names, e.g. $vendor.TaxIdentifier
+    const fetchReferenceSchema = referenceEntity => getQuickBooksFieldSchema({ realmId, accessToken, entity: referenceEntity });
+    const referenceSchema = await buildReferenceSchema(findMentionedReferenceNames(instruction), fetchReferenceSchema);
+
     // 3. Build a prompt that includes the complete QuickBooks data
-    const prompt = buildPromptWithCompleteData(instruction, quickbooksData, entity);
+    const prompt = buildPromptWithCompleteData(instruction, quickbooksData, entity, referenceSchema);
     try {
       console.log('🤖 Processing with Gemini AI:', instruction.substring(0, 50) + '...');
       const result = await model.generateContent(prompt);
@@ -197,12 +244,15 @@ router.post('/parse', injectOAuthToken, async (req, res) => {
       const parsedResult = parseGeminiResponse(text, instruction);
       
       console.log('✅ Gemini parsing completed');
-      res.json(parsedResult);
+      // Schemas are cached, so references already in the prompt aren't fetched again
+      const usedReferenceSchema = await buildReferenceSchema(findReferenceNames(parsedResult), fetchReferenceSchema);
+      const ruleSchema = await schemaFor(parsedResult);
+      res.json(validateAgainstSchema(parsedResult, ruleSchema && { ...ruleSchema, ...usedReferenceSchema }));
     } catch (error) {
       console.error('❌ Gemini API error:', error.message);
       // Fall back to rule-based parsing on error
       const fallbackResult = fallbackParsing(instruction);
-      res.json(fallbackResult);
+      res.json(validateAgainstSchema(fallbackResult, await schemaFor(fallbackResult)));
     }
   } catch (error) {
     console.error('Parse instruction error:', error);
@@ -264,14 +314,30 @@ const validateParsedRule = (rule) => {
     typeof rule.confidence_score === 'number' &&
     rule.confidence_score >= 0 &&
     rule.confidence_score <= 1 &&
-    rule.conditions.every((condition) =>
-      condition.field &&
-      condition.operator &&
-      condition.value !== undefined
-    )
+    validateRule(rule).valid
   );
 };
 
+// Check a successfully parsed rule's fields against the entity schema
+const validateAgainstSchema = (result, schema) => {
+  if (!result.success) return result;
+
+  const { valid, errors, warnings } = validateRule(result.rule, schema);
+  if (valid) {
+    return warnings.length > 0 ? { ...result, validation_warnings: warnings } : result;
+  }
+
+  console.warn('⚠️  Parsed rule failed schema validation:', errors.map(error => error.message).join('; '));
+  return {
+    success: false,
+    rule: result.rule,
+    error: 'The generated rule references fields or values that do not match your QuickBooks data',
+    validation_errors: errors,
+    ...(warnings.length > 0 && { validation_warnings: warnings }),
+    suggestions: errors.map(error => error.message)
+  };
+};
+
 // Fallback parsing when Gemini is not available
 const fallbackParsing = (instruction) => {
   const normalizedInstruction = instruction.toLowerCase().trim();
@@ -292,9 +358,18 @@ const fallbackParsing = (instruction) => {
     };
   }
 
+  const aggregate = extractAggregateConfig(ruleType, normalizedInstruction);
+  const duplicate = extractDuplicateConfig(ruleType, normalizedInstruction);
+  const outlier = extractOutlierConfig(ruleType, normalizedInstruction);
+  const threeWayMatch = extractThreeWayMatchConfig(ruleType, normalizedInstruction);
+
   const rule = {
     rule_type: ruleType,
-    conditions,
+    ...(aggregate && { kind: 'aggregate', aggregate }),
+    ...(duplicate && { kind: 'duplicate', duplicate }),
+    ...(outlier && { kind: 'outlier', outlier }),
+    ...(threeWayMatch && { kind: 'three_way_match', three_way_match: threeWayMatch }),
+    conditions: aggregate || duplicate || outlier || threeWayMatch ? [] : conditions,
     action,
     reason: `${action.charAt(0).toUpperCase() + action.slice(1)} based on ${ruleType.replace('_', ' ')}`,
     confidence_score: 0.6 // Lower confidence for fallback parsing
@@ -335,6 +410,12 @@ const determineRuleType = (instruction) => {
   if (/duplicate|same.*transaction|identical/i.test(instruction)) {
     return 'duplicate_detection';
   }
+  if (/purchase order|\bpo\b|three.way|overpa/i.test(instruction)) {
+    return 'three_way_match';
+  }
+  if (/unusual|outlier|anomal|out of (?:the )?ordinary/i.test(instruction)) {
+    return 'amount_outlier';
+  }
   if (/time|after|before|am|pm/i.test(instruction)) {
     return 'time_based';
   }
@@ -348,7 +429,7 @@ const extractBasicConditions = (instruction) => {
   const amountMatch = instruction.match(/\$?(\d+(?:,\d{3})*(?:\.\d{2})?)/);
   if (amountMatch) {
     conditions.push({
-      field: 'amount',
+      field: 'TotalAmt',
       operator: 'gt',
       value: parseFloat(amountMatch[1].replace(/,/g, ''))
     });
@@ -357,4 +438,66 @@ const extractBasicConditions = (instruction) => {
   return conditions;
 };
 
+// Vendor frequency instructions are evaluated as aggregate rules grouped by vendor
+const extractAggregateConfig = (ruleType, instruction) => {
+  if (ruleType === 'vendor_frequency') {
+    const timesMatch = instruction.match(/(\d+)\s*(?:or more\s*)?times/);
+    const threshold = timesMatch ? parseInt(timesMatch[1]) : 2;
+    const windowDays = /week/.test(instruction) ? 7 : /month/.test(instruction) ? 30 : 1;
+    return {
+      group_by: ['EntityRef.value'],
+      window: { field: 'TxnDate', days: windowDays },
+      having: [{ metric: 'count', operator: 'gt', value: threshold - 1 }]
+    };
+  }
+  return null;
+};
+
+// Duplicate instructions use the fuzzy duplicate detector
+const extractDuplicateConfig = (ruleType, instruction) => {
+  if (ruleType !== 'duplicate_detection') return null;
+  const daysMatch = instruction.match(/(\d+)\s*days?/);
+  return {
+    keys: {
+      vendor: true,
+      amount: true,
+      date: { days: daysMatch ? parseInt(daysMatch[1]) : 7 },
+      ...(/memo|note|reference|doc/.test(instruction) && { text: { min_similarity: 0.6 } })
+    },
+    min_score: 0.75
+  };
+};
+
+// Unusual-amount instructions compare each record to its group's history
+const extractOutlierConfig = (ruleType, instruction) => {
+  if (ruleType !== 'amount_outlier') return null;
+  const groupBy = /customer/.test(instruction)
+    ? 'CustomerRef.value'
+    : /account/.test(instruction) ? 'AccountRef.value' : 'EntityRef.value';
+  return {
+    group_by: groupBy,
+    field: 'TotalAmt',
+    method: 'mad',
+    threshold: 3.5,
+    direction: 'high'
+  };
+};
+
+// Bill/PO/payment matching instructions enable the checks they mention
+const extractThreeWayMatchConfig = (ruleType, instruction) => {
+  if (ruleType !== 'three_way_match') return null;
+  const checks = [
+    ...(/without|missing|no (?:purchase order|po)/.test(instruction) ? ['bill_without_po'] : []),
+    ...(/exceed|over|more than/.test(instruction) && /purchase order|\bpo\b/.test(instruction) ? ['bill_exceeds_po'] : []),
+    ...(/overpa|paid more|payment.*exceed/.test(instruction) ? ['payment_exceeds_bill'] : []),
+    ...(/unmatched|unapplied|not applied/.test(instruction) ? ['payment_unmatched'] : [])
+  ];
+  const percentMatch = instruction.match(/(\d+(?:\.\d+)?)\s*%/);
+  return {
+    ...(checks.length > 0 && { checks }),
+    tolerance: percentMatch ? parseFloat(percentMatch[1]) : 0,
+    tolerance_type: percentMatch ? 'percent' : 'absolute'
+  };
+};
+
 export default router;
\ No newline at end of file
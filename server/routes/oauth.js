@@ -4,22 +4,9 @@ import crypto from 'crypto';
 
 const router = express.Router();
 
-// OAuth configuration
-const OAUTH_CONFIG = {
-  sandbox: {
-    authUrl: 'https://appcenter.intuit.com/connect/oauth2',
-    tokenUrl: 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer',
-    revokeUrl: 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke',
-  },
-  production: {
-    authUrl: 'https://appcenter.intuit.com/connect/oauth2',
-    tokenUrl: 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer',
-    revokeUrl: 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke',
-  }
-};
-
 import { tokenStore } from '../services/tokenStore.js';
 import { oauthStateStore } from '../services/oauthStateStore.js';
+import { getEnvironment, getOAuthConfig } from '../services/quickbooksEnvironment.js';
 
 /**
  * Generate authorization URL and redirect user to QuickBooks OAuth
@@ -30,7 +17,7 @@ router.get('/authorize', (req, res) => {
     const clientId = process.env.QUICKBOOKS_CLIENT_ID;
     const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
     const redirectUri = process.env.QUICKBOOKS_REDIRECT_URI || `${req.protocol}://${req.get('host')}/api/oauth/callback`;
-    const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
+    const environment = getEnvironment();
     const scope = process.env.QUICKBOOKS_SCOPE || 'com.intuit.quickbooks.accounting';
 
     if (!clientId || !clientSecret) {
@@ -55,7 +42,7 @@ router.get('/authorize', (req, res) => {
       }
     }
 
-    const config = OAUTH_CONFIG[environment] || OAUTH_CONFIG.sandbox;
+    const config = getOAuthConfig(environment);
     const authUrl = new URL(config.authUrl);
     authUrl.searchParams.set('client_id', clientId);
     authUrl.searchParams.set('response_type', 'code');
@@ -104,8 +91,8 @@ router.get('/callback', async (req, res) => {
     const clientId = process.env.QUICKBOOKS_CLIENT_ID;
     const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
     const redirectUri = stateData.redirectUri;
-    const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-    const config = OAUTH_CONFIG[environment] || OAUTH_CONFIG.sandbox;
+    const environment = getEnvironment();
+    const config = getOAuthConfig(environment);
 
     // Exchange authorization code for tokens
     const tokenResponse = await fetch(config.tokenUrl, {
@@ -236,8 +223,8 @@ router.post('/refresh', async (req, res) => {
 
     const clientId = process.env.QUICKBOOKS_CLIENT_ID;
     const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
-    const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-    const config = OAUTH_CONFIG[environment] || OAUTH_CONFIG.sandbox;
+    const environment = getEnvironment();
+    const config = getOAuthConfig(environment);
 
     // Refresh the token
     const tokenResponse = await fetch(config.tokenUrl, {
@@ -332,8 +319,8 @@ router.get('/token', async (req, res) => {
       try {
         const clientId = process.env.QUICKBOOKS_CLIENT_ID;
         const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
-        const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-        const config = OAUTH_CONFIG[environment] || OAUTH_CONFIG.sandbox;
+        const environment = getEnvironment();
+        const config = getOAuthConfig(environment);
 
         const tokenResponse = await fetch(config.tokenUrl, {
           method: 'POST',
@@ -421,8 +408,8 @@ router.post('/revoke', async (req, res) => {
 
     const clientId = process.env.QUICKBOOKS_CLIENT_ID;
     const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
-    const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-    const config = OAUTH_CONFIG[environment] || OAUTH_CONFIG.sandbox;
+    const environment = getEnvironment();
+    const config = getOAuthConfig(environment);
 
     // Revoke the refresh token
     try {
@@ -1,5 +1,16 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { injectOAuthToken } from '../services/oauthTokenManager.js';
+import { getQuickBooksFieldSchema } from '../services/quickbooksSchemaExtractor.js';
+import { sendQuickBooksError } from '../services/quickbooksClient.js';
+import { validateRule } from '../services/ruleValidator.js';
+import { validateRiskSettings } from '../services/riskScoring.js';
+import { validateRuleEntities } from '../services/ruleExecutor.js';
+import { buildReferenceSchema, findReferenceNames } from '../services/referenceData.js';
+import { validateRuleExamples, normalizeExamples, runRuleExamples } from '../services/ruleExamples.js';
+import { previewRuleImpact } from '../services/ruleImpact.js';
+import { validatePeriod, resolvePeriod } from '../services/periodScope.js';
+import { validateMaxRecords } from '../services/quickbooksQuery.js';
 
 const router = express.Router();
 
@@ -8,6 +19,11 @@ const router = express.Router();
 let rulesStorage = [];
 let versionHistory = [];
 
+// The stored rules, for runs the server starts itself such as schedules
+export function getStoredRules() {
+  return rulesStorage;
+}
+
 // Get all rules
 router.get('/', (req, res) => {
   try {
@@ -57,9 +73,10 @@ router.get('/:id', (req, res) => {
 });
 
 // Create new rule
-router.post('/', (req, res) => {
+// When realmId and entity are given, fields are checked against the entity's schema
+router.post('/', injectOAuthToken, async (req, res) => {
   try {
-    const { parsedRule, originalInstruction, createdBy = 'system' } = req.body;
+    const { parsedRule, originalInstruction, createdBy = 'system', realmId, accessToken, entity } = req.body;
     
     if (!parsedRule || !originalInstruction) {
       return res.status(400).json({
@@ -67,12 +84,62 @@ router.post('/', (req, res) => {
         error: 'Missing required fields: parsedRule and originalInstruction'
       });
     }
+
+    // Three-way match conditions select bills, whichever entity the rule was parsed against
+    const isThreeWayMatch = parsedRule.kind === 'three_way_match';
+    const schemaEntity = isThreeWayMatch ? 'Bill' : entity;
+
+    // Left null when the entity has no records to infer a schema from
+    let schema = null;
+    if (realmId && accessToken && entity) {
+      try {
+        const entitySchema = await getQuickBooksFieldSchema({ realmId, accessToken, entity: schemaEntity });
+        if (entitySchema) {
+          schema = {
+            ...entitySchema,
+            ...await buildReferenceSchema(
+              findReferenceNames(parsedRule),
+              referenceEntity => getQuickBooksFieldSchema({ realmId, accessToken, entity: referenceEntity })
+            )
+          };
+        }
+      } catch (error) {
+        return sendQuickBooksError(res, error, 'Failed to fetch QuickBooks schema');
+      }
+    }
+
+    const examplesError = validateRuleExamples(parsedRule);
+    if (examplesError) {
+      return res.status(400).json({
+        success: false,
+        error: examplesError
+      });
+    }
+
+    const validation = validateRule(parsedRule, schema);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule failed validation',
+        validation_errors: validation.errors,
+        suggestions: validation.errors.map(error => error.message)
+      });
+    }
     
+    // Bind the rule to the entity it was parsed against unless it names its own;
+    // three-way matches always run on their fixed entities
+    const entities = isThreeWayMatch ? undefined : parsedRule.entities || (entity ? [entity] : undefined);
+
     // Check if similar rule exists
     const existingRule = rulesStorage.find(rule => 
       rule.rule_type === parsedRule.rule_type && 
       rule.is_active &&
-      JSON.stringify(rule.conditions) === JSON.stringify(parsedRule.conditions)
+      JSON.stringify(rule.entities) === JSON.stringify(entities) &&
+      JSON.stringify(rule.conditions) === JSON.stringify(parsedRule.conditions) &&
+      JSON.stringify(rule.aggregate) === JSON.stringify(parsedRule.aggregate) &&
+      JSON.stringify(rule.duplicate) === JSON.stringify(parsedRule.duplicate) &&
+      JSON.stringify(rule.outlier) === JSON.stringify(parsedRule.outlier) &&
+      JSON.stringify(rule.three_way_match) === JSON.stringify(parsedRule.three_way_match)
     );
 
     let newRule;
@@ -83,21 +150,31 @@ router.post('/', (req, res) => {
         ...existingRule,
         id: uuidv4(),
         version: existingRule.version + 1,
+        ...(parsedRule.examples && { examples: normalizeExamples(parsedRule.examples) }),
+        // Severity and weight can be re-rated without changing what the rule flags
+        ...(parsedRule.severity && { severity: parsedRule.severity }),
+        ...(parsedRule.weight !== undefined && { weight: parsedRule.weight }),
         original_instruction: originalInstruction,
         created_at: new Date().toISOString(),
         created_by: createdBy,
         confidence_score: parsedRule.confidence_score
       };
-      
-      // Deactivate old version
-      existingRule.is_active = false;
     } else {
       // Create new rule
       newRule = {
         id: uuidv4(),
         version: 1,
         rule_type: parsedRule.rule_type,
+        kind: parsedRule.kind || 'transaction',
+        ...(entities && { entities }),
         conditions: parsedRule.conditions,
+        ...(parsedRule.aggregate && { aggregate: parsedRule.aggregate }),
+        ...(parsedRule.duplicate && { duplicate: parsedRule.duplicate }),
+        ...(parsedRule.outlier && { outlier: parsedRule.outlier }),
+        ...(parsedRule.three_way_match && { three_way_match: parsedRule.three_way_match }),
+        ...(parsedRule.examples && { examples: normalizeExamples(parsedRule.examples) }),
+        severity: parsedRule.severity || 'medium',
+        weight: parsedRule.weight ?? 1,
         action: parsedRule.action,
         reason: parsedRule.reason,
         original_instruction: originalInstruction,
@@ -108,6 +185,16 @@ router.post('/', (req, res) => {
       };
     }
 
+    // A rule that fails its own examples is saved but not activated
+    if (newRule.examples?.length) {
+      newRule.example_results = runRuleExamples(newRule);
+      newRule.is_active = newRule.example_results.status === 'passing';
+    }
+    if (existingRule && newRule.is_active) {
+      // Deactivate old version
+      existingRule.is_active = false;
+    }
+
     rulesStorage.push(newRule);
     
     // Save version history
@@ -122,7 +209,11 @@ router.post('/', (req, res) => {
 
     res.status(201).json({
       success: true,
-      data: newRule
+      data: newRule,
+      ...(validation.warnings.length > 0 && { validation_warnings: validation.warnings }),
+      ...(!newRule.is_active && {
+        message: `Rule saved inactive: ${newRule.example_results.failed} of ${newRule.example_results.total} examples failed`
+      })
     });
   } catch (error) {
     res.status(500).json({
@@ -132,6 +223,118 @@ router.post('/', (req, res) => {
   }
 });
 
+// The active version of a rule type, other than the given rule
+function findActiveVersion(ruleType, excludeId) {
+  return rulesStorage.find(rule => rule.rule_type === ruleType && rule.is_active && rule.id !== excludeId) || null;
+}
+
+// Validate the connection and run options of a preview request
+function validatePreviewRequest({ realmId, accessToken, entity, period, max_records: maxRecords }) {
+  if (!realmId || !accessToken || !entity) {
+    return 'realmId, accessToken, and entity are required';
+  }
+  return validateMaxRecords(maxRecords) || validatePeriod(period);
+}
+
+// Send an impact preview, mapping failed executions to their status
+async function sendImpactPreview(res, candidate, current, { realmId, accessToken, entity, period, max_records: maxRecords }) {
+  const result = await previewRuleImpact(candidate, current, {
+    realmId,
+    accessToken,
+    entity,
+    scope: period ? resolvePeriod(period) : null,
+    maxRecords
+  });
+  if (!result.success) {
+    const { status = 500, data, ...body } = result;
+    return res.status(status).json(body);
+  }
+  res.json(result);
+}
+
+// Dry-run a parsed rule against the active version it would replace
+// POST /api/rules/preview { parsedRule, compareTo?, realmId, entity, period?, max_records? }
+router.post('/preview', injectOAuthToken, async (req, res) => {
+  try {
+    const { parsedRule, compareTo } = req.body;
+
+    if (!parsedRule) {
+      return res.status(400).json({
+        success: false,
+        error: 'parsedRule is required'
+      });
+    }
+
+    const requestError = validatePreviewRequest(req.body);
+    if (requestError) {
+      return res.status(400).json({
+        success: false,
+        error: requestError
+      });
+    }
+
+    const validation = validateRule(parsedRule);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rule failed validation',
+        validation_errors: validation.errors
+      });
+    }
+
+    const current = compareTo
+      ? rulesStorage.find(rule => rule.id === compareTo)
+      : findActiveVersion(parsedRule.rule_type);
+    if (compareTo && !current) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rule to compare against not found'
+      });
+    }
+
+    await sendImpactPreview(res, parsedRule, current, req.body);
+  } catch (error) {
+    console.error('Impact preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview rule impact'
+    });
+  }
+});
+
+// Check a rule, saved or not, against labeled examples without storing anything
+router.post('/examples/check', (req, res) => {
+  try {
+    const { rule, examples } = req.body;
+
+    if (!rule || typeof rule !== 'object') {
+      return res.status(400).json({
+        success: false,
+        error: 'rule is required'
+      });
+    }
+
+    const candidate = { ...rule, ...(examples !== undefined && { examples }) };
+    const examplesError = validateRuleExamples(candidate);
+    if (examplesError) {
+      return res.status(400).json({
+        success: false,
+        error: examplesError
+      });
+    }
+
+    res.json({
+      success: true,
+      data: runRuleExamples(candidate)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check rule examples'
+    });
+  }
+});
+
 // Update rule
 router.put('/:id', (req, res) => {
   try {
@@ -146,12 +349,53 @@ router.put('/:id', (req, res) => {
         error: 'Rule not found'
       });
     }
-    
-    rulesStorage[ruleIndex] = {
+
+    const riskError = validateRiskSettings(updates);
+    if (riskError) {
+      return res.status(400).json({
+        success: false,
+        error: riskError
+      });
+    }
+
+    const entitiesError = validateRuleEntities(updates);
+    if (entitiesError) {
+      return res.status(400).json({
+        success: false,
+        error: entitiesError
+      });
+    }
+
+    const examplesError = validateRuleExamples(updates);
+    if (examplesError) {
+      return res.status(400).json({
+        success: false,
+        error: examplesError
+      });
+    }
+
+    const updatedRule = {
       ...rulesStorage[ruleIndex],
       ...updates,
+      ...(updates.examples && { examples: normalizeExamples(updates.examples) }),
       updated_at: new Date().toISOString()
     };
+
+    // An active rule must still pass its examples after the edit
+    if (updatedRule.examples?.length) {
+      updatedRule.example_results = runRuleExamples(updatedRule);
+      if (updatedRule.is_active && updatedRule.example_results.status === 'failing') {
+        return res.status(422).json({
+          success: false,
+          error: `Rule cannot be active: ${updatedRule.example_results.failed} of ${updatedRule.example_results.total} examples failed`,
+          example_results: updatedRule.example_results
+        });
+      }
+    } else {
+      delete updatedRule.example_results;
+    }
+
+    rulesStorage[ruleIndex] = updatedRule;
     
     res.json({
       success: true,
@@ -212,6 +456,40 @@ router.get('/versions/:ruleType', (req, res) => {
   }
 });
 
+// Dry-run a rollback: the target version against the active one
+router.post('/rollback/:ruleType/:version/preview', injectOAuthToken, async (req, res) => {
+  try {
+    const { ruleType, version } = req.params;
+    const targetRule = rulesStorage.find(rule =>
+      rule.rule_type === ruleType &&
+      rule.version === parseInt(version)
+    );
+
+    if (!targetRule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rule version not found'
+      });
+    }
+
+    const requestError = validatePreviewRequest(req.body);
+    if (requestError) {
+      return res.status(400).json({
+        success: false,
+        error: requestError
+      });
+    }
+
+    await sendImpactPreview(res, targetRule, findActiveVersion(ruleType, targetRule.id), req.body);
+  } catch (error) {
+    console.error('Rollback preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview rollback'
+    });
+  }
+});
+
 // Rollback to version
 router.post('/rollback/:ruleType/:version', (req, res) => {
   try {
@@ -228,6 +506,17 @@ router.post('/rollback/:ruleType/:version', (req, res) => {
       });
     }
 
+    if (targetRule.examples?.length) {
+      targetRule.example_results = runRuleExamples(targetRule);
+      if (targetRule.example_results.status === 'failing') {
+        return res.status(422).json({
+          success: false,
+          error: `Cannot roll back to version ${version}: ${targetRule.example_results.failed} of ${targetRule.example_results.total} examples failed`,
+          example_results: targetRule.example_results
+        });
+      }
+    }
+
     // Deactivate current active rule
     rulesStorage.forEach(rule => {
       if (rule.rule_type === ruleType && rule.is_active) {
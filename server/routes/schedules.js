@@ -0,0 +1,195 @@
+import express from 'express';
+import {
+  validateSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  getSchedule,
+  listSchedules,
+  listScheduleRuns,
+  getScheduleRun,
+  runSchedule
+} from '../services/scheduler.js';
+
+const router = express.Router();
+
+/**
+ * List schedules, optionally for one company
+ * GET /api/schedules?realmId=...
+ */
+router.get('/', (req, res) => {
+  const schedules = listSchedules(req.query.realmId);
+
+  res.json({
+    success: true,
+    data: schedules,
+    count: schedules.length
+  });
+});
+
+/**
+ * Create a schedule
+ * POST /api/schedules
+ */
+router.post('/', (req, res) => {
+  const { created_by: createdBy = 'user', ...schedule } = req.body;
+
+  const validationError = validateSchedule(schedule);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError
+    });
+  }
+
+  const created = createSchedule(schedule, createdBy);
+  console.log(`⏰ Scheduled "${created.name}" (${created.cron}), next run ${created.next_run_at}`);
+
+  res.status(201).json({
+    success: true,
+    data: created,
+    message: 'Schedule created'
+  });
+});
+
+/**
+ * Get a schedule
+ * GET /api/schedules/:id
+ */
+router.get('/:id', (req, res) => {
+  const schedule = getSchedule(req.params.id);
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: schedule
+  });
+});
+
+/**
+ * Change a schedule, or pause and resume it with enabled
+ * PATCH /api/schedules/:id
+ */
+router.patch('/:id', (req, res) => {
+  const schedule = getSchedule(req.params.id);
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  // The company a schedule audits is fixed; create another schedule instead
+  const { realm_id: realmId, ...updates } = req.body;
+  if (realmId !== undefined && realmId !== schedule.realm_id) {
+    return res.status(400).json({
+      success: false,
+      error: 'realm_id cannot be changed'
+    });
+  }
+
+  const validationError = validateSchedule({ ...schedule, ...updates });
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError
+    });
+  }
+
+  res.json({
+    success: true,
+    data: updateSchedule(schedule, updates),
+    message: 'Schedule updated'
+  });
+});
+
+/**
+ * Delete a schedule and its run history
+ * DELETE /api/schedules/:id
+ */
+router.delete('/:id', (req, res) => {
+  if (!deleteSchedule(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'Schedule deleted'
+  });
+});
+
+/**
+ * Run a schedule now, outside its cron expression
+ * POST /api/schedules/:id/run
+ */
+router.post('/:id/run', async (req, res) => {
+  const schedule = getSchedule(req.params.id);
+
+  if (!schedule) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  const run = await runSchedule(schedule, 'manual');
+
+  res.json({
+    success: true,
+    data: run,
+    message: `Schedule run ${run.status}`
+  });
+});
+
+/**
+ * List the runs of a schedule, newest first
+ * GET /api/schedules/:id/runs
+ */
+router.get('/:id/runs', (req, res) => {
+  if (!getSchedule(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Schedule not found'
+    });
+  }
+
+  const runs = listScheduleRuns(req.params.id);
+
+  res.json({
+    success: true,
+    data: runs,
+    count: runs.length
+  });
+});
+
+/**
+ * Get a run with its full execution results
+ * GET /api/schedules/:id/runs/:runId
+ */
+router.get('/:id/runs/:runId', (req, res) => {
+  const run = getScheduleRun(req.params.id, req.params.runId);
+
+  if (!run) {
+    return res.status(404).json({
+      success: false,
+      error: 'Run not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: run
+  });
+});
+
+export default router;
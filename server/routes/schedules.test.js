@@ -0,0 +1,99 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import express from 'express';
+import scheduleRoutes from './schedules.js';
+import { startMockQuickBooks } from '../mock/testing.js';
+import { startScheduler, stopScheduler } from '../services/scheduler.js';
+
+const realmId = '9130350000000001';
+const rules = [
+  { id: 'big', rule_type: 'big', is_active: true, conditions: [{ field: 'TotalAmt', operator: 'gt', value: 1000 }], action: 'review', reason: 'big' },
+  { id: 'invoices', rule_type: 'invoices', is_active: true, entities: ['Invoice'], conditions: [{ field: 'TotalAmt', operator: 'gt', value: 1000 }], action: 'review', reason: 'invoices' }
+];
+
+let quickbooks;
+let server;
+let baseUrl;
+before(async () => {
+  // Keep the run's progress logging out of the test output
+  mock.method(console, 'log', () => {});
+  quickbooks = await startMockQuickBooks();
+  startScheduler({ getRules: () => rules });
+  const app = express();
+  app.use(express.json());
+  app.use('/api/schedules', scheduleRoutes);
+  server = app.listen(0);
+  await once(server, 'listening');
+  baseUrl = `http://localhost:${server.address().port}/api/schedules`;
+});
+after(async () => {
+  stopScheduler();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  await quickbooks.close();
+});
+
+async function request(method, path, body) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body && { body: JSON.stringify(body) })
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+const nightly = { name: 'Nightly', cron: '0 2 * * *', realm_id: realmId, entities: ['Expense'] };
+
+test('creates, lists, updates and deletes a schedule', async () => {
+  const created = await request('POST', '/', nightly);
+  assert.equal(created.status, 201);
+  const { id } = created.body.data;
+  assert.equal(created.body.data.enabled, true);
+  assert.ok(created.body.data.next_run_at);
+
+  const listed = await request('GET', `/?realmId=${realmId}`);
+  assert.ok(listed.body.data.some(schedule => schedule.id === id));
+  assert.equal((await request('GET', '/?realmId=other')).body.count, 0);
+
+  const paused = await request('PATCH', `/${id}`, { enabled: false, name: ' Weekly ' });
+  assert.equal(paused.status, 200);
+  assert.equal(paused.body.data.name, 'Weekly');
+  assert.equal(paused.body.data.next_run_at, null);
+
+  assert.equal((await request('DELETE', `/${id}`)).status, 200);
+  assert.equal((await request('GET', `/${id}`)).status, 404);
+  assert.equal((await request('DELETE', `/${id}`)).status, 404);
+});
+
+test('rejects invalid schedules and realm changes', async () => {
+  const invalid = await request('POST', '/', { ...nightly, cron: '0 2 * *' });
+  assert.equal(invalid.status, 400);
+  assert.match(invalid.body.error, /five fields/);
+  assert.equal((await request('POST', '/', { ...nightly, entities: [] })).status, 400);
+
+  const { id } = (await request('POST', '/', nightly)).body.data;
+  const moved = await request('PATCH', `/${id}`, { realm_id: '9130350000000002' });
+  assert.equal(moved.status, 400);
+  assert.equal(moved.body.error, 'realm_id cannot be changed');
+  assert.equal((await request('PATCH', `/${id}`, { rule_types: [] })).status, 400);
+  assert.equal((await request('PATCH', '/unknown', { enabled: false })).status, 404);
+});
+
+test('runs a schedule now and keeps the run', async () => {
+  const { id } = (await request('POST', '/', nightly)).body.data;
+  const ran = await request('POST', `/${id}/run`);
+  assert.equal(ran.status, 200);
+  assert.equal(ran.body.data.status, 'succeeded');
+  assert.equal(ran.body.data.trigger, 'manual');
+  assert.deepEqual(ran.body.data.rule_ids, ['big']);
+
+  const runs = await request('GET', `/${id}/runs`);
+  assert.equal(runs.body.count, 1);
+  assert.equal(runs.body.data[0].result, undefined);
+
+  const run = await request('GET', `/${id}/runs/${ran.body.data.id}`);
+  assert.deepEqual(run.body.data.result.summary.entities, ['Expense']);
+  assert.equal((await request('GET', `/${id}/runs/unknown`)).status, 404);
+  assert.equal((await request('POST', '/unknown/run')).status, 404);
+});
@@ -0,0 +1,77 @@
+import express from 'express';
+import {
+  validateSuppression,
+  createSuppression,
+  deleteSuppression,
+  listSuppressions
+} from '../services/suppressions.js';
+
+const router = express.Router();
+
+/**
+ * List the suppressions of a company
+ * GET /api/suppressions?realmId=...&rule_type=...&include_expired=true
+ */
+router.get('/', (req, res) => {
+  const { realmId, rule_type: ruleType, include_expired: includeExpired } = req.query;
+
+  if (!realmId) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId is required'
+    });
+  }
+
+  const suppressions = listSuppressions(realmId, { ruleType, includeExpired: includeExpired === 'true' });
+
+  res.json({
+    success: true,
+    data: suppressions,
+    count: suppressions.length
+  });
+});
+
+/**
+ * Suppress a rule's flags on a transaction, a vendor, or records matching a pattern
+ * POST /api/suppressions
+ */
+router.post('/', (req, res) => {
+  const { created_by: createdBy = 'user', ...suppression } = req.body;
+
+  const validationError = validateSuppression(suppression);
+  if (validationError) {
+    return res.status(400).json({
+      success: false,
+      error: validationError
+    });
+  }
+
+  const created = createSuppression(suppression, createdBy);
+  console.log(`🔕 Suppressed ${created.rule_type} by ${created.scope} until ${created.expires_on}`);
+
+  res.status(201).json({
+    success: true,
+    data: created,
+    message: 'Suppression created'
+  });
+});
+
+/**
+ * Lift a suppression
+ * DELETE /api/suppressions/:id
+ */
+router.delete('/:id', (req, res) => {
+  if (!deleteSuppression(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Suppression not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'Suppression deleted'
+  });
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import express from 'express';
+import { injectOAuthToken } from '../services/oauthTokenManager.js';
+import {
+  validateWriteBackConfig,
+  getWriteBackConfig,
+  setWriteBackConfig,
+  planWriteBack,
+  applyWriteBack,
+  undoWriteBack,
+  listWriteBackRuns
+} from '../services/writeBack.js';
+
+const router = express.Router();
+
+/**
+ * Send a failed write-back step with the status its error maps to
+ * @param {object} res - Express response
+ * @param {object} result - Failed result from the write-back service
+ */
+function sendWriteBackFailure(res, result) {
+  const { status = 500, data, ...body } = result;
+  if (status === 429 && body.retry_after !== null && body.retry_after !== undefined) {
+    res.set('Retry-After', String(body.retry_after));
+  }
+  // An interrupted run still reports the changes it applied
+  res.status(status).json(data ? { ...body, data } : body);
+}
+
+/**
+ * Get the write-back configuration of a company
+ * GET /api/writeback/config?realmId=...
+ */
+router.get('/config', (req, res) => {
+  const { realmId } = req.query;
+
+  if (!realmId) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId is required'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: getWriteBackConfig(realmId)
+  });
+});
+
+/**
+ * Choose which rule actions are written back to QuickBooks, and how
+ * PUT /api/writeback/config
+ */
+router.put('/config', (req, res) => {
+  const { realmId, actions } = req.body;
+
+  if (!realmId) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId is required'
+    });
+  }
+
+  const configError = validateWriteBackConfig({ actions });
+  if (configError) {
+    return res.status(400).json({
+      success: false,
+      error: configError
+    });
+  }
+
+  const config = setWriteBackConfig(realmId, { actions });
+  console.log(`✍️  Write-back configured for ${Object.keys(config.actions).join(', ') || 'no'} actions`);
+
+  res.json({
+    success: true,
+    data: config,
+    message: 'Write-back configuration saved'
+  });
+});
+
+/**
+ * Plan the write-back of an execution's risk queue; nothing is written yet
+ * POST /api/writeback/plan
+ */
+router.post('/plan', injectOAuthToken, async (req, res) => {
+  try {
+    const { realmId, accessToken, entity, risk_queue: riskQueue } = req.body;
+
+    if (!realmId || !accessToken || !entity) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId, accessToken, and entity are required'
+      });
+    }
+
+    if (!Array.isArray(riskQueue)) {
+      return res.status(400).json({
+        success: false,
+        error: 'risk_queue must be the risk_queue array of an execution result'
+      });
+    }
+
+    const result = await planWriteBack({ realmId, accessToken, entity, riskQueue });
+
+    if (result.success) {
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Write-back planned: ${result.data.changes.length} transactions would be updated. Confirm the run to apply it.`
+      });
+    } else {
+      sendWriteBackFailure(res, result);
+    }
+
+  } catch (error) {
+    console.error('Write-back planning error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to plan write-back',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Apply a planned write-back; confirmation must echo the plan's confirmation_code
+ * POST /api/writeback/runs/:id/apply
+ */
+router.post('/runs/:id/apply', injectOAuthToken, async (req, res) => {
+  try {
+    const { realmId, accessToken, confirmation } = req.body;
+
+    if (!realmId || !accessToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId and accessToken are required'
+      });
+    }
+
+    if (!confirmation) {
+      return res.status(400).json({
+        success: false,
+        error: 'confirmation is required to write to QuickBooks'
+      });
+    }
+
+    const result = await applyWriteBack(req.params.id, { realmId, accessToken, confirmation });
+
+    if (result.success) {
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Write-back applied to ${result.data.summary.applied || 0} of ${result.data.summary.total} transactions`
+      });
+    } else {
+      sendWriteBackFailure(res, result);
+    }
+
+  } catch (error) {
+    console.error('Write-back error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply write-back',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * Restore the values a write-back replaced
+ * POST /api/writeback/runs/:id/undo
+ */
+router.post('/runs/:id/undo', injectOAuthToken, async (req, res) => {
+  try {
+    const { realmId, accessToken } = req.body;
+
+    if (!realmId || !accessToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'realmId and accessToken are required'
+      });
+    }
+
+    const result = await undoWriteBack(req.params.id, { realmId, accessToken });
+
+    if (result.success) {
+      res.json({
+        success: true,
+        data: result.data,
+        message: `Write-back undone for ${result.data.summary.undone || 0} transactions`
+      });
+    } else {
+      sendWriteBackFailure(res, result);
+    }
+
+  } catch (error) {
+    console.error('Write-back undo error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to undo write-back',
+      details: error.message
+    });
+  }
+});
+
+/**
+ * List the write-back runs of a company
+ * GET /api/writeback/runs?realmId=...
+ */
+router.get('/runs', (req, res) => {
+  const { realmId } = req.query;
+
+  if (!realmId) {
+    return res.status(400).json({
+      success: false,
+      error: 'realmId is required'
+    });
+  }
+
+  res.json({
+    success: true,
+    data: listWriteBackRuns(realmId)
+  });
+});
+
+export default router;
@@ -0,0 +1,259 @@
+import { getNestedValue, compare, evaluateConditions, combineWithPrecedence } from './conditionEvaluator.js';
+import { isKnownOperator } from './operatorCatalog.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Supported aggregate metrics and whether they need a field to operate on
+const METRICS = {
+  count: { requiresField: false },
+  sum: { requiresField: true },
+  avg: { requiresField: true },
+  min: { requiresField: true },
+  max: { requiresField: true },
+  distinct_count: { requiresField: true }
+};
+
+/**
+ * Parse a QuickBooks date (YYYY-MM-DD or ISO timestamp) to a UTC timestamp
+ * @param {any} value - The raw date value
+ * @returns {number|null} Milliseconds since epoch, or null if unparseable
+ */
+function toTimestamp(value) {
+  if (!value) return null;
+  const time = Date.parse(String(value).length === 10 ? `${value}T00:00:00Z` : value);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Format a timestamp as a YYYY-MM-DD date string
+function toDateString(time) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve the group key value for one group_by entry.
+ * Entries are either a plain field path or { field, bucket } where bucket
+ * is 'day', 'week' (Monday start) or 'month' for date fields.
+ */
+function resolveGroupValue(transaction, groupBy) {
+  const spec = typeof groupBy === 'string' ? { field: groupBy } : groupBy;
+  const rawValue = getNestedValue(transaction, spec.field);
+
+  if (!spec.bucket) {
+    return rawValue === undefined || rawValue === null ? null : String(rawValue);
+  }
+
+  const time = toTimestamp(rawValue);
+  if (time === null) return null;
+
+  switch (spec.bucket) {
+    case 'day':
+      return toDateString(time);
+    case 'week': {
+      const dayOfWeek = (new Date(time).getUTCDay() + 6) % 7;
+      return toDateString(time - dayOfWeek * DAY_MS);
+    }
+    case 'month':
+      return toDateString(time).slice(0, 7);
+    default:
+      return null;
+  }
+}
+
+// Human readable label for a group_by entry
+function groupByLabel(groupBy) {
+  return typeof groupBy === 'string' ? groupBy : `${groupBy.field}:${groupBy.bucket}`;
+}
+
+/**
+ * Compute a metric over a set of transactions
+ * @param {Array} transactions - Member transactions
+ * @param {string} metric - One of the METRICS keys
+ * @param {string} [field] - Field path the metric operates on
+ * @returns {number} The computed metric value
+ */
+function computeMetric(transactions, metric, field) {
+  if (metric === 'count') return transactions.length;
+
+  const values = transactions
+    .map(transaction => getNestedValue(transaction, field))
+    .filter(value => value !== undefined && value !== null);
+
+  if (metric === 'distinct_count') {
+    return new Set(values.map(value => String(value))).size;
+  }
+
+  const numbers = values.map(value => parseFloat(value)).filter(value => !Number.isNaN(value));
+  if (numbers.length === 0) return 0;
+
+  switch (metric) {
+    case 'sum': return numbers.reduce((total, value) => total + value, 0);
+    case 'avg': return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+    case 'min': return Math.min(...numbers);
+    case 'max': return Math.max(...numbers);
+    default: return 0;
+  }
+}
+
+/**
+ * Evaluate the "having" conditions of an aggregate rule against a member set.
+ * Conditions are joined with AND binding tighter than OR; only the true
+ * conditions of a true OR-term count as having matched, as for the
+ * contributing leaves of a transaction rule.
+ * @returns {{matched: boolean, contributing: Array}} Overall result and the conditions that produced it
+ */
+function evaluateHaving(members, having) {
+  let term = -1;
+  const results = having.map((condition, index) => {
+    if (index === 0 || (condition.logical_operator || 'AND') === 'OR') term++;
+    const actualValue = computeMetric(members, condition.metric, condition.field);
+    return {
+      condition,
+      actualValue,
+      term,
+      matched: compare(actualValue, condition.operator, condition.value)
+    };
+  });
+
+  const matched = combineWithPrecedence(
+    results.map(result => ({ logical_operator: result.condition.logical_operator, matched: result.matched })),
+    result => result.matched
+  );
+  const termMatched = results.reduce((terms, result) => {
+    terms[result.term] = (terms[result.term] ?? true) && result.matched;
+    return terms;
+  }, []);
+
+  return { matched, contributing: results.filter(result => result.matched && termMatched[result.term]) };
+}
+
+/**
+ * Split a group into candidate member sets. Without a window the whole
+ * group is one candidate; with a window every transaction anchors a
+ * rolling window of `days` days starting at its date.
+ */
+function buildWindows(members, window) {
+  if (!window || !window.days) {
+    return [{ members, start: null, end: null }];
+  }
+
+  const dateField = window.field || 'TxnDate';
+  const span = window.days * DAY_MS;
+  const dated = members
+    .map(transaction => ({ transaction, time: toTimestamp(getNestedValue(transaction, dateField)) }))
+    .filter(entry => entry.time !== null)
+    .sort((a, b) => a.time - b.time);
+
+  return dated.map((anchor, index) => {
+    const inWindow = [];
+    for (let i = index; i < dated.length && dated[i].time < anchor.time + span; i++) {
+      inWindow.push(dated[i]);
+    }
+    return {
+      members: inWindow.map(entry => entry.transaction),
+      start: toDateString(anchor.time),
+      end: toDateString(inWindow[inWindow.length - 1].time)
+    };
+  });
+}
+
+/**
+ * Validate the aggregate section of a rule
+ * @param {object} aggregate - The rule's aggregate configuration
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateAggregateConfig(aggregate) {
+  if (!aggregate || typeof aggregate !== 'object') {
+    return 'Aggregate rules must have an aggregate configuration';
+  }
+  if (!Array.isArray(aggregate.group_by) || aggregate.group_by.length === 0) {
+    return 'aggregate.group_by must be a non-empty array';
+  }
+  if (!Array.isArray(aggregate.having) || aggregate.having.length === 0) {
+    return 'aggregate.having must be a non-empty array';
+  }
+  for (const condition of aggregate.having) {
+    const metric = METRICS[condition.metric];
+    if (!metric) {
+      return `Unsupported aggregate metric: ${condition.metric}`;
+    }
+    if (metric.requiresField && !condition.field) {
+      return `Aggregate metric ${condition.metric} requires a field`;
+    }
+    if (!isKnownOperator(condition.operator)) {
+      return `Unsupported operator in aggregate.having: ${condition.operator}`;
+    }
+  }
+  if (aggregate.window && !(aggregate.window.days > 0)) {
+    return 'aggregate.window.days must be a positive number';
+  }
+  return null;
+}
+
+/**
+ * Evaluate an aggregate rule across the fetched population.
+ * Records matching the rule's row-level conditions are grouped by
+ * aggregate.group_by, optionally split into rolling windows, and every
+ * group (or window) satisfying aggregate.having is flagged with its members.
+ * @param {Array} transactions - All fetched records for the entity
+ * @param {object} rule - The audit rule (kind: 'aggregate')
+ * @returns {Array} Flagged group entries
+ */
+export function evaluateAggregateRule(transactions, rule) {
+  const { group_by: groupBy, having, window } = rule.aggregate;
+  const candidates = transactions.filter(transaction => evaluateConditions(transaction, rule.conditions));
+
+  // Group candidate records by their composite key
+  const groups = new Map();
+  for (const transaction of candidates) {
+    const values = groupBy.map(entry => resolveGroupValue(transaction, entry));
+    if (values.some(value => value === null)) continue;
+    const key = values.join('|');
+    if (!groups.has(key)) {
+      groups.set(key, { values, members: [] });
+    }
+    groups.get(key).members.push(transaction);
+  }
+
+  const flaggedGroups = [];
+
+  for (const [key, group] of groups) {
+    let lastFlaggedIds = null;
+
+    for (const candidate of buildWindows(group.members, window)) {
+      const memberIds = candidate.members.map(transaction => transaction.Id);
+
+      // Skip windows fully contained in the previously flagged window
+      if (lastFlaggedIds && memberIds.every(id => lastFlaggedIds.has(id))) continue;
+
+      const { matched, contributing } = evaluateHaving(candidate.members, having);
+      if (!matched) continue;
+
+      lastFlaggedIds = new Set(memberIds);
+      const groupValues = Object.fromEntries(
+        groupBy.map((entry, index) => [groupByLabel(entry), group.values[index]])
+      );
+
+      flaggedGroups.push({
+        id: candidate.start ? `${key}@${candidate.start}` : key,
+        group: {
+          key,
+          values: groupValues,
+          window_start: candidate.start,
+          window_end: candidate.end
+        },
+        member_transactions: candidate.members,
+        matched_conditions: contributing.map(({ condition, actualValue }) => ({
+          field: condition.field ? `${condition.metric}(${condition.field})` : condition.metric,
+          operator: condition.operator,
+          value: condition.value,
+          actual_value: actualValue
+        })),
+        action: rule.action,
+        reason: rule.reason,
+        flagged_at: new Date().toISOString()
+      });
+    }
+  }
+
+  return flaggedGroups;
+}
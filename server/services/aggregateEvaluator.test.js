@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateAggregateRule, validateAggregateConfig } from './aggregateEvaluator.js';
+
+const expense = (Id, vendor, TotalAmt, TxnDate = '2024-03-01') => ({ Id, TxnDate, TotalAmt, EntityRef: { value: vendor } });
+
+const rule = aggregate => ({ kind: 'aggregate', conditions: [], aggregate, action: 'flag', reason: 'test' });
+
+test('flags groups whose having conditions hold', () => {
+  const transactions = [expense('1', 'A', 100), expense('2', 'A', 200), expense('3', 'B', 50)];
+  const flagged = evaluateAggregateRule(transactions, rule({
+    group_by: ['EntityRef.value'],
+    having: [{ metric: 'sum', field: 'TotalAmt', operator: 'gt', value: 250 }]
+  }));
+
+  assert.equal(flagged.length, 1);
+  assert.equal(flagged[0].id, 'A');
+  assert.deepEqual(flagged[0].member_transactions.map(transaction => transaction.Id), ['1', '2']);
+});
+
+test('matched_conditions lists only the conditions that produced the match', () => {
+  const transactions = [expense('1', 'A', 100), expense('2', 'A', 200)];
+  const flagged = evaluateAggregateRule(transactions, rule({
+    group_by: ['EntityRef.value'],
+    having: [
+      { metric: 'count', operator: 'gt', value: 5 },
+      { metric: 'sum', field: 'TotalAmt', operator: 'gt', value: 250, logical_operator: 'OR' },
+      { metric: 'max', field: 'TotalAmt', operator: 'gte', value: 200 }
+    ]
+  }));
+
+  assert.equal(flagged.length, 1);
+  assert.deepEqual(flagged[0].matched_conditions.map(condition => condition.field), ['sum(TotalAmt)', 'max(TotalAmt)']);
+});
+
+test('a true condition in a false OR-term does not count as matched', () => {
+  const transactions = [expense('1', 'A', 100), expense('2', 'A', 200)];
+  const flagged = evaluateAggregateRule(transactions, rule({
+    group_by: ['EntityRef.value'],
+    having: [
+      { metric: 'count', operator: 'eq', value: 2 },
+      { metric: 'sum', field: 'TotalAmt', operator: 'gt', value: 1000 },
+      { metric: 'max', field: 'TotalAmt', operator: 'gte', value: 200, logical_operator: 'OR' }
+    ]
+  }));
+
+  assert.deepEqual(flagged[0].matched_conditions.map(condition => condition.field), ['max(TotalAmt)']);
+});
+
+test('rolling windows only group transactions within the window', () => {
+  const transactions = [
+    expense('1', 'A', 100, '2024-03-01'),
+    expense('2', 'A', 100, '2024-03-03'),
+    expense('3', 'A', 100, '2024-03-20')
+  ];
+  const flagged = evaluateAggregateRule(transactions, rule({
+    group_by: ['EntityRef.value'],
+    having: [{ metric: 'count', operator: 'gte', value: 2 }],
+    window: { days: 7 }
+  }));
+
+  assert.equal(flagged.length, 1);
+  assert.equal(flagged[0].group.window_start, '2024-03-01');
+  assert.equal(flagged[0].group.window_end, '2024-03-03');
+});
+
+test('validateAggregateConfig rejects metrics missing a field', () => {
+  assert.equal(
+    validateAggregateConfig({ group_by: ['EntityRef.value'], having: [{ metric: 'sum', operator: 'gt', value: 1 }] }),
+    'Aggregate metric sum requires a field'
+  );
+  assert.equal(validateAggregateConfig({ group_by: ['EntityRef.value'], having: [{ metric: 'count', operator: 'gt', value: 1 }] }), null);
+});
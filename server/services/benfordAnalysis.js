@@ -0,0 +1,166 @@
+import { getNestedValue, evaluateConditions } from './conditionEvaluator.js';
+
+// Chi-square critical values at the 5% significance level
+const CHI_SQUARE_CRITICAL = {
+  first_digit: 15.507, // 8 degrees of freedom
+  first_two_digits: 112.022 // 89 degrees of freedom
+};
+
+// Nigrini's mean absolute deviation conformity ranges, upper bounds
+const MAD_CONFORMITY = {
+  first_digit: [
+    { max: 0.006, level: 'close' },
+    { max: 0.012, level: 'acceptable' },
+    { max: 0.015, level: 'marginal' }
+  ],
+  first_two_digits: [
+    { max: 0.0012, level: 'close' },
+    { max: 0.0018, level: 'acceptable' },
+    { max: 0.0022, level: 'marginal' }
+  ]
+};
+
+// z-statistic above which a digit's excess is significant (95%)
+const SIGNIFICANT_Z = 1.96;
+
+const DEFAULT_MIN_AMOUNT = 10;
+const DEFAULT_TOP_BUCKETS = 5;
+
+/**
+ * Leading significant digits of an amount, e.g. 0.0452 -> "452"
+ * @param {number} amount - A non-zero amount
+ * @returns {string} Significant digits
+ */
+function significantDigits(amount) {
+  return Math.abs(amount).toExponential().split('e')[0].replace('.', '');
+}
+
+function round(value, places = 4) {
+  return Number(value.toFixed(places));
+}
+
+/**
+ * z-statistic of a digit's observed proportion against Benford's expected
+ * proportion, with Nigrini's continuity correction
+ */
+function zStatistic(actual, expected, count) {
+  const difference = Math.abs(actual - expected);
+  const correction = 1 / (2 * count);
+  const numerator = correction < difference ? difference - correction : difference;
+  return numerator / Math.sqrt((expected * (1 - expected)) / count);
+}
+
+function conformityLevel(test, mad) {
+  const range = MAD_CONFORMITY[test].find(entry => mad <= entry.max);
+  return range ? range.level : 'nonconformity';
+}
+
+/**
+ * Run one digit test over the prepared records
+ * @param {string} test - 'first_digit' or 'first_two_digits'
+ * @param {Array} entries - Records with their significant digits
+ * @param {number} topBuckets - How many over-represented buckets to list
+ * @returns {object} Distribution, conformity statistics and top buckets
+ */
+function runDigitTest(test, entries, topBuckets) {
+  const length = test === 'first_digit' ? 1 : 2;
+  const [low, high] = test === 'first_digit' ? [1, 9] : [10, 99];
+  const count = entries.length;
+
+  const members = new Map();
+  for (const entry of entries) {
+    const bucket = parseInt(entry.digits.substring(0, length));
+    if (!members.has(bucket)) members.set(bucket, []);
+    members.get(bucket).push(entry);
+  }
+
+  const distribution = [];
+  let chiSquare = 0;
+  let totalDeviation = 0;
+
+  for (let digit = low; digit <= high; digit++) {
+    const observed = members.get(digit)?.length || 0;
+    const expected = Math.log10(1 + 1 / digit);
+    const actual = count > 0 ? observed / count : 0;
+    const expectedCount = expected * count;
+
+    chiSquare += count > 0 ? (observed - expectedCount) ** 2 / expectedCount : 0;
+    totalDeviation += Math.abs(actual - expected);
+
+    distribution.push({
+      digit,
+      count: observed,
+      expected_count: round(expectedCount, 2),
+      actual_proportion: round(actual),
+      expected_proportion: round(expected),
+      z_statistic: count > 0 ? round(zStatistic(actual, expected, count), 3) : 0
+    });
+  }
+
+  const mad = totalDeviation / distribution.length;
+
+  // Buckets with significantly more records than Benford predicts
+  const overRepresented = distribution
+    .filter(bucket => bucket.actual_proportion > bucket.expected_proportion && bucket.z_statistic > SIGNIFICANT_Z)
+    .sort((a, b) => b.z_statistic - a.z_statistic)
+    .slice(0, topBuckets)
+    .map(bucket => ({
+      ...bucket,
+      transactions: members.get(bucket.digit).map(entry => entry.summary)
+    }));
+
+  return {
+    distribution,
+    chi_square: round(chiSquare, 3),
+    chi_square_critical: CHI_SQUARE_CRITICAL[test],
+    chi_square_exceeds_critical: chiSquare > CHI_SQUARE_CRITICAL[test],
+    mad: round(mad, 5),
+    conformity: conformityLevel(test, mad),
+    over_represented: overRepresented
+  };
+}
+
+/**
+ * Benford's law analysis over a set of records.
+ * Amounts below min_amount are excluded, since small amounts carry too
+ * few significant digits to follow the distribution.
+ * @param {Array} records - QuickBooks records of one entity
+ * @param {object} options
+ * @param {string} [options.field='TotalAmt'] - Amount field path
+ * @param {Array} [options.conditions=[]] - Conditions filtering which records are tested
+ * @param {number} [options.min_amount=10] - Smallest amount included
+ * @param {number} [options.top_buckets=5] - Over-represented buckets to list per test
+ * @returns {object} First-digit and first-two-digit test results
+ */
+export function analyzeBenford(records, options = {}) {
+  const field = options.field || 'TotalAmt';
+  const minAmount = options.min_amount ?? DEFAULT_MIN_AMOUNT;
+  const topBuckets = options.top_buckets ?? DEFAULT_TOP_BUCKETS;
+  const candidates = records.filter(record => evaluateConditions(record, options.conditions || []));
+
+  const entries = [];
+  for (const record of candidates) {
+    const amount = parseFloat(getNestedValue(record, field));
+    if (Number.isNaN(amount) || Math.abs(amount) < minAmount) continue;
+    entries.push({
+      digits: significantDigits(amount),
+      summary: {
+        Id: record.Id,
+        amount,
+        TxnDate: record.TxnDate,
+        DocNumber: record.DocNumber,
+        EntityRef: record.EntityRef
+      }
+    });
+  }
+
+  return {
+    field,
+    min_amount: minAmount,
+    total_records: records.length,
+    analyzed_records: entries.length,
+    excluded_records: records.length - entries.length,
+    first_digit: runDigitTest('first_digit', entries, topBuckets),
+    first_two_digits: runDigitTest('first_two_digits', entries, topBuckets)
+  };
+}
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeBenford } from './benfordAnalysis.js';
+
+const expense = (Id, TotalAmt, extra = {}) => ({ Id, TotalAmt, ...extra });
+
+// Log-uniform amounts over two decades follow Benford's law exactly
+const benfordAmounts = count => Array.from({ length: count }, (_, index) =>
+  expense(String(index + 1), Number((10 ** (1 + (2 * (index + 0.5)) / count)).toFixed(2))));
+
+test('amounts spread over several magnitudes conform', () => {
+  const analysis = analyzeBenford(benfordAmounts(2000));
+  assert.equal(analysis.analyzed_records, 2000);
+  assert.equal(analysis.first_digit.conformity, 'close');
+  assert.equal(analysis.first_digit.chi_square_exceeds_critical, false);
+  assert.equal(analysis.first_two_digits.conformity, 'close');
+  assert.deepEqual(analysis.first_digit.over_represented, []);
+  assert.equal(analysis.first_digit.distribution.length, 9);
+  assert.equal(analysis.first_two_digits.distribution.length, 90);
+});
+
+test('a cluster of amounts just under an approval limit is over-represented', () => {
+  const records = [
+    ...benfordAmounts(500),
+    ...Array.from({ length: 100 }, (_, index) => expense(`X${index}`, 4900 + index))
+  ];
+  const { first_digit: firstDigit, first_two_digits: firstTwo } = analyzeBenford(records);
+  assert.equal(firstDigit.chi_square_exceeds_critical, true);
+  assert.equal(firstDigit.over_represented[0].digit, 4);
+  assert.equal(firstTwo.over_represented[0].digit, 49);
+  assert.equal(firstTwo.over_represented[0].transactions.filter(summary => summary.Id.startsWith('X')).length, 100);
+  assert.deepEqual(firstTwo.over_represented[0].transactions.find(summary => summary.Id === 'X0'), { Id: 'X0', amount: 4900, TxnDate: undefined, DocNumber: undefined, EntityRef: undefined });
+});
+
+test('uses the significant digits of small and negative amounts', () => {
+  const analysis = analyzeBenford([expense('1', 0.0452), expense('2', -275), expense('3', 'n/a')], { min_amount: 0.01 });
+  assert.equal(analysis.analyzed_records, 2);
+  assert.equal(analysis.excluded_records, 1);
+  const counts = Object.fromEntries(analysis.first_two_digits.distribution.filter(bucket => bucket.count).map(bucket => [bucket.digit, bucket.count]));
+  assert.deepEqual(counts, { 27: 1, 45: 1 });
+});
+
+test('excludes amounts below min_amount and records outside the conditions', () => {
+  const records = [expense('1', 5), expense('2', 50), expense('3', 500, { PaymentType: 'Cash' })];
+  assert.equal(analyzeBenford(records).analyzed_records, 2);
+  assert.equal(analyzeBenford(records, { min_amount: 100 }).analyzed_records, 1);
+  const conditions = [{ field: 'PaymentType', operator: 'eq', value: 'Cash' }];
+  assert.equal(analyzeBenford(records, { conditions }).analyzed_records, 1);
+});
+
+test('an empty set has zero statistics rather than NaN', () => {
+  const { first_digit: firstDigit } = analyzeBenford([]);
+  assert.equal(firstDigit.chi_square, 0);
+  assert.ok(firstDigit.distribution.every(bucket => bucket.count === 0 && bucket.z_statistic === 0));
+});
@@ -0,0 +1,137 @@
+import { applyOperator } from './operatorCatalog.js';
+
+/**
+ * Get a nested value from an object using dot notation
+ * @param {object} obj - The object to search in
+ * @param {string} path - The dot notation path (e.g., 'Line.0.Amount')
+ * @returns {any} The value at the path, or undefined if not found
+ */
+export function getNestedValue(obj, path) {
+  return path.split('.').reduce((current, key) => {
+    if (current === null || current === undefined) return undefined;
+    if (key.match(/^\d+$/)) {
+      // Handle array indices
+      return current[parseInt(key)];
+    }
+    return current[key];
+  }, obj);
+}
+
+// Helper: check if a field path starts with "Line."
+export function isLineField(field) {
+  return field.startsWith('Line.');
+}
+
+// Comparison logic, backed by the shared operator catalog
+export function compare(fieldValue, operator, value) {
+  return applyOperator(fieldValue, operator, value);
+}
+
+// Evaluate a single condition, handling Line arrays
+export function evaluateCondition(transaction, condition) {
+  const { field, operator, value } = condition;
+
+  // Special handling for Line array fields
+  if (isLineField(field)) {
+    const lines = transaction.Line;
+    if (!Array.isArray(lines)) return false;
+    // Remove "Line." prefix for nested path
+    const lineFieldPath = field.substring(5);
+    // Check if ANY line item matches
+    return lines.some(line => {
+      const fieldValue = getNestedValue(line, lineFieldPath);
+      return compare(fieldValue, operator, value);
+    });
+  }
+
+  // Normal field
+  const fieldValue = getNestedValue(transaction, field);
+  return compare(fieldValue, operator, value);
+}
+
+// A condition node is a group when it carries its own conditions array
+export function isConditionGroup(node) {
+  return !!node && Array.isArray(node.conditions);
+}
+
+/**
+ * Combine a list of nodes joined by their logical_operator, with AND
+ * binding tighter than OR: "A OR B AND C" means "A OR (B AND C)".
+ * @param {Array} nodes - Nodes carrying an optional logical_operator
+ * @param {Function} evaluate - Evaluates one node to a boolean
+ * @returns {boolean} Combined result
+ */
+export function combineWithPrecedence(nodes, evaluate) {
+  if (!nodes || nodes.length === 0) return true;
+  let anyTermMatched = false;
+  let currentTerm = true;
+  nodes.forEach((node, index) => {
+    if (index > 0 && (node.logical_operator || 'AND') === 'OR') {
+      anyTermMatched = anyTermMatched || currentTerm;
+      currentTerm = true;
+    }
+    currentTerm = evaluate(node) && currentTerm;
+  });
+  return anyTermMatched || currentTerm;
+}
+
+/**
+ * Combine a group's children. With logic AND/OR every child is combined
+ * with that operator; without logic the children's own logical_operator
+ * values apply, as in a flat list.
+ */
+function evaluateGroupChildren(transaction, group) {
+  switch (group.logic) {
+    case 'AND': return group.conditions.every(node => evaluateNode(transaction, node));
+    case 'OR': return group.conditions.some(node => evaluateNode(transaction, node));
+    default: return evaluateConditions(transaction, group.conditions);
+  }
+}
+
+/**
+ * Copy a transaction keeping only one of its line items. Properties are
+ * copied with their descriptors so attached references ($vendor etc.)
+ * carry over.
+ * @param {object} transaction - The transaction record
+ * @param {object} line - The line item to keep
+ * @returns {object} Transaction whose Line array holds just that line
+ */
+export function withSingleLine(transaction, line) {
+  const scoped = Object.create(Object.getPrototypeOf(transaction), Object.getOwnPropertyDescriptors(transaction));
+  scoped.Line = [line];
+  return scoped;
+}
+
+/**
+ * Find the first line item that satisfies a line-scoped group on its own.
+ * Each line is evaluated as if it were the transaction's only line, so
+ * every Line.* condition in the group must hold for that same line.
+ * @param {object} transaction - The transaction record
+ * @param {object} group - A group with scope 'line'
+ * @returns {number} Index of the matching line, or -1
+ */
+export function findMatchingLineIndex(transaction, group) {
+  const lines = transaction.Line;
+  if (!Array.isArray(lines)) return -1;
+  return lines.findIndex(line => evaluateGroupChildren(withSingleLine(transaction, line), group));
+}
+
+function evaluateGroup(transaction, group) {
+  if (group.scope === 'line') {
+    return findMatchingLineIndex(transaction, group) !== -1;
+  }
+  return evaluateGroupChildren(transaction, group);
+}
+
+// Evaluate a leaf condition or a nested group, applying negate
+export function evaluateNode(transaction, node) {
+  const result = isConditionGroup(node)
+    ? evaluateGroup(transaction, node)
+    : evaluateCondition(transaction, node);
+  return node.negate ? !result : result;
+}
+
+// Evaluate a rule's condition list (leaves and nested groups)
+export function evaluateConditions(transaction, conditions) {
+  return combineWithPrecedence(conditions, node => evaluateNode(transaction, node));
+}
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { combineWithPrecedence, evaluateConditions } from './conditionEvaluator.js';
+
+const literal = (matched, logicalOperator) => ({ matched, ...(logicalOperator && { logical_operator: logicalOperator }) });
+const combine = nodes => combineWithPrecedence(nodes, node => node.matched);
+
+test('AND binds tighter than OR', () => {
+  // A OR B AND C = A OR (B AND C)
+  assert.equal(combine([literal(true), literal(false, 'OR'), literal(false, 'AND')]), true);
+  // A AND B OR C = (A AND B) OR C
+  assert.equal(combine([literal(false), literal(true, 'AND'), literal(true, 'OR')]), true);
+  assert.equal(combine([literal(true), literal(false, 'AND'), literal(false, 'OR')]), false);
+  assert.equal(combine([literal(false), literal(true, 'OR'), literal(false, 'AND')]), false);
+});
+
+test('an empty list matches and the first logical_operator is ignored', () => {
+  assert.equal(combine([]), true);
+  assert.equal(combine([literal(true, 'OR')]), true);
+});
+
+const expense = { TotalAmt: 1500, PaymentType: 'Cash', EntityRef: { value: '42' }, Line: [{ Amount: 10 }, { Amount: 1490 }] };
+
+test('nested groups combine with their logic', () => {
+  const conditions = [
+    { field: 'TotalAmt', operator: 'gt', value: 1000 },
+    {
+      logic: 'OR',
+      logical_operator: 'AND',
+      conditions: [
+        { field: 'PaymentType', operator: 'eq', value: 'Check' },
+        { field: 'EntityRef.value', operator: 'eq', value: '42' }
+      ]
+    }
+  ];
+  assert.equal(evaluateConditions(expense, conditions), true);
+  conditions[1].logic = 'AND';
+  assert.equal(evaluateConditions(expense, conditions), false);
+});
+
+test('negate inverts a condition or a group', () => {
+  assert.equal(evaluateConditions(expense, [{ field: 'PaymentType', operator: 'eq', value: 'Cash', negate: true }]), false);
+  assert.equal(evaluateConditions(expense, [{
+    negate: true,
+    conditions: [{ field: 'TotalAmt', operator: 'lt', value: 100 }]
+  }]), true);
+});
+
+test('Line fields match when any line matches', () => {
+  assert.equal(evaluateConditions(expense, [{ field: 'Line.Amount', operator: 'gt', value: 1000 }]), true);
+  assert.equal(evaluateConditions(expense, [{ field: 'Line.Amount', operator: 'gt', value: 5000 }]), false);
+});
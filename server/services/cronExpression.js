@@ -0,0 +1,137 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC so schedules don't shift with the server's time zone
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// How far ahead to look before deciding an expression never fires (e.g. 0 0 31 2 *)
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+function parseNumber(text, field) {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`"${text}" is not a number in the ${field.name} field`);
+  }
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${value} is outside ${field.min}-${field.max} in the ${field.name} field`);
+  }
+  return value;
+}
+
+// Expand one field (e.g. "*/15", "1-5", "0,30") into the set of values it matches
+function parseField(text, field) {
+  const values = new Set();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+    let start;
+    let end;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`Range ${range} runs backwards in the ${field.name} field`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      end = stepText === undefined ? start : field.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @param {string} expression - Five space-separated fields
+ * @returns {object} The matching values of each field
+ * @throws {Error} If the expression is malformed
+ */
+export function parseCronExpression(expression) {
+  if (typeof expression !== 'string') {
+    throw new Error('cron must be a string');
+  }
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('cron must have five fields: minute hour day-of-month month day-of-week');
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in standard cron, a day field starting with * (including a step
+    // such as */2) doesn't restrict on its own: see matchesDay
+    dayOfMonthStar: parts[2].startsWith('*'),
+    dayOfWeekStar: parts[4].startsWith('*')
+  };
+}
+
+/**
+ * Validate a cron expression
+ * @param {string} expression - The expression to check
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateCronExpression(expression) {
+  try {
+    if (nextCronRun(expression) === null) {
+      return `cron "${expression}" never matches a date`;
+    }
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+// A day must match both day fields, unless neither starts with *, when
+// either is enough: "0 9 1,15 * 1" runs on the 1st, the 15th and every
+// Monday, while "0 9 */2 * 1" runs only on Mondays with an odd date
+function matchesDay(cron, date) {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.dayOfMonthStar || cron.dayOfWeekStar) return dayOfMonth && dayOfWeek;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first minute after a date that a cron expression matches
+ * @param {string} expression - A cron expression
+ * @param {Date} [after] - Find the run after this time
+ * @returns {Date|null} The next run, or null if none within five years
+ */
+export function nextCronRun(expression, after = new Date()) {
+  const cron = parseCronExpression(expression);
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  const limit = after.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+
+  // Skip whole days and hours that can't match before stepping by minute
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1) || !matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCronExpression, validateCronExpression, nextCronRun } from './cronExpression.js';
+
+const next = (expression, after) => nextCronRun(expression, new Date(after)).toISOString();
+
+test('expands lists, ranges and steps', () => {
+  const cron = parseCronExpression('0,30 9-11 */10 1-12/3 1-5');
+  assert.deepEqual([...cron.minutes], [0, 30]);
+  assert.deepEqual([...cron.hours], [9, 10, 11]);
+  assert.deepEqual([...cron.daysOfMonth], [1, 11, 21, 31]);
+  assert.deepEqual([...cron.months], [1, 4, 7, 10]);
+  assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.deepEqual([...parseCronExpression('0 0 * * 5/1').daysOfWeek], [5, 6, 0]);
+});
+
+test('finds the next matching minute in UTC', () => {
+  assert.equal(next('*/15 * * * *', '2024-01-01T10:07:30Z'), '2024-01-01T10:15:00.000Z');
+  assert.equal(next('0 10 * * *', '2024-01-01T10:00:00Z'), '2024-01-02T10:00:00.000Z');
+  assert.equal(next('30 6 * * 1-5', '2024-01-05T07:00:00Z'), '2024-01-08T06:30:00.000Z');
+  assert.equal(next('0 0 * * 7', '2024-01-01T00:00:00Z'), '2024-01-07T00:00:00.000Z');
+  assert.equal(next('0 0 29 2 *', '2024-03-01T00:00:00Z'), '2028-02-29T00:00:00.000Z');
+});
+
+test('either day field matches when both are restricted', () => {
+  assert.equal(next('0 9 1,15 * 1', '2024-01-02T00:00:00Z'), '2024-01-08T09:00:00.000Z');
+  assert.equal(next('0 9 1,15 * 1', '2024-01-13T00:00:00Z'), '2024-01-15T09:00:00.000Z');
+  assert.equal(next('0 9 1,15 * *', '2024-01-02T00:00:00Z'), '2024-01-15T09:00:00.000Z');
+});
+
+test('a day field starting with * must match along with the other', () => {
+  // 2024-01-01 is a Monday; the 8th is an even date and the 15th odd
+  assert.equal(next('0 9 */2 * 1', '2023-12-31T00:00:00Z'), '2024-01-01T09:00:00.000Z');
+  assert.equal(next('0 9 */2 * 1', '2024-01-01T09:00:00Z'), '2024-01-15T09:00:00.000Z');
+  // */3 is Sunday, Wednesday and Saturday; 2024-05-01 is the next 1st on one
+  assert.equal(next('0 9 1 * */3', '2024-01-02T00:00:00Z'), '2024-05-01T09:00:00.000Z');
+});
+
+test('rejects malformed and never-matching expressions', () => {
+  assert.equal(validateCronExpression('0 6 * * 1-5'), null);
+  assert.equal(validateCronExpression('0 6 * *'), 'cron must have five fields: minute hour day-of-month month day-of-week');
+  assert.equal(validateCronExpression(42), 'cron must be a string');
+  assert.equal(validateCronExpression('61 * * * *'), '61 is outside 0-59 in the minute field');
+  assert.equal(validateCronExpression('*/0 * * * *'), '0 is outside 1-59 in the minute field');
+  assert.equal(validateCronExpression('0 5-1 * * *'), 'Range 5-1 runs backwards in the hour field');
+  assert.equal(validateCronExpression('0 0 L * *'), '"L" is not a number in the day of month field');
+  assert.equal(validateCronExpression('0 0 31 2 *'), 'cron "0 0 31 2 *" never matches a date');
+});
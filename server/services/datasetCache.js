@@ -0,0 +1,69 @@
+function datasetKey({ realmId, entity, where }) {
+  return where ? `${realmId}:${entity}:${where}` : `${realmId}:${entity}`;
+}
+
+/**
+ * Create a per-run cache of QuickBooks records keyed by realm, entity and
+ * query filter.
+ * Repeated and concurrent loads of the same entity share a single fetch,
+ * so a batch of rules queries each entity once. A failed fetch stays
+ * cached for the run, so later rules fail fast instead of retrying.
+ * @param {Function} fetchPopulation - Fetches { records, total_count, truncated, max_records } for { realmId, accessToken, entity, where }
+ * @returns {{load: Function, population: Function, truncated: Function, stats: object}} Cache and its fetch statistics
+ */
+export function createDatasetCache(fetchPopulation) {
+  const datasets = new Map();
+  const populations = new Map();
+  const stats = {
+    fetches: 0,
+    cache_hits: 0,
+    fetch_time: 0
+  };
+
+  return {
+    stats,
+    /**
+     * Load the records of an entity, fetching them on first use
+     * @param {object} params
+     * @param {string} params.realmId - The QuickBooks company ID
+     * @param {string} params.accessToken - The OAuth access token
+     * @param {string} params.entity - The entity type to fetch
+     * @param {string} [params.where] - Query condition the records must meet
+     * @returns {Promise<Array>} The entity's records
+     */
+    load({ realmId, accessToken, entity, where }) {
+      const key = datasetKey({ realmId, entity, where });
+      if (datasets.has(key)) {
+        stats.cache_hits++;
+        return datasets.get(key);
+      }
+
+      stats.fetches++;
+      const startTime = Date.now();
+      const dataset = fetchPopulation({ realmId, accessToken, entity, where })
+        .then(({ records, ...population }) => {
+          populations.set(key, { entity, fetched_count: records.length, ...population });
+          return records;
+        })
+        .finally(() => {
+          stats.fetch_time += Date.now() - startTime;
+        });
+      datasets.set(key, dataset);
+      return dataset;
+    },
+    /**
+     * Population details of a loaded entity
+     * @returns {object|undefined} { entity, fetched_count, total_count, truncated, max_records }
+     */
+    population({ realmId, entity, where }) {
+      return populations.get(datasetKey({ realmId, entity, where }));
+    },
+    /**
+     * Populations the record cap cut short so far in this run
+     * @returns {Array<object>} Truncated populations
+     */
+    truncated() {
+      return [...populations.values()].filter(population => population.truncated);
+    }
+  };
+}
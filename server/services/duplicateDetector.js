@@ -0,0 +1,360 @@
+import { getNestedValue, evaluateConditions } from './conditionEvaluator.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Defaults used when a key is enabled without explicit settings
+const DEFAULT_KEYS = {
+  vendor: { field: 'EntityRef.value' },
+  amount: { field: 'TotalAmt', tolerance: 0, tolerance_type: 'absolute' },
+  date: { field: 'TxnDate', days: 0 },
+  text: { fields: ['DocNumber', 'PrivateNote'], min_similarity: 0 }
+};
+
+const DEFAULT_MIN_SCORE = 0.75;
+
+/**
+ * Resolve the duplicate configuration of a rule, merging each enabled key
+ * with its defaults. A key set to `true` uses the defaults as-is.
+ * @param {object} duplicate - The rule's duplicate configuration
+ * @returns {object} Normalized configuration
+ */
+function normalizeConfig(duplicate) {
+  const keys = {};
+  for (const [name, defaults] of Object.entries(DEFAULT_KEYS)) {
+    const setting = duplicate.keys?.[name];
+    if (!setting) continue;
+    keys[name] = { weight: 1, ...defaults, ...(setting === true ? {} : setting) };
+  }
+  return {
+    keys,
+    min_score: duplicate.min_score ?? DEFAULT_MIN_SCORE
+  };
+}
+
+// Parse a QuickBooks date to a UTC timestamp
+function toTimestamp(value) {
+  if (!value) return null;
+  const time = Date.parse(String(value).length === 10 ? `${value}T00:00:00Z` : value);
+  return Number.isNaN(time) ? null : time;
+}
+
+// Lowercase and strip punctuation so "INV-001" and "inv 001" compare equal
+function normalizeText(value) {
+  return String(value).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient over character bigrams, in the range 0..1
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {number} Similarity score
+ */
+function textSimilarity(a, b) {
+  const left = normalizeText(a).replace(/ /g, '');
+  const right = normalizeText(b).replace(/ /g, '');
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const bigrams = new Map();
+  for (let i = 0; i < left.length - 1; i++) {
+    const bigram = left.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < right.length - 1; i++) {
+    const bigram = right.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length - 2);
+}
+
+/**
+ * Compare two transactions on every configured key.
+ * Vendor, amount and date are hard constraints: a pair outside them is
+ * never a duplicate. Each key also yields a similarity in 0..1 which is
+ * combined into a weighted score.
+ * @returns {object|null} Pair comparison, or null if a hard constraint fails
+ */
+function comparePair(a, b, keys) {
+  const similarities = {};
+
+  if (keys.vendor) {
+    const left = getNestedValue(a, keys.vendor.field);
+    const right = getNestedValue(b, keys.vendor.field);
+    if (left === undefined || left === null || String(left) !== String(right)) return null;
+    similarities.vendor = { similarity: 1, actual_value: left };
+  }
+
+  if (keys.amount) {
+    const left = parseFloat(getNestedValue(a, keys.amount.field));
+    const right = parseFloat(getNestedValue(b, keys.amount.field));
+    if (Number.isNaN(left) || Number.isNaN(right)) return null;
+    // Round to cents so float noise doesn't push exact-tolerance pairs out
+    const difference = Math.round(Math.abs(left - right) * 100) / 100;
+    const tolerance = keys.amount.tolerance_type === 'percent'
+      ? Math.max(Math.abs(left), Math.abs(right)) * keys.amount.tolerance / 100
+      : keys.amount.tolerance;
+    if (difference > tolerance) return null;
+    similarities.amount = {
+      similarity: difference === 0 ? 1 : 1 - 0.5 * (difference / tolerance),
+      actual_value: Number(difference.toFixed(2))
+    };
+  }
+
+  if (keys.date) {
+    const left = toTimestamp(getNestedValue(a, keys.date.field));
+    const right = toTimestamp(getNestedValue(b, keys.date.field));
+    if (left === null || right === null) return null;
+    const days = Math.round(Math.abs(left - right) / DAY_MS);
+    if (days > keys.date.days) return null;
+    similarities.date = {
+      similarity: days === 0 ? 1 : 1 - 0.5 * (days / keys.date.days),
+      actual_value: days
+    };
+  }
+
+  if (keys.text) {
+    // Use the best-matching text field present on both records
+    let best = null;
+    for (const field of keys.text.fields) {
+      const left = getNestedValue(a, field);
+      const right = getNestedValue(b, field);
+      if (!left || !right) continue;
+      const similarity = textSimilarity(left, right);
+      if (!best || similarity > best.similarity) {
+        best = { similarity, field };
+      }
+    }
+    if (best) {
+      if (best.similarity < keys.text.min_similarity) return null;
+      similarities.text = {
+        similarity: best.similarity,
+        actual_value: Number(best.similarity.toFixed(2)),
+        field: best.field
+      };
+    }
+  }
+
+  let weightedTotal = 0;
+  let totalWeight = 0;
+  for (const [name, result] of Object.entries(similarities)) {
+    weightedTotal += result.similarity * keys[name].weight;
+    totalWeight += keys[name].weight;
+  }
+
+  return {
+    score: totalWeight > 0 ? weightedTotal / totalWeight : 0,
+    similarities
+  };
+}
+
+// Union-find root lookup with path compression
+function findRoot(parents, index) {
+  while (parents[index] !== index) {
+    parents[index] = parents[parents[index]];
+    index = parents[index];
+  }
+  return index;
+}
+
+/**
+ * Build the matched_conditions explanation for a cluster, reporting the
+ * worst observed value per key across the cluster's pairs
+ */
+function explainCluster(pairs, keys) {
+  const explanation = [];
+
+  if (keys.vendor) {
+    explanation.push({
+      field: keys.vendor.field,
+      operator: 'eq',
+      value: 'same across cluster',
+      actual_value: pairs[0].similarities.vendor.actual_value
+    });
+  }
+  if (keys.amount) {
+    explanation.push({
+      field: keys.amount.field,
+      operator: 'within_tolerance',
+      value: keys.amount.tolerance_type === 'percent' ? `${keys.amount.tolerance}%` : keys.amount.tolerance,
+      actual_value: Math.max(...pairs.map(pair => pair.similarities.amount.actual_value))
+    });
+  }
+  if (keys.date) {
+    explanation.push({
+      field: keys.date.field,
+      operator: 'within_days',
+      value: keys.date.days,
+      actual_value: Math.max(...pairs.map(pair => pair.similarities.date.actual_value))
+    });
+  }
+  if (keys.text) {
+    const textPairs = pairs.filter(pair => pair.similarities.text);
+    if (textPairs.length > 0) {
+      const weakest = textPairs.reduce((min, pair) =>
+        pair.similarities.text.similarity < min.similarities.text.similarity ? pair : min
+      );
+      explanation.push({
+        field: weakest.similarities.text.field,
+        operator: 'similar',
+        value: keys.text.min_similarity,
+        actual_value: weakest.similarities.text.actual_value
+      });
+    }
+  }
+
+  return explanation;
+}
+
+/**
+ * The field records are sorted on so each is only compared with those
+ * inside its tolerance window. Date is preferred, being a whole number
+ * of days; a percent amount tolerance is bounded by the largest amount.
+ * @returns {{value: Function, span: number}} Sort value of a record and the window width
+ */
+function sweepKey(keys, records) {
+  if (keys.date) {
+    return {
+      value: transaction => toTimestamp(getNestedValue(transaction, keys.date.field)),
+      // comparePair rounds to whole days
+      span: (keys.date.days + 0.5) * DAY_MS
+    };
+  }
+  const value = transaction => {
+    const amount = parseFloat(getNestedValue(transaction, keys.amount.field));
+    return Number.isNaN(amount) ? null : amount;
+  };
+  // comparePair rounds differences to cents
+  if (keys.amount.tolerance_type !== 'percent') {
+    return { value, span: keys.amount.tolerance + 0.005 };
+  }
+  const largest = records.reduce((max, record) => Math.max(max, Math.abs(value(record) ?? 0)), 0);
+  return { value, span: largest * keys.amount.tolerance / 100 + 0.005 };
+}
+
+/**
+ * Validate the duplicate section of a rule
+ * @param {object} duplicate - The rule's duplicate configuration
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateDuplicateConfig(duplicate) {
+  if (!duplicate || typeof duplicate !== 'object' || !duplicate.keys) {
+    return 'Duplicate rules must have a duplicate.keys configuration';
+  }
+  const enabled = Object.keys(DEFAULT_KEYS).filter(name => duplicate.keys[name]);
+  if (enabled.length === 0) {
+    return `duplicate.keys must enable at least one of: ${Object.keys(DEFAULT_KEYS).join(', ')}`;
+  }
+  const unknown = Object.keys(duplicate.keys).filter(name => !DEFAULT_KEYS[name]);
+  if (unknown.length > 0) {
+    return `Unsupported duplicate keys: ${unknown.join(', ')}`;
+  }
+  // Without a tolerance window every candidate would be compared with every other
+  if (!duplicate.keys.amount && !duplicate.keys.date) {
+    return 'duplicate.keys must enable amount or date so records are only compared within a tolerance';
+  }
+  const { keys, min_score: minScore } = normalizeConfig(duplicate);
+  if (keys.amount && !(keys.amount.tolerance >= 0)) {
+    return 'duplicate.keys.amount.tolerance must be zero or a positive number';
+  }
+  if (keys.amount && !['absolute', 'percent'].includes(keys.amount.tolerance_type)) {
+    return 'duplicate.keys.amount.tolerance_type must be absolute or percent';
+  }
+  if (keys.date && !(keys.date.days >= 0)) {
+    return 'duplicate.keys.date.days must be zero or a positive number';
+  }
+  if (keys.text && (!Array.isArray(keys.text.fields) || keys.text.fields.length === 0)) {
+    return 'duplicate.keys.text.fields must be a non-empty array';
+  }
+  if (!(minScore >= 0 && minScore <= 1)) {
+    return 'duplicate.min_score must be between 0 and 1';
+  }
+  return null;
+}
+
+/**
+ * Detect clusters of likely duplicate records.
+ * Records matching the rule's conditions are compared pairwise (within the
+ * same vendor when the vendor key is enabled, and only within the date or
+ * amount tolerance of each other), pairs scoring at least min_score are
+ * linked, and each connected set of two or more records is returned as a
+ * scored cluster.
+ * @param {Array} transactions - All fetched records for the entity
+ * @param {object} rule - The audit rule (kind: 'duplicate')
+ * @returns {Array} Flagged cluster entries
+ */
+export function detectDuplicates(transactions, rule) {
+  const { keys, min_score: minScore } = normalizeConfig(rule.duplicate);
+  const candidates = transactions.filter(transaction => evaluateConditions(transaction, rule.conditions));
+
+  // Block on vendor and sort each block, so only records that could ever
+  // match are compared. Records missing a hard key can't match anything.
+  const sweep = sweepKey(keys, candidates);
+  const blocks = new Map();
+  candidates.forEach((transaction, index) => {
+    const vendor = keys.vendor ? getNestedValue(transaction, keys.vendor.field) : '*';
+    const position = sweep.value(transaction);
+    if (vendor === undefined || vendor === null || position === null) return;
+    const blockKey = String(vendor);
+    if (!blocks.has(blockKey)) blocks.set(blockKey, []);
+    blocks.get(blockKey).push({ index, position });
+  });
+
+  const parents = candidates.map((_, index) => index);
+  const pairs = [];
+
+  for (const block of blocks.values()) {
+    block.sort((a, b) => a.position - b.position);
+    const indices = block.map(entry => entry.index);
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length && block[j].position - block[i].position <= sweep.span; j++) {
+        const comparison = comparePair(candidates[indices[i]], candidates[indices[j]], keys);
+        if (!comparison || comparison.score < minScore) continue;
+        pairs.push({ left: indices[i], right: indices[j], ...comparison });
+        parents[findRoot(parents, indices[i])] = findRoot(parents, indices[j]);
+      }
+    }
+  }
+
+  // Collect pairs per connected component
+  const clusters = new Map();
+  for (const pair of pairs) {
+    const root = findRoot(parents, pair.left);
+    if (!clusters.has(root)) clusters.set(root, { members: new Set(), pairs: [] });
+    const cluster = clusters.get(root);
+    cluster.members.add(pair.left);
+    cluster.members.add(pair.right);
+    cluster.pairs.push(pair);
+  }
+
+  return Array.from(clusters.values())
+    .map(cluster => {
+      const members = Array.from(cluster.members).map(index => candidates[index]);
+      const score = cluster.pairs.reduce((total, pair) => total + pair.score, 0) / cluster.pairs.length;
+      return {
+        id: `dup:${members.map(transaction => transaction.Id).join(',')}`,
+        cluster: {
+          score: Number(score.toFixed(3)),
+          pairs: cluster.pairs.map(pair => ({
+            ids: [candidates[pair.left].Id, candidates[pair.right].Id],
+            score: Number(pair.score.toFixed(3)),
+            similarities: Object.fromEntries(
+              Object.entries(pair.similarities).map(([name, result]) => [name, Number(result.similarity.toFixed(3))])
+            )
+          }))
+        },
+        member_transactions: members,
+        matched_conditions: explainCluster(cluster.pairs, keys),
+        action: rule.action,
+        reason: rule.reason,
+        flagged_at: new Date().toISOString()
+      };
+    })
+    .sort((a, b) => b.cluster.score - a.cluster.score);
+}
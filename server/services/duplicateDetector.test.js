@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDuplicates, validateDuplicateConfig } from './duplicateDetector.js';
+
+const bill = (Id, vendor, TotalAmt, TxnDate, DocNumber) => ({ Id, TxnDate, TotalAmt, DocNumber, EntityRef: { value: vendor } });
+
+const rule = duplicate => ({ kind: 'duplicate', conditions: [], duplicate, action: 'review', reason: 'duplicate' });
+
+test('clusters same-vendor records within the amount and date tolerance', () => {
+  const transactions = [
+    bill('1', 'A', 500, '2024-03-01'),
+    bill('2', 'A', 500.01, '2024-03-04'),
+    bill('3', 'A', 500, '2024-04-20'),
+    bill('4', 'B', 500, '2024-03-02')
+  ];
+  const flagged = detectDuplicates(transactions, rule({
+    keys: { vendor: true, amount: { tolerance: 0.01 }, date: { days: 7 } }
+  }));
+
+  assert.equal(flagged.length, 1);
+  assert.deepEqual(flagged[0].member_transactions.map(transaction => transaction.Id).sort(), ['1', '2']);
+});
+
+test('links chains of pairs into one cluster', () => {
+  const transactions = [
+    bill('1', 'A', 100, '2024-03-01'),
+    bill('2', 'A', 100, '2024-03-05'),
+    bill('3', 'A', 100, '2024-03-09')
+  ];
+  const flagged = detectDuplicates(transactions, rule({ keys: { vendor: true, amount: true, date: { days: 5 } } }));
+
+  assert.equal(flagged.length, 1);
+  assert.equal(flagged[0].member_transactions.length, 3);
+  assert.equal(flagged[0].cluster.pairs.length, 2);
+});
+
+test('keeps an absolute amount tolerance exact to the cent', () => {
+  const transactions = [bill('1', 'A', 0.1, '2024-03-01'), bill('2', 'A', 0.4, '2024-03-01')];
+  const flagged = detectDuplicates(transactions, rule({ keys: { amount: { tolerance: 0.3 } }, min_score: 0.5 }));
+
+  assert.equal(flagged.length, 1);
+});
+
+test('applies a percent amount tolerance without a date key', () => {
+  const transactions = [
+    bill('1', 'A', 1000, '2024-03-01'),
+    bill('2', 'A', 1040, '2024-06-01'),
+    bill('3', 'A', 1100, '2024-09-01'),
+    bill('4', 'A', 20, '2024-09-01')
+  ];
+  const flagged = detectDuplicates(transactions, rule({ keys: { vendor: true, amount: { tolerance: 5, tolerance_type: 'percent' } } }));
+
+  assert.equal(flagged.length, 1);
+  assert.deepEqual(flagged[0].member_transactions.map(transaction => transaction.Id).sort(), ['1', '2']);
+});
+
+test('compares a large population only within the tolerance window', () => {
+  const transactions = Array.from({ length: 20000 }, (_, index) =>
+    bill(String(index), 'A', 100 + index, new Date(Date.UTC(2020, 0, 1) + index * 86400000).toISOString().slice(0, 10))
+  );
+  const started = Date.now();
+  const flagged = detectDuplicates(transactions, rule({ keys: { amount: { tolerance: 0 }, date: { days: 3 } } }));
+
+  assert.equal(flagged.length, 0);
+  assert.ok(Date.now() - started < 2000);
+});
+
+test('validateDuplicateConfig requires an amount or date key', () => {
+  assert.match(validateDuplicateConfig({ keys: { vendor: true } }), /amount or date/);
+  assert.match(validateDuplicateConfig({ keys: { text: true } }), /amount or date/);
+  assert.equal(validateDuplicateConfig({ keys: { vendor: true, date: { days: 3 } } }), null);
+});
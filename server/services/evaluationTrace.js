@@ -0,0 +1,189 @@
+import {
+  getNestedValue,
+  isLineField,
+  compare,
+  isConditionGroup,
+  findMatchingLineIndex,
+  withSingleLine
+} from './conditionEvaluator.js';
+import { describeCoercion } from './operatorCatalog.js';
+
+/**
+ * Trace a leaf condition. Line.* fields are checked against every line
+ * unless a line-scoped group already pinned the line (lineContext).
+ */
+function traceLeaf(transaction, condition, lineContext) {
+  const { field, operator, value } = condition;
+  let rawResult;
+  let actualValue;
+  let lineIndex;
+  let lineValues;
+
+  if (isLineField(field)) {
+    const lines = Array.isArray(transaction.Line) ? transaction.Line : [];
+    const lineFieldPath = field.substring(5);
+    lineValues = lines.map(line => getNestedValue(line, lineFieldPath));
+    const matchIndex = lineValues.findIndex(lineValue => compare(lineValue, operator, value));
+    rawResult = matchIndex !== -1;
+
+    if (lineContext) {
+      lineIndex = lineContext.lineIndex;
+      actualValue = lineValues[0];
+      lineValues = undefined;
+    } else if (rawResult) {
+      lineIndex = matchIndex;
+      actualValue = lineValues[matchIndex];
+      lineValues = undefined;
+    }
+  } else {
+    actualValue = getNestedValue(transaction, field);
+    rawResult = compare(actualValue, operator, value);
+  }
+
+  const result = condition.negate ? !rawResult : rawResult;
+
+  return {
+    type: 'condition',
+    field,
+    operator,
+    value,
+    ...(condition.logical_operator && { logical_operator: condition.logical_operator }),
+    ...(condition.negate && { negate: true }),
+    raw_result: rawResult,
+    result,
+    actual_value: actualValue,
+    ...(lineValues && { line_values: lineValues }),
+    ...(lineIndex !== undefined && { line_index: lineIndex }),
+    coercion: describeCoercion(actualValue, operator, value)
+  };
+}
+
+/**
+ * Trace a flat list joined by logical_operator with AND binding tighter
+ * than OR. Each child is tagged with the OR-term it belongs to.
+ */
+function tracePrecedenceList(transaction, conditions, lineContext) {
+  const children = [];
+  const terms = [];
+  let term = -1;
+
+  conditions.forEach((node, index) => {
+    if (index === 0 || (node.logical_operator || 'AND') === 'OR') {
+      term++;
+      terms.push([]);
+    }
+    const child = traceNode(transaction, node, lineContext);
+    child.term = term;
+    terms[term].push(child.result);
+    children.push(child);
+  });
+
+  const termResults = terms.map(results => results.every(Boolean));
+  const rawResult = termResults.length === 0 || termResults.some(Boolean);
+  const termTexts = terms.map(results =>
+    results.length > 1 && terms.length > 1 ? `(${results.join(' AND ')})` : results.join(' AND ')
+  );
+
+  return {
+    children,
+    term_results: termResults,
+    raw_result: rawResult,
+    derivation: `${termTexts.join(' OR ') || 'no conditions'} = ${rawResult}`
+  };
+}
+
+// Trace a group's children according to its logic
+function traceChildren(transaction, group, lineContext) {
+  if (group.logic === 'AND' || group.logic === 'OR') {
+    const children = group.conditions.map(node => traceNode(transaction, node, lineContext));
+    const results = children.map(child => child.result);
+    const rawResult = group.logic === 'AND' ? results.every(Boolean) : results.some(Boolean);
+    return {
+      children,
+      raw_result: rawResult,
+      derivation: `${results.join(` ${group.logic} `)} = ${rawResult}`
+    };
+  }
+  return tracePrecedenceList(transaction, group.conditions, lineContext);
+}
+
+function traceGroup(transaction, group, lineContext) {
+  let traced;
+
+  if (group.scope === 'line') {
+    const lineIndex = findMatchingLineIndex(transaction, group);
+    if (lineIndex !== -1) {
+      const scoped = withSingleLine(transaction, transaction.Line[lineIndex]);
+      traced = traceChildren(scoped, group, { lineIndex });
+      traced.line_index = lineIndex;
+      traced.derivation = `line ${lineIndex}: ${traced.derivation}`;
+    } else {
+      // Show each condition's any-line result to explain why no line matched
+      traced = traceChildren(transaction, group, lineContext);
+      traced.raw_result = false;
+      traced.derivation = 'no single line item satisfies every condition = false';
+    }
+  } else {
+    traced = traceChildren(transaction, group, lineContext);
+  }
+
+  const result = group.negate ? !traced.raw_result : traced.raw_result;
+
+  return {
+    type: 'group',
+    ...(group.logic && { logic: group.logic }),
+    ...(group.scope && { scope: group.scope }),
+    ...(group.logical_operator && { logical_operator: group.logical_operator }),
+    ...(group.negate && { negate: true }),
+    ...traced,
+    result,
+    derivation: group.negate ? `NOT (${traced.derivation}) = ${result}` : traced.derivation
+  };
+}
+
+function traceNode(transaction, node, lineContext) {
+  return isConditionGroup(node)
+    ? traceGroup(transaction, node, lineContext)
+    : traceLeaf(transaction, node, lineContext);
+}
+
+/**
+ * Build an evaluation trace for a transaction against a condition list.
+ * The trace mirrors the condition tree: every condition records its
+ * boolean result, the actual value compared and any type coercion, and
+ * every group records how its result was derived from its children.
+ * @param {object} transaction - The transaction record
+ * @param {Array} conditions - The rule's condition nodes
+ * @returns {object} Root trace node
+ */
+export function traceConditions(transaction, conditions) {
+  const traced = tracePrecedenceList(transaction, conditions || [], undefined);
+  return {
+    type: 'group',
+    ...traced,
+    result: traced.raw_result
+  };
+}
+
+/**
+ * Collect the leaf traces that actually produced a node's result.
+ * For a true AND every child counts, for a true OR only the true
+ * children; under NOT the polarity flips, so the false children of a
+ * negated group are the ones that made it match.
+ * @param {object} node - A trace node
+ * @param {boolean} [expected=true] - Result the node must have to count
+ * @returns {Array} Contributing leaf traces
+ */
+export function collectContributingLeaves(node, expected = true) {
+  if (node.result !== expected) return [];
+  if (node.type === 'condition') return [node];
+
+  const childExpected = node.negate ? !expected : expected;
+  return node.children
+    .filter(child => {
+      // In a true precedence list only children of true OR-terms count
+      if (childExpected && node.term_results) return node.term_results[child.term];
+      return true;
+    })
+    .flatMap(child => collectContributingLeaves(child, childExpected));
+}
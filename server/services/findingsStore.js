@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from 'uuid';
+import { implicatedTransactions } from './riskScoring.js';
+
+// Where a case is in its review
+export const FINDING_STATUSES = ['open', 'in_review', 'resolved', 'false_positive'];
+
+// In-memory storage for demo purposes, like the rules store.
+// Cases keyed by realm, entity, transaction and rule
+const findings = new Map();
+
+function findingKey(realmId, entity, transactionId, ruleKey) {
+  return `${realmId}:${entity}:${transactionId}:${ruleKey}`;
+}
+
+// The fields a reviewer needs to recognize a transaction
+function summarizeTransaction(data) {
+  return {
+    doc_number: data?.DocNumber ?? null,
+    txn_date: data?.TxnDate ?? null,
+    amount: data?.TotalAmt ?? null,
+    name: data?.EntityRef?.name ?? data?.VendorRef?.name ?? data?.CustomerRef?.name ?? null
+  };
+}
+
+function addHistory(finding, entry) {
+  finding.history.push({ ...entry, at: new Date().toISOString() });
+  finding.updated_at = finding.history[finding.history.length - 1].at;
+}
+
+/**
+ * Turn the flags of executed rules into cases. A transaction flagged
+ * again by the same rule updates its existing case rather than opening
+ * another. A resolved case flagged again is reopened; one marked a false
+ * positive stays closed, so reviewers aren't asked to dismiss it twice.
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {Array} results - executeRule results
+ * @returns {{created: number, updated: number, reopened: number}} What changed in the store
+ */
+export function recordFindings(realmId, results) {
+  const counts = { created: 0, updated: 0, reopened: 0 };
+  const now = new Date().toISOString();
+
+  for (const result of results) {
+    if (!result?.success || !result.data) continue;
+    const { entity, rule_id: ruleId, rule_type: ruleType } = result.data;
+    const ruleKey = ruleId || ruleType;
+    // Several findings of one rule can implicate the same transaction
+    const seen = new Set();
+
+    for (const entry of result.data.flagged_transactions) {
+      for (const { id, entity: transactionEntity = entity, data } of implicatedTransactions(entry)) {
+        const key = findingKey(realmId, transactionEntity, id, ruleKey);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const existing = findings.get(key);
+        if (!existing) {
+          findings.set(key, {
+            id: uuidv4(),
+            realm_id: realmId,
+            entity: transactionEntity,
+            transaction_id: String(id),
+            rule_id: ruleKey,
+            rule_type: ruleType,
+            reason: entry.reason,
+            transaction: summarizeTransaction(data),
+            status: 'open',
+            assignee: null,
+            flag_count: 1,
+            first_flagged_at: now,
+            last_flagged_at: now,
+            comments: [],
+            history: [{ from: null, to: 'open', by: 'system', note: 'Flagged by rule execution', at: now }],
+            created_at: now,
+            updated_at: now
+          });
+          counts.created++;
+          continue;
+        }
+
+        existing.reason = entry.reason;
+        existing.transaction = summarizeTransaction(data);
+        existing.flag_count++;
+        existing.last_flagged_at = now;
+        existing.updated_at = now;
+        if (existing.status === 'resolved') {
+          addHistory(existing, { from: 'resolved', to: 'open', by: 'system', note: 'Flagged again after being resolved' });
+          existing.status = 'open';
+          counts.reopened++;
+        } else {
+          counts.updated++;
+        }
+      }
+    }
+  }
+
+  return counts;
+}
+
+// History notes for the reasons an incremental run closes a finding
+const CLOSED_NOTES = {
+  deleted: 'Transaction deleted in QuickBooks',
+  voided: 'Transaction voided in QuickBooks',
+  cleared: 'Transaction changed in QuickBooks and no longer flagged'
+};
+
+/**
+ * Resolve the cases an incremental run closed: transactions that no
+ * longer exist, and changed ones the rule no longer flags
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {string} entity - The entity type
+ * @param {Array<{transaction_id: string, rule_id: string, rule_type: string, closed_reason: string}>} closedFindings - Closed findings of an incremental run
+ * @returns {number} Cases resolved
+ */
+export function closeFindings(realmId, entity, closedFindings) {
+  let closed = 0;
+  for (const { transaction_id: transactionId, rule_id: ruleId, rule_type: ruleType, closed_reason: reason } of closedFindings) {
+    const finding = findings.get(findingKey(realmId, entity, transactionId, ruleId || ruleType));
+    if (!finding || finding.status === 'resolved' || finding.status === 'false_positive') continue;
+    addHistory(finding, { from: finding.status, to: 'resolved', by: 'system', note: CLOSED_NOTES[reason] });
+    finding.status = 'resolved';
+    closed++;
+  }
+  return closed;
+}
+
+/**
+ * List the cases of a realm, most recently flagged first
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {object} [filters]
+ * @param {string} [filters.status] - Only cases with this status
+ * @param {string} [filters.entity] - Only cases on this entity
+ * @param {string} [filters.ruleId] - Only cases raised by this rule
+ * @param {string} [filters.assignee] - Only cases assigned to this person
+ * @returns {{findings: Array, counts: object}} Matching cases and the realm's case count per status
+ */
+export function listFindings(realmId, { status, entity, ruleId, assignee } = {}) {
+  const realmFindings = [...findings.values()].filter(finding => finding.realm_id === realmId);
+  const counts = Object.fromEntries(FINDING_STATUSES.map(name => [name, 0]));
+  realmFindings.forEach(finding => counts[finding.status]++);
+
+  return {
+    findings: realmFindings
+      .filter(finding => (!status || finding.status === status)
+        && (!entity || finding.entity === entity)
+        && (!ruleId || finding.rule_id === ruleId)
+        && (!assignee || finding.assignee === assignee))
+      .sort((a, b) => b.last_flagged_at.localeCompare(a.last_flagged_at)),
+    counts
+  };
+}
+
+/**
+ * Get a case by id
+ * @param {string} id - The case id
+ * @returns {object|null} The case, or null if unknown
+ */
+export function getFinding(id) {
+  return [...findings.values()].find(finding => finding.id === id) || null;
+}
+
+/**
+ * Validate a change to a case's status or assignee
+ * @param {object} update - { status?, assignee?, note?, actor? }
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateFindingUpdate({ status, assignee, note, actor }) {
+  if (status === undefined && assignee === undefined) {
+    return 'status or assignee is required';
+  }
+  if (status !== undefined && !FINDING_STATUSES.includes(status)) {
+    return `status must be one of ${FINDING_STATUSES.join(', ')}`;
+  }
+  if (assignee !== undefined && assignee !== null && (typeof assignee !== 'string' || assignee.trim() === '')) {
+    return 'assignee must be a name, or null to unassign';
+  }
+  if (note !== undefined && typeof note !== 'string') {
+    return 'note must be a string';
+  }
+  if (actor !== undefined && (typeof actor !== 'string' || actor.trim() === '')) {
+    return 'actor must be a name';
+  }
+  return null;
+}
+
+/**
+ * Change a case's status or assignee, recording who did it in its history
+ * @param {object} finding - The case
+ * @param {object} update - A change that passed validateFindingUpdate
+ * @param {string} actor - Who made the change
+ * @returns {object} The updated case
+ */
+export function updateFinding(finding, { status, assignee, note }, actor) {
+  const by = actor.trim();
+  const text = note?.trim() || null;
+  const changesStatus = status !== undefined && status !== finding.status;
+  if (assignee !== undefined && (assignee?.trim() || null) !== finding.assignee) {
+    const next = assignee?.trim() || null;
+    const assignment = next ? `Assigned to ${next}` : `Unassigned from ${finding.assignee}`;
+    // The note goes with the status change when there is one, otherwise with the assignment
+    addHistory(finding, {
+      from: finding.status,
+      to: finding.status,
+      by,
+      note: text && !changesStatus ? `${assignment} (${text})` : assignment
+    });
+    finding.assignee = next;
+  }
+  if (changesStatus) {
+    addHistory(finding, { from: finding.status, to: status, by, note: text });
+    finding.status = status;
+  }
+  return finding;
+}
+
+/**
+ * Add a comment to a case
+ * @param {object} finding - The case
+ * @param {string} author - Who wrote it
+ * @param {string} text - The comment
+ * @returns {object} The new comment
+ */
+export function addFindingComment(finding, author, text) {
+  const comment = { id: uuidv4(), author: author.trim(), text: text.trim(), created_at: new Date().toISOString() };
+  finding.comments.push(comment);
+  finding.updated_at = comment.created_at;
+  return comment;
+}
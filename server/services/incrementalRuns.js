@@ -0,0 +1,245 @@
+import { executeMultipleRules, resolveRuleEntities } from './ruleExecutor.js';
+import { createDatasetCache } from './datasetCache.js';
+import { fetchAllRecords, fetchChangedRecords } from './quickbooksQuery.js';
+import { quickbooksErrorResponse } from './quickbooksClient.js';
+
+// Last successful run and its open findings, per realm and entity
+const checkpoints = new Map();
+
+// Rule kinds that judge each record on its own, so a delta is enough to run them
+const ROW_LEVEL_KINDS = [undefined, 'transaction'];
+
+/**
+ * Whether QuickBooks has voided a transaction. Voiding keeps the record
+ * but zeroes its amounts and prefixes the private note with "Voided".
+ * @param {object} record - A QuickBooks transaction
+ * @returns {boolean} True when the transaction is voided
+ */
+export function isVoided(record) {
+  return typeof record.PrivateNote === 'string' && /^voided\b/i.test(record.PrivateNote);
+}
+
+/**
+ * Summarize the checkpoint of a realm and entity
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {string} entity - The entity type
+ * @returns {object|null} Checkpoint summary, or null before the first successful run
+ */
+export function getCheckpoint(realmId, entity) {
+  const checkpoint = checkpoints.get(`${realmId}:${entity}`);
+  if (!checkpoint) {
+    return null;
+  }
+  return {
+    realm_id: realmId,
+    entity,
+    last_run_at: checkpoint.last_run_at,
+    runs: checkpoint.runs,
+    open_findings: [...checkpoint.open.values()].reduce((total, byRule) => total + byRule.size, 0)
+  };
+}
+
+/**
+ * Forget the checkpoint of a realm and entity, so the next run is a full one
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {string} entity - The entity type
+ * @returns {boolean} True if a checkpoint existed
+ */
+export function resetCheckpoint(realmId, entity) {
+  return checkpoints.delete(`${realmId}:${entity}`);
+}
+
+// Open findings on the entity's transactions keyed by transaction id, then rule id
+function collectFindings(results, runAt, entity) {
+  const found = new Map();
+  for (const result of results) {
+    if (!result.success || !result.data) continue;
+    for (const finding of result.data.flagged_transactions) {
+      // Three-way match payments belong to BillPayment, not the audited entity
+      if (finding.entity && finding.entity !== entity) continue;
+      const id = String(finding.id);
+      if (!found.has(id)) found.set(id, new Map());
+      found.get(id).set(result.data.rule_id, {
+        transaction_id: id,
+        rule_id: result.data.rule_id,
+        rule_type: result.data.rule_type,
+        reason: finding.reason,
+        flagged_at: finding.flagged_at,
+        run_at: runAt
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Run the active rules bound to an entity incrementally for a realm.
+ * The first run (or one with full set) audits the whole population and
+ * records a checkpoint. Later runs fetch only the records changed since
+ * the last successful run and evaluate row-level rules on that delta;
+ * rules that compare records against the population are skipped.
+ * Findings on transactions deleted or voided since then are closed, as
+ * are those of changed transactions a rule no longer flags. A full run
+ * keeps the open findings too, closing those its population shows are
+ * gone, voided or no longer flagged, and carrying forward the rest
+ * (e.g. those of rules that didn't run).
+ * The checkpoint advances only when every rule executed successfully.
+ * @param {Array} rules - Active audit rules
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to audit
+ * @param {number} [params.maxRecords] - Cap on records fetched per entity
+ * @param {boolean} [params.full=false] - Ignore the checkpoint and audit everything
+ * @returns {Promise<object>} Batch execution results with an incremental section
+ */
+export async function executeIncrementalRun(rules, { realmId, accessToken, entity, maxRecords, full = false }) {
+  const key = `${realmId}:${entity}`;
+  const previous = checkpoints.get(key);
+  const checkpoint = full ? null : previous;
+  const runStartedAt = new Date().toISOString();
+  const entityRules = rules.filter(rule => resolveRuleEntities(rule, entity).includes(entity));
+
+  try {
+    let datasetCache;
+    let evaluatedRules = entityRules;
+    let skippedRules = [];
+    let delta = null;
+    let voidedIds = [];
+    let changedIds = [];
+
+    // The ids of the entity's population on a full run, and whether the cap cut it short
+    let population = null;
+
+    if (!checkpoint) {
+      // Voided transactions are left out of a full run as they are of a delta
+      datasetCache = createDatasetCache(async params => {
+        const fetched = await fetchAllRecords({ ...params, maxRecords });
+        if (params.entity !== entity || params.where) return fetched;
+        const kept = fetched.records.filter(record => !isVoided(record));
+        voidedIds = fetched.records.filter(isVoided).map(record => String(record.Id));
+        changedIds = kept.map(record => String(record.Id));
+        population = { ids: fetched.records.map(record => String(record.Id)), truncated: fetched.truncated };
+        return { ...fetched, records: kept, total_count: fetched.total_count - voidedIds.length };
+      });
+    } else {
+      console.log(`🔄 Fetching ${entity} changes since ${checkpoint.last_run_at}...`);
+      delta = await fetchChangedRecords({ realmId, accessToken, entity, changedSince: checkpoint.last_run_at, maxRecords });
+      const changed = delta.records.filter(record => !isVoided(record));
+      voidedIds = delta.records.filter(isVoided).map(record => String(record.Id));
+      changedIds = changed.map(record => String(record.Id));
+
+      // The delta stands in for the entity; reference lists are fetched as usual
+      datasetCache = createDatasetCache(params => (params.entity === entity && !params.where
+        ? Promise.resolve({
+          records: changed,
+          total_count: delta.total_count - voidedIds.length,
+          truncated: delta.truncated,
+          max_records: delta.max_records
+        })
+        : fetchAllRecords({ ...params, maxRecords })
+      ));
+
+      evaluatedRules = entityRules.filter(rule => ROW_LEVEL_KINDS.includes(rule.kind));
+      skippedRules = entityRules
+        .filter(rule => !ROW_LEVEL_KINDS.includes(rule.kind))
+        .map(rule => ({
+          rule_id: rule.id,
+          rule_type: rule.rule_type,
+          kind: rule.kind,
+          reason: `${rule.kind} rules compare records against the whole population; run a full audit to re-evaluate them`
+        }));
+    }
+
+    const result = await executeMultipleRules(evaluatedRules, { realmId, accessToken, entity, maxRecords, datasetCache });
+    if (!result.success) {
+      return result;
+    }
+
+    // Carry open findings forward, closing those on deleted or voided transactions
+    const open = previous
+      ? new Map([...previous.open].map(([id, byRule]) => [id, new Map(byRule)]))
+      : new Map();
+    const closedAt = new Date().toISOString();
+    const closedFindings = [];
+    const close = (ids, reason) => {
+      for (const id of ids) {
+        for (const finding of open.get(id)?.values() || []) {
+          closedFindings.push({ ...finding, closed_reason: reason, closed_at: closedAt });
+        }
+        open.delete(id);
+      }
+    };
+    if (delta) {
+      close(delta.deleted_ids, 'deleted');
+    } else if (population && !population.truncated) {
+      // A transaction missing from the whole population is gone
+      const present = new Set(population.ids);
+      close([...open.keys()].filter(id => !present.has(id)), 'deleted');
+    }
+    close(voidedIds, 'voided');
+
+    const found = collectFindings(result.data.individual_results, runStartedAt, entity);
+
+    // A record a rule re-evaluated without flagging it again has its finding closed
+    const evaluated = new Set(changedIds);
+    for (const ruleResult of result.data.individual_results) {
+      if (!ruleResult.success || !ruleResult.data) continue;
+      const ruleId = ruleResult.data.rule_id;
+      for (const [id, byRule] of open) {
+        const finding = byRule.get(ruleId);
+        if (!finding || !evaluated.has(id) || found.get(id)?.has(ruleId)) continue;
+        closedFindings.push({ ...finding, closed_reason: 'cleared', closed_at: closedAt });
+        byRule.delete(ruleId);
+        if (byRule.size === 0) open.delete(id);
+      }
+    }
+
+    let newFindings = 0;
+    for (const [id, byRule] of found) {
+      if (!open.has(id)) open.set(id, new Map());
+      for (const [ruleId, finding] of byRule) {
+        if (!open.get(id).has(ruleId)) newFindings++;
+        open.get(id).set(ruleId, finding);
+      }
+    }
+
+    const succeeded = result.data.summary.failed_executions === 0;
+    if (succeeded) {
+      checkpoints.set(key, {
+        last_run_at: runStartedAt,
+        runs: (previous?.runs || 0) + 1,
+        open
+      });
+    } else {
+      console.warn(`⚠️  ${result.data.summary.failed_executions} rules failed; keeping the ${entity} checkpoint at ${previous?.last_run_at || 'none'}`);
+    }
+
+    console.log(`✅ Incremental run completed: ${newFindings} new findings, ${closedFindings.length} closed`);
+
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        incremental: {
+          mode: checkpoint ? 'delta' : 'full',
+          changed_since: checkpoint?.last_run_at || null,
+          source: delta ? delta.source : null,
+          changed_records: delta ? delta.records.length - voidedIds.length : null,
+          deleted_records: delta ? delta.deleted_ids.length : 0,
+          voided_records: voidedIds.length,
+          new_findings: newFindings,
+          closed_findings: closedFindings,
+          skipped_rules: skippedRules,
+          checkpoint_advanced: succeeded,
+          checkpoint: getCheckpoint(realmId, entity)
+        }
+      }
+    };
+
+  } catch (error) {
+    console.error('❌ Incremental run failed:', error);
+    const { status, body } = quickbooksErrorResponse(error, 'Failed to run incremental audit');
+    return { ...body, status, data: null };
+  }
+}
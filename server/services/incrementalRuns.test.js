@@ -0,0 +1,97 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockQuickBooks } from '../mock/testing.js';
+import { MOCK_ACCESS_TOKEN } from '../mock/quickbooksMock.js';
+import { fetchAllRecords } from './quickbooksQuery.js';
+import { executeIncrementalRun, getCheckpoint } from './incrementalRuns.js';
+
+const accessToken = MOCK_ACCESS_TOKEN;
+
+const rule = (id, value) => ({
+  id,
+  rule_type: id,
+  conditions: [{ field: 'TotalAmt', operator: 'gt', value }],
+  action: 'review',
+  reason: id
+});
+
+const run = async (realmId, rules, full = false) => {
+  const result = await executeIncrementalRun(rules, { realmId, accessToken, entity: 'Expense', full });
+  assert.equal(result.success, true);
+  return result.data.incremental;
+};
+
+const closed = incremental => incremental.closed_findings
+  .map(finding => `${finding.rule_id}:${finding.transaction_id}:${finding.closed_reason}`)
+  .sort();
+
+let quickbooks;
+
+async function editExpense(realmId, id, changes) {
+  const { records } = await fetchAllRecords({ realmId, accessToken, entity: 'Expense', where: `Id = '${id}'` });
+  // Changes are stamped with the current time, so keep them after the last run started
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await fetch(`${quickbooks.url}/__mock/companies/${realmId}/Expense`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...records[0], ...changes })
+  });
+}
+
+async function deleteExpense(realmId, id) {
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await fetch(`${quickbooks.url}/__mock/companies/${realmId}/Expense/${id}`, { method: 'DELETE' });
+}
+
+before(async () => {
+  // Keep the run's progress logging out of the test output
+  mock.method(console, 'log', () => {});
+  quickbooks = await startMockQuickBooks();
+});
+after(() => quickbooks.close());
+
+test('a delta run closes findings of deleted, voided and cleared transactions', async () => {
+  const realmId = '9130350000000001';
+  const rules = [rule('over_800', 800)];
+
+  const first = await run(realmId, rules);
+  assert.equal(first.mode, 'full');
+  assert.equal(first.new_findings, 8);
+
+  const unchanged = await run(realmId, rules);
+  assert.deepEqual([unchanged.mode, unchanged.changed_records, unchanged.new_findings, unchanged.closed_findings.length], ['delta', 0, 0, 0]);
+
+  await editExpense(realmId, '251', { TotalAmt: 5 });
+  await editExpense(realmId, '243', { PrivateNote: 'Voided - entered twice', TotalAmt: 0 });
+  await editExpense(realmId, '215', { PrivateNote: 'Checked' });
+  await editExpense(realmId, '200', { TotalAmt: 5000 });
+  await deleteExpense(realmId, '390');
+
+  const delta = await run(realmId, rules);
+  assert.equal(delta.mode, 'delta');
+  assert.equal(delta.changed_records, 3);
+  assert.equal(delta.new_findings, 1);
+  assert.deepEqual(closed(delta), ['over_800:243:voided', 'over_800:251:cleared', 'over_800:390:deleted']);
+  assert.equal(getCheckpoint(realmId, 'Expense').open_findings, 6);
+});
+
+test('a full run carries open findings forward and closes those it no longer sees', async () => {
+  const realmId = '9130350000000002';
+  const first = await run(realmId, [rule('over_800', 800), rule('over_850', 850)]);
+  assert.equal(first.new_findings, 8);
+
+  await editExpense(realmId, '237', { TotalAmt: 5 });
+  await editExpense(realmId, '215', { TotalAmt: 820 });
+  await editExpense(realmId, '210', { PrivateNote: 'Voided' });
+  await deleteExpense(realmId, '233');
+
+  // over_850 isn't run this time, so its finding on 215 is kept as it is
+  const full = await run(realmId, [rule('over_800', 800)], true);
+  assert.equal(full.mode, 'full');
+  assert.equal(full.new_findings, 0);
+  assert.deepEqual(closed(full), ['over_800:210:voided', 'over_800:233:deleted', 'over_800:237:cleared', 'over_850:233:deleted']);
+  assert.deepEqual(
+    { runs: getCheckpoint(realmId, 'Expense').runs, open: getCheckpoint(realmId, 'Expense').open_findings },
+    { runs: 2, open: 4 }
+  );
+});
@@ -1,5 +1,6 @@
 import fetch from 'node-fetch';
 import { tokenStore } from './tokenStore.js';
+import { getEnvironment, getOAuthConfig } from './quickbooksEnvironment.js';
 
 /**
  * Get access token for a realmId, with automatic refresh if needed
@@ -28,11 +29,8 @@ export async function getAccessToken(realmId) {
     try {
       const clientId = process.env.QUICKBOOKS_CLIENT_ID;
       const clientSecret = process.env.QUICKBOOKS_CLIENT_SECRET;
-      const environment = process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
-      
-      const tokenUrl = environment === 'production' 
-        ? 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer'
-        : 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer';
+      const environment = tokenData.environment || getEnvironment();
+      const { tokenUrl } = getOAuthConfig(environment);
 
       const tokenResponse = await fetch(tokenUrl, {
         method: 'POST',
@@ -0,0 +1,308 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Compiled regex cache so a rule's pattern is only built once per run
+const regexCache = new Map();
+
+function isMissing(value) {
+  return value === undefined || value === null;
+}
+
+function isEmpty(value) {
+  if (isMissing(value)) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return String(value).trim() === '';
+}
+
+/**
+ * Parse the date portion of a QuickBooks date or timestamp as UTC midnight.
+ * Using the literal date avoids shifting "2024-01-01T23:00:00-08:00" to the
+ * next day.
+ * @param {any} value - The raw date value
+ * @returns {number|null} Milliseconds since epoch, or null if not a date
+ */
+export function parseDateValue(value) {
+  const match = String(value).match(/^(\d{4}-\d{2}-\d{2})/);
+  if (!match) return null;
+  const time = Date.parse(`${match[1]}T00:00:00Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Convert a value to something orderable: numbers and numeric strings
+ * become numbers, ISO dates become timestamps.
+ */
+function toComparable(value) {
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  if (/^-?\d+(\.\d+)?$/.test(text)) return parseFloat(text);
+  const date = parseDateValue(text);
+  if (date !== null) return date;
+  return parseFloat(text);
+}
+
+// Start of today in UTC, used by the date-relative operators
+function startOfToday() {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+// Accept weekday names ("Mon", "monday") or numbers (0 = Sunday)
+function toWeekdayIndex(day) {
+  if (typeof day === 'number') return day;
+  const text = String(day).toLowerCase();
+  if (/^\d$/.test(text)) return parseInt(text);
+  return WEEKDAYS.findIndex(name => name.startsWith(text.slice(0, 3)));
+}
+
+function matchesRegex(fieldValue, pattern) {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  const regex = regexCache.get(pattern);
+  return regex ? regex.test(String(fieldValue)) : false;
+}
+
+const lower = value => String(value).toLowerCase();
+
+/**
+ * Operator catalog shared by the executor, rule validation and the Gemini
+ * prompt. Each entry describes the value it expects (value_type), the
+ * field types it makes sense on (field_types), the type coercion its
+ * comparison performs (coercion), and how it evaluates.
+ * Operators with handles_missing also run when the field is absent.
+ */
+export const OPERATORS = {
+  eq: {
+    description: 'equals',
+    value_type: 'any',
+    field_types: ['string', 'number', 'boolean', 'date'],
+    coercion: 'loose',
+    evaluate: (fieldValue, value) => fieldValue == value
+  },
+  ne: {
+    description: 'does not equal',
+    value_type: 'any',
+    field_types: ['string', 'number', 'boolean', 'date'],
+    coercion: 'loose',
+    evaluate: (fieldValue, value) => fieldValue != value
+  },
+  gt: {
+    description: 'greater than',
+    value_type: 'number',
+    field_types: ['number', 'date'],
+    coercion: 'orderable',
+    evaluate: (fieldValue, value) => toComparable(fieldValue) > toComparable(value)
+  },
+  gte: {
+    description: 'greater than or equal to',
+    value_type: 'number',
+    field_types: ['number', 'date'],
+    coercion: 'orderable',
+    evaluate: (fieldValue, value) => toComparable(fieldValue) >= toComparable(value)
+  },
+  lt: {
+    description: 'less than',
+    value_type: 'number',
+    field_types: ['number', 'date'],
+    coercion: 'orderable',
+    evaluate: (fieldValue, value) => toComparable(fieldValue) < toComparable(value)
+  },
+  lte: {
+    description: 'less than or equal to',
+    value_type: 'number',
+    field_types: ['number', 'date'],
+    coercion: 'orderable',
+    evaluate: (fieldValue, value) => toComparable(fieldValue) <= toComparable(value)
+  },
+  between: {
+    description: 'inclusive range, value is [min, max]',
+    value_type: 'range',
+    field_types: ['number', 'date'],
+    coercion: 'orderable',
+    evaluate: (fieldValue, value) => {
+      if (!Array.isArray(value) || value.length !== 2) return false;
+      const actual = toComparable(fieldValue);
+      return actual >= toComparable(value[0]) && actual <= toComparable(value[1]);
+    }
+  },
+  contains: {
+    description: 'text contains (case-insensitive)',
+    value_type: 'string',
+    field_types: ['string'],
+    coercion: 'text',
+    evaluate: (fieldValue, value) => lower(fieldValue).includes(lower(value))
+  },
+  not_contains: {
+    description: 'text does not contain (case-insensitive)',
+    value_type: 'string',
+    field_types: ['string'],
+    coercion: 'text',
+    evaluate: (fieldValue, value) => !lower(fieldValue).includes(lower(value))
+  },
+  starts_with: {
+    description: 'text starts with (case-insensitive)',
+    value_type: 'string',
+    field_types: ['string'],
+    coercion: 'text',
+    evaluate: (fieldValue, value) => lower(fieldValue).startsWith(lower(value))
+  },
+  ends_with: {
+    description: 'text ends with (case-insensitive)',
+    value_type: 'string',
+    field_types: ['string'],
+    coercion: 'text',
+    evaluate: (fieldValue, value) => lower(fieldValue).endsWith(lower(value))
+  },
+  regex: {
+    description: 'matches a regular expression (case-insensitive)',
+    value_type: 'string',
+    field_types: ['string', 'number'],
+    coercion: 'text',
+    evaluate: (fieldValue, value) => matchesRegex(fieldValue, String(value))
+  },
+  in: {
+    description: 'equals one of the values in an array',
+    value_type: 'array',
+    field_types: ['string', 'number', 'boolean'],
+    coercion: null,
+    evaluate: (fieldValue, value) => Array.isArray(value) && value.includes(fieldValue)
+  },
+  not_in: {
+    description: 'equals none of the values in an array',
+    value_type: 'array',
+    field_types: ['string', 'number', 'boolean'],
+    coercion: null,
+    evaluate: (fieldValue, value) => Array.isArray(value) && !value.includes(fieldValue)
+  },
+  exists: {
+    description: 'field is present and not empty, value is ignored (use true)',
+    value_type: 'none',
+    field_types: ['string', 'number', 'boolean', 'date', 'object'],
+    coercion: null,
+    handles_missing: true,
+    evaluate: fieldValue => !isEmpty(fieldValue)
+  },
+  is_empty: {
+    description: 'field is missing or empty, value is ignored (use true)',
+    value_type: 'none',
+    field_types: ['string', 'number', 'boolean', 'date', 'object'],
+    coercion: null,
+    handles_missing: true,
+    evaluate: fieldValue => isEmpty(fieldValue)
+  },
+  within_last_days: {
+    description: 'date falls within the last N days (value is N)',
+    value_type: 'days',
+    field_types: ['date'],
+    coercion: 'date',
+    evaluate: (fieldValue, value) => {
+      const date = parseDateValue(fieldValue);
+      if (date === null) return false;
+      const today = startOfToday();
+      return date <= today && date > today - parseFloat(value) * DAY_MS;
+    }
+  },
+  older_than_days: {
+    description: 'date is more than N days in the past (value is N)',
+    value_type: 'days',
+    field_types: ['date'],
+    coercion: 'date',
+    evaluate: (fieldValue, value) => {
+      const date = parseDateValue(fieldValue);
+      return date !== null && date < startOfToday() - parseFloat(value) * DAY_MS;
+    }
+  },
+  weekday_in: {
+    description: 'date falls on one of the weekdays in an array (e.g. ["Sat", "Sun"])',
+    value_type: 'weekdays',
+    field_types: ['date'],
+    coercion: 'date',
+    evaluate: (fieldValue, value) => {
+      const date = parseDateValue(fieldValue);
+      if (date === null || !Array.isArray(value)) return false;
+      return value.map(toWeekdayIndex).includes(new Date(date).getUTCDay());
+    }
+  }
+};
+
+export function isKnownOperator(operator) {
+  return Object.prototype.hasOwnProperty.call(OPERATORS, operator);
+}
+
+/**
+ * Evaluate an operator against a field value
+ * @param {any} fieldValue - The value found on the record
+ * @param {string} operator - Operator name from OPERATORS
+ * @param {any} value - The rule's comparison value
+ * @returns {boolean} Whether the condition holds
+ */
+export function applyOperator(fieldValue, operator, value) {
+  if (!isKnownOperator(operator)) return false;
+  const definition = OPERATORS[operator];
+  if (isMissing(fieldValue) && !definition.handles_missing) return false;
+  return definition.evaluate(fieldValue, value);
+}
+
+// Describe how toComparable converts one side of an ordering comparison
+function describeOrderableCoercion(target, raw) {
+  if (typeof raw === 'number') return null;
+  const text = String(raw).trim();
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { applied_to: target, from: typeof raw, to: 'number', method: 'parseFloat' };
+  }
+  if (parseDateValue(text) !== null) {
+    return { applied_to: target, from: typeof raw, to: 'date', method: 'date portion parsed as UTC' };
+  }
+  return { applied_to: target, from: typeof raw, to: 'number', method: 'parseFloat' };
+}
+
+/**
+ * Describe the type coercions an operator applies to a comparison
+ * @param {any} fieldValue - The value found on the record
+ * @param {string} operator - Operator name from OPERATORS
+ * @param {any} value - The rule's comparison value
+ * @returns {Array<{applied_to: string, from: string, to: string, method: string}>} Coercions applied
+ */
+export function describeCoercion(fieldValue, operator, value) {
+  if (!isKnownOperator(operator) || isMissing(fieldValue)) return [];
+  const definition = OPERATORS[operator];
+
+  switch (definition.coercion) {
+    case 'orderable': {
+      const bounds = operator === 'between' && Array.isArray(value) ? value : [value];
+      return [
+        describeOrderableCoercion('actual_value', fieldValue),
+        ...bounds.map(bound => describeOrderableCoercion('value', bound))
+      ].filter(Boolean);
+    }
+    case 'loose':
+      return typeof fieldValue !== typeof value
+        ? [{ applied_to: 'actual_value', from: typeof fieldValue, to: typeof value, method: 'loose equality (==)' }]
+        : [];
+    case 'text':
+      return typeof fieldValue !== 'string'
+        ? [{ applied_to: 'actual_value', from: typeof fieldValue, to: 'string', method: 'String()' }]
+        : [];
+    case 'date':
+      return [{ applied_to: 'actual_value', from: typeof fieldValue, to: 'date', method: 'date portion parsed as UTC' }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Render the catalog as prompt text, one operator per line
+ * @returns {string} Operator reference for the Gemini prompt
+ */
+export function describeOperatorsForPrompt() {
+  return Object.entries(OPERATORS)
+    .map(([name, definition]) => `- ${name}: ${definition.description}`)
+    .join('\n');
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyOperator, describeCoercion, isKnownOperator, parseDateValue } from './operatorCatalog.js';
+
+const daysAgo = days => new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+
+test('ordering operators coerce numeric strings and dates', () => {
+  assert.equal(applyOperator('1500.00', 'gt', 1000), true);
+  assert.equal(applyOperator(999, 'gte', '999'), true);
+  assert.equal(applyOperator('2024-03-01', 'lt', '2024-03-02'), true);
+  assert.equal(applyOperator(50, 'between', [10, 50]), true);
+  assert.equal(applyOperator(51, 'between', [10, 50]), false);
+  assert.equal(applyOperator(51, 'between', 10), false);
+});
+
+test('text operators are case-insensitive', () => {
+  assert.equal(applyOperator('Office Depot', 'contains', 'depot'), true);
+  assert.equal(applyOperator('Office Depot', 'not_contains', 'DEPOT'), false);
+  assert.equal(applyOperator('INV-001', 'starts_with', 'inv'), true);
+  assert.equal(applyOperator('INV-001', 'ends_with', '001'), true);
+  assert.equal(applyOperator('INV-001', 'regex', '^inv-\\d+$'), true);
+});
+
+test('an invalid regex never matches', () => {
+  assert.equal(applyOperator('anything', 'regex', '('), false);
+});
+
+test('in and not_in need an array', () => {
+  assert.equal(applyOperator('Cash', 'in', ['Cash', 'Check']), true);
+  assert.equal(applyOperator('Cash', 'not_in', ['Check']), true);
+  assert.equal(applyOperator('Cash', 'in', 'Cash'), false);
+});
+
+test('missing fields only satisfy existence operators', () => {
+  assert.equal(applyOperator(undefined, 'ne', 'x'), false);
+  assert.equal(applyOperator(null, 'not_contains', 'x'), false);
+  assert.equal(applyOperator(undefined, 'is_empty', true), true);
+  assert.equal(applyOperator('  ', 'is_empty', true), true);
+  assert.equal(applyOperator([], 'exists', true), false);
+  assert.equal(applyOperator('memo', 'exists', true), true);
+});
+
+test('date-relative operators count whole days back from today', () => {
+  assert.equal(applyOperator(daysAgo(3), 'within_last_days', 7), true);
+  assert.equal(applyOperator(daysAgo(10), 'within_last_days', 7), false);
+  assert.equal(applyOperator(daysAgo(10), 'older_than_days', 7), true);
+  assert.equal(applyOperator('not a date', 'older_than_days', 7), false);
+});
+
+test('weekday_in accepts names and numbers', () => {
+  // 2024-03-02 was a Saturday
+  assert.equal(applyOperator('2024-03-02', 'weekday_in', ['Sat', 'Sun']), true);
+  assert.equal(applyOperator('2024-03-02', 'weekday_in', [6]), true);
+  assert.equal(applyOperator('2024-03-04', 'weekday_in', ['saturday']), false);
+});
+
+test('parseDateValue keeps the literal date of a timestamp', () => {
+  assert.equal(parseDateValue('2024-01-01T23:00:00-08:00'), Date.UTC(2024, 0, 1));
+  assert.equal(parseDateValue('soon'), null);
+});
+
+test('unknown operators are rejected and never match', () => {
+  assert.equal(isKnownOperator('gt'), true);
+  assert.equal(isKnownOperator('toString'), false);
+  assert.equal(applyOperator(1, 'toString', 1), false);
+});
+
+test('describeCoercion reports the conversions a comparison applied', () => {
+  assert.deepEqual(describeCoercion('1500', 'gt', 1000), [
+    { applied_to: 'actual_value', from: 'string', to: 'number', method: 'parseFloat' }
+  ]);
+  assert.deepEqual(describeCoercion(1500, 'gt', 1000), []);
+  assert.deepEqual(describeCoercion(undefined, 'gt', 1000), []);
+});
@@ -0,0 +1,283 @@
+import { getNestedValue, evaluateConditions } from './conditionEvaluator.js';
+
+// Supported deviation methods and their default thresholds
+const METHODS = {
+  // Standard score against the mean/stddev of the rest of the group
+  zscore: { defaultThreshold: 3 },
+  // Modified z-score against the group's median and median absolute deviation
+  mad: { defaultThreshold: 3.5 },
+  // Percentile of the group the amount must fall beyond (e.g. 95)
+  percentile: { defaultThreshold: 95 }
+};
+
+const DIRECTIONS = ['high', 'low', 'both'];
+
+const DEFAULT_MIN_GROUP_SIZE = 5;
+
+// Scales MAD to be comparable with a standard deviation for normal data
+const MAD_SCALE = 0.6745;
+
+/**
+ * Resolve the outlier configuration of a rule with its defaults
+ * @param {object} outlier - The rule's outlier configuration
+ * @returns {object} Normalized configuration
+ */
+function normalizeConfig(outlier) {
+  const method = outlier.method || 'zscore';
+  return {
+    group_by: outlier.group_by || 'EntityRef.value',
+    field: outlier.field || 'TotalAmt',
+    method,
+    threshold: outlier.threshold ?? METHODS[method]?.defaultThreshold,
+    direction: outlier.direction || 'high',
+    min_group_size: outlier.min_group_size ?? DEFAULT_MIN_GROUP_SIZE
+  };
+}
+
+function round(value) {
+  return Number(value.toFixed(4));
+}
+
+function mean(values) {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Median of an ascending-sorted array
+function median(sorted) {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Percentile of an ascending-sorted array, linearly interpolated
+function percentile(sorted, p) {
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Mean and stddev of a group without each of its values, from running
+ * sums over the sorted values: the values before one plus the values
+ * after it. The sums never include the value left out, so an extreme
+ * amount doesn't swamp the precision of the others' spread. Deviations
+ * are taken from the median to keep the sums small.
+ * @param {number[]} sorted - The group's amounts, ascending
+ * @param {number} center - The group's median
+ * @returns {Map<number, {mean: number, stddev: number}>} Statistics keyed by the value left out
+ */
+function leaveOneOutStats(sorted, center) {
+  const count = sorted.length - 1;
+  // after[index] sums the values following sorted[index]
+  const after = new Array(sorted.length);
+  after[sorted.length - 1] = { sum: 0, squares: 0 };
+  for (let index = sorted.length - 1; index > 0; index--) {
+    const deviation = sorted[index] - center;
+    after[index - 1] = { sum: after[index].sum + deviation, squares: after[index].squares + deviation ** 2 };
+  }
+
+  const stats = new Map();
+  let sum = 0;
+  let squares = 0;
+  sorted.forEach((value, index) => {
+    if (!stats.has(value)) {
+      const othersSum = sum + after[index].sum;
+      const othersSquares = squares + after[index].squares;
+      stats.set(value, {
+        mean: center + othersSum / count,
+        stddev: Math.sqrt(Math.max(0, othersSquares - othersSum ** 2 / count) / count)
+      });
+    }
+    sum += value - center;
+    squares += (value - center) ** 2;
+  });
+  return stats;
+}
+
+/**
+ * Compute the baseline statistics of a group's values
+ * @param {number[]} values - The group's amounts
+ * @param {object} config - Normalized outlier configuration
+ * @returns {object} Baseline statistics, the sorted values and, for the
+ *   z-score, the leave-one-out statistics of each value
+ */
+function computeBaseline(values, config) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const average = mean(values);
+  const groupMedian = median(sorted);
+  const deviations = values.map(value => Math.abs(value - groupMedian)).sort((a, b) => a - b);
+
+  const baseline = {
+    count: values.length,
+    mean: round(average),
+    stddev: round(Math.sqrt(mean(values.map(value => (value - average) ** 2)))),
+    median: round(groupMedian),
+    mad: round(median(deviations)),
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+
+  if (config.method === 'percentile') {
+    baseline.upper_bound = round(percentile(sorted, config.threshold));
+    baseline.lower_bound = round(percentile(sorted, 100 - config.threshold));
+  }
+
+  const leaveOneOut = config.method === 'zscore' ? leaveOneOutStats(sorted, groupMedian) : null;
+  return { baseline, sorted, leaveOneOut };
+}
+
+// The baseline of a group without one of its values
+function baselineWithout(value, values, config) {
+  const others = [...values];
+  others.splice(others.indexOf(value), 1);
+  return computeBaseline(others, config).baseline;
+}
+
+/**
+ * Score how far a value deviates from its group. Positive scores are above
+ * the baseline, negative scores below.
+ * The z-score leaves the value itself out of the mean and stddev, otherwise
+ * a single extreme amount in a small group inflates its own baseline and
+ * can never pass the threshold.
+ * @param {number} value - The amount to score
+ * @param {number[]} values - The group's amounts, including value
+ * @param {object} group - The group's statistics, from computeBaseline
+ * @param {object} config - Normalized outlier configuration
+ * @returns {number|null} Deviation score, or null if the group has no spread
+ */
+function deviationScore(value, values, group, config) {
+  const { baseline, sorted, leaveOneOut } = group;
+  switch (config.method) {
+    case 'zscore': {
+      const others = leaveOneOut.get(value);
+      return others.stddev === 0 ? null : (value - others.mean) / others.stddev;
+    }
+    case 'mad': {
+      if (baseline.mad !== 0) return (MAD_SCALE * (value - baseline.median)) / baseline.mad;
+      // Fall back to the mean absolute deviation when most values are identical
+      const meanDeviation = mean(values.map(other => Math.abs(other - baseline.median)));
+      return meanDeviation === 0 ? null : (value - baseline.median) / (1.2533 * meanDeviation);
+    }
+    case 'percentile': {
+      // Percentile rank of the value within its group, in the range 0..100
+      const below = sorted.filter(other => other < value).length;
+      const equal = sorted.filter(other => other === value).length;
+      return (100 * (below + 0.5 * equal)) / sorted.length;
+    }
+    default:
+      return null;
+  }
+}
+
+// Whether a deviation score passes the configured threshold and direction
+function isOutlier(value, score, baseline, config) {
+  if (config.method === 'percentile') {
+    const high = value > baseline.upper_bound;
+    const low = value < baseline.lower_bound;
+    return config.direction === 'high' ? high : config.direction === 'low' ? low : high || low;
+  }
+  switch (config.direction) {
+    case 'high': return score > config.threshold;
+    case 'low': return score < -config.threshold;
+    default: return Math.abs(score) > config.threshold;
+  }
+}
+
+/**
+ * Validate the outlier section of a rule
+ * @param {object} outlier - The rule's outlier configuration
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateOutlierConfig(outlier) {
+  if (!outlier || typeof outlier !== 'object') {
+    return 'Outlier rules must have an outlier configuration';
+  }
+  const config = normalizeConfig(outlier);
+  if (!METHODS[config.method]) {
+    return `outlier.method must be one of: ${Object.keys(METHODS).join(', ')}`;
+  }
+  if (typeof config.group_by !== 'string' || typeof config.field !== 'string') {
+    return 'outlier.group_by and outlier.field must be field paths';
+  }
+  if (!(typeof config.threshold === 'number' && config.threshold > 0)) {
+    return 'outlier.threshold must be a positive number';
+  }
+  if (config.method === 'percentile' && !(config.threshold > 50 && config.threshold < 100)) {
+    return 'outlier.threshold must be between 50 and 100 for the percentile method';
+  }
+  if (!DIRECTIONS.includes(config.direction)) {
+    return `outlier.direction must be one of: ${DIRECTIONS.join(', ')}`;
+  }
+  if (!(Number.isInteger(config.min_group_size) && config.min_group_size >= 3)) {
+    return 'outlier.min_group_size must be an integer of at least 3';
+  }
+  return null;
+}
+
+/**
+ * Flag records whose amount deviates from their own group's history.
+ * Records matching the rule's conditions are grouped by outlier.group_by
+ * (e.g. vendor), a baseline is computed per group, and every record
+ * beyond the configured threshold is flagged with that baseline.
+ * Groups smaller than min_group_size are skipped as too small to judge.
+ * @param {Array} transactions - All fetched records for the entity
+ * @param {object} rule - The audit rule (kind: 'outlier')
+ * @returns {Array} Flagged transaction entries
+ */
+export function detectOutliers(transactions, rule) {
+  const config = normalizeConfig(rule.outlier);
+  const candidates = transactions.filter(transaction => evaluateConditions(transaction, rule.conditions));
+
+  // Group candidate records that have a numeric amount
+  const groups = new Map();
+  for (const transaction of candidates) {
+    const key = getNestedValue(transaction, config.group_by);
+    const amount = parseFloat(getNestedValue(transaction, config.field));
+    if (key === undefined || key === null || Number.isNaN(amount)) continue;
+    if (!groups.has(String(key))) groups.set(String(key), []);
+    groups.get(String(key)).push({ transaction, amount });
+  }
+
+  const flaggedTransactions = [];
+
+  for (const [key, members] of groups) {
+    if (members.length < config.min_group_size) continue;
+
+    const values = members.map(member => member.amount);
+    const group = computeBaseline(values, config);
+
+    for (const { transaction, amount } of members) {
+      const score = deviationScore(amount, values, group, config);
+      if (score === null || !isOutlier(amount, score, group.baseline, config)) continue;
+
+      flaggedTransactions.push({
+        id: transaction.Id,
+        transaction_data: transaction,
+        // The z-score is measured against the other records, so that is the baseline shown
+        baseline: {
+          group_field: config.group_by,
+          group_key: key,
+          field: config.field,
+          ...(config.method === 'zscore' ? baselineWithout(amount, values, config) : group.baseline)
+        },
+        deviation: {
+          method: config.method,
+          score: round(score),
+          threshold: config.threshold,
+          direction: config.direction
+        },
+        matched_conditions: [{
+          field: config.field,
+          operator: config.method,
+          value: config.threshold,
+          actual_value: round(score)
+        }],
+        action: rule.action,
+        reason: rule.reason,
+        flagged_at: new Date().toISOString()
+      });
+    }
+  }
+
+  return flaggedTransactions;
+}
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectOutliers, validateOutlierConfig } from './outlierDetector.js';
+
+const bills = (vendor, amounts, firstId = 1) =>
+  amounts.map((TotalAmt, index) => ({ Id: String(firstId + index), TotalAmt, EntityRef: { value: vendor } }));
+
+const rule = (outlier, conditions = []) => ({ kind: 'outlier', conditions, outlier, action: 'review', reason: 'unusual amount' });
+
+const flaggedIds = (transactions, outlier, conditions) => detectOutliers(transactions, rule(outlier, conditions)).map(entry => entry.id);
+
+test('z-score leaves the amount out of its own baseline', () => {
+  const [flagged, ...rest] = detectOutliers(bills('A', [100, 102, 98, 101, 99, 1000]), rule({ method: 'zscore' }));
+  assert.equal(rest.length, 0);
+  assert.equal(flagged.id, '6');
+  // Against the other five bills (mean 100, stddev √2) rather than all six, as the baseline shows
+  assert.equal(flagged.deviation.score, Number((900 / Math.SQRT2).toFixed(4)));
+  assert.deepEqual(
+    { count: flagged.baseline.count, mean: flagged.baseline.mean, stddev: flagged.baseline.stddev, max: flagged.baseline.max, group_key: flagged.baseline.group_key },
+    { count: 5, mean: 100, stddev: Number(Math.SQRT2.toFixed(4)), max: 102, group_key: 'A' }
+  );
+});
+
+test('z-score sees no spread only when the other amounts are equal', () => {
+  assert.deepEqual(flaggedIds(bills('A', [0.1, 0.1, 0.1, 0.1, 0.1, 0.7]), { method: 'zscore' }), []);
+  assert.deepEqual(flaggedIds(bills('A', [1e6 + 0.01, 1e6 + 0.01, 1e6 + 0.01, 1e6 + 0.01, 1e6 + 0.01, 2e6]), { method: 'zscore' }), []);
+  // A small spread among the others still counts next to an extreme amount
+  assert.deepEqual(flaggedIds(bills('A', [100, 100.01, 100.02, 100, 100.01, 1e9]), { method: 'zscore' }), ['6']);
+});
+
+test('baselines are per group', () => {
+  const transactions = [...bills('A', [100, 102, 98, 101, 99]), ...bills('B', [1000, 1020, 980, 1010, 990], 6)];
+  assert.deepEqual(flaggedIds(transactions, { method: 'zscore' }), []);
+});
+
+test('mad scores against the median absolute deviation', () => {
+  const [flagged] = detectOutliers(bills('A', [100, 102, 98, 101, 99, 1000]), rule({ method: 'mad' }));
+  assert.equal(flagged.id, '6');
+  assert.equal(flagged.deviation.score, Number((0.6745 * 899.5 / 1.5).toFixed(4)));
+});
+
+test('mad falls back to the mean absolute deviation when most amounts are equal', () => {
+  const [flagged, ...rest] = detectOutliers(bills('A', [50, 50, 50, 50, 50, 80]), rule({ method: 'mad' }));
+  assert.equal(rest.length, 0);
+  assert.equal(flagged.id, '6');
+  assert.equal(flagged.deviation.score, Number((30 / (1.2533 * 5)).toFixed(4)));
+});
+
+test('groups with no spread flag nothing', () => {
+  assert.deepEqual(flaggedIds(bills('A', [75, 75, 75, 75, 75, 75]), { method: 'zscore' }), []);
+  assert.deepEqual(flaggedIds(bills('A', [75, 75, 75, 75, 75, 75]), { method: 'mad' }), []);
+});
+
+test('percentile flags amounts beyond the interpolated bounds', () => {
+  const transactions = bills('A', Array.from({ length: 20 }, (_, index) => (index + 1) * 10));
+  const [high] = detectOutliers(transactions, rule({ method: 'percentile', threshold: 95 }));
+  assert.equal(high.id, '20');
+  assert.equal(high.baseline.upper_bound, 190.5);
+  assert.equal(high.baseline.lower_bound, 19.5);
+  assert.deepEqual(flaggedIds(transactions, { method: 'percentile', threshold: 95, direction: 'both' }), ['1', '20']);
+  assert.deepEqual(flaggedIds(transactions, { method: 'percentile', threshold: 95, direction: 'low' }), ['1']);
+});
+
+test('direction selects which side of the baseline is flagged', () => {
+  const transactions = bills('A', [100, 102, 98, 101, 99, 5, 1000]);
+  assert.deepEqual(flaggedIds(transactions, { method: 'mad', direction: 'high' }), ['7']);
+  assert.deepEqual(flaggedIds(transactions, { method: 'mad', direction: 'low' }), ['6']);
+  assert.deepEqual(flaggedIds(transactions, { method: 'mad', direction: 'both' }), ['6', '7']);
+});
+
+test('groups below min_group_size and records outside the conditions are skipped', () => {
+  assert.deepEqual(flaggedIds(bills('A', [100, 101, 99, 1000]), { method: 'mad' }), []);
+  assert.deepEqual(flaggedIds(bills('A', [100, 101, 99, 1000]), { method: 'mad', min_group_size: 4 }), ['4']);
+  const conditions = [{ field: 'TotalAmt', operator: 'lt', value: 500 }];
+  assert.deepEqual(flaggedIds(bills('A', [100, 102, 98, 101, 99, 1000]), { method: 'mad' }, conditions), []);
+});
+
+test('validates the outlier configuration', () => {
+  assert.equal(validateOutlierConfig({}), null);
+  assert.equal(validateOutlierConfig(null), 'Outlier rules must have an outlier configuration');
+  assert.match(validateOutlierConfig({ method: 'iqr' }), /outlier.method must be one of/);
+  assert.equal(validateOutlierConfig({ threshold: 0 }), 'outlier.threshold must be a positive number');
+  assert.equal(validateOutlierConfig({ method: 'percentile', threshold: 40 }), 'outlier.threshold must be between 50 and 100 for the percentile method');
+  assert.match(validateOutlierConfig({ direction: 'up' }), /outlier.direction must be one of/);
+  assert.equal(validateOutlierConfig({ min_group_size: 2 }), 'outlier.min_group_size must be an integer of at least 3');
+});
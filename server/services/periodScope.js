@@ -0,0 +1,148 @@
+import { escapeQueryValue } from './quickbooksClient.js';
+
+// Named periods, as [length in months, anchor, offset in periods]
+const NAMED_PERIODS = {
+  this_month: [1, 'calendar', 0],
+  last_month: [1, 'calendar', -1],
+  this_quarter: [3, 'calendar', 0],
+  last_quarter: [3, 'calendar', -1],
+  this_year: [12, 'calendar', 0],
+  last_year: [12, 'calendar', -1],
+  this_fiscal_quarter: [3, 'fiscal', 0],
+  last_fiscal_quarter: [3, 'fiscal', -1],
+  this_fiscal_year: [12, 'fiscal', 0],
+  last_fiscal_year: [12, 'fiscal', -1]
+};
+
+export const PERIOD_NAMES = Object.keys(NAMED_PERIODS);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function formatDate(date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function isValidDate(value) {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  // Date rolls days past the end of a month into the next, so 2024-02-31 comes back changed
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(2000, 0, 1);
+  date.setFullYear(year, month - 1, day);
+  return formatDate(date) === value;
+}
+
+/**
+ * Validate a run's period
+ * @param {object} [period] - { name, fiscal_year_start_month } or { from, to }
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validatePeriod(period) {
+  if (period === undefined || period === null) {
+    return null;
+  }
+  if (typeof period !== 'object') {
+    return 'period must be an object';
+  }
+
+  if (period.name !== undefined) {
+    if (!NAMED_PERIODS[period.name]) {
+      return `Unsupported period: ${period.name}. Use one of ${PERIOD_NAMES.join(', ')}`;
+    }
+    const startMonth = period.fiscal_year_start_month;
+    if (startMonth !== undefined && !(Number.isInteger(startMonth) && startMonth >= 1 && startMonth <= 12)) {
+      return 'period.fiscal_year_start_month must be a month number from 1 to 12';
+    }
+    return null;
+  }
+
+  if (period.from === undefined && period.to === undefined) {
+    return 'period needs a name or a from/to date';
+  }
+  for (const bound of ['from', 'to']) {
+    if (period[bound] !== undefined && !isValidDate(period[bound])) {
+      return `period.${bound} must be a YYYY-MM-DD date`;
+    }
+  }
+  if (period.from && period.to && period.from > period.to) {
+    return 'period.from must not be after period.to';
+  }
+  return null;
+}
+
+/**
+ * Resolve a period to the TxnDate range it covers. Named periods are
+ * resolved against the current date; fiscal periods start at
+ * fiscal_year_start_month (January by default).
+ * @param {object} period - A valid period
+ * @param {Date} [now] - The date named periods are relative to
+ * @returns {{name?: string, from?: string, to?: string, label: string}} Resolved range
+ */
+export function resolvePeriod(period, now = new Date()) {
+  if (period.name === undefined) {
+    const label = period.from && period.to
+      ? `${period.from} to ${period.to}`
+      : period.from ? `from ${period.from}` : `through ${period.to}`;
+    return { from: period.from, to: period.to, label };
+  }
+
+  const [length, anchor, offset] = NAMED_PERIODS[period.name];
+  const anchorMonth = anchor === 'fiscal' ? (period.fiscal_year_start_month || 1) - 1 : 0;
+  const monthsIntoPeriod = ((now.getMonth() - anchorMonth) % length + length) % length;
+  const start = new Date(now.getFullYear(), now.getMonth() - monthsIntoPeriod + offset * length, 1);
+  const end = new Date(start.getFullYear(), start.getMonth() + length, 0);
+  const from = formatDate(start);
+  const to = formatDate(end);
+
+  return {
+    name: period.name,
+    ...(anchor === 'fiscal' && { fiscal_year_start_month: anchorMonth + 1 }),
+    from,
+    to,
+    label: `${period.name.replace(/_/g, ' ')} (${from} to ${to})`
+  };
+}
+
+/**
+ * Build the QuickBooks query WHERE condition for a resolved period
+ * @param {object|null} range - Result of resolvePeriod
+ * @returns {string|null} Condition such as "TxnDate >= '2024-07-01' AND TxnDate <= '2024-09-30'"
+ */
+export function buildPeriodFilter(range) {
+  if (!range) {
+    return null;
+  }
+  const clauses = [];
+  if (range.from) clauses.push(`TxnDate >= '${escapeQueryValue(range.from)}'`);
+  if (range.to) clauses.push(`TxnDate <= '${escapeQueryValue(range.to)}'`);
+  return clauses.join(' AND ') || null;
+}
+
+/**
+ * Whether a record's TxnDate falls within a resolved period, for records
+ * fetched without the period filter
+ * @param {object} record - A QuickBooks transaction
+ * @param {object|null} range - Result of resolvePeriod, or null for all dates
+ * @returns {boolean} True when the record is in the period
+ */
+export function isWithinPeriod(record, range) {
+  if (!range) {
+    return true;
+  }
+  const date = typeof record.TxnDate === 'string' ? record.TxnDate.slice(0, 10) : null;
+  return !!date && (!range.from || date >= range.from) && (!range.to || date <= range.to);
+}
+
+/**
+ * Describe the period a run audited, for results and exports
+ * @param {object|null} scope - Period from resolvePeriod, or null for all dates
+ * @returns {object} The period with the query filter it was applied as
+ */
+export function describeScope(scope) {
+  return scope
+    ? { ...scope, filter: buildPeriodFilter(scope) }
+    : { label: 'All dates', filter: null };
+}
@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validatePeriod, resolvePeriod, buildPeriodFilter, isWithinPeriod, describeScope } from './periodScope.js';
+
+// Named periods resolve against local dates
+const now = new Date(2024, 7, 15);
+
+test('resolves calendar periods relative to now', () => {
+  assert.deepEqual(
+    [resolvePeriod({ name: 'this_month' }, now), resolvePeriod({ name: 'last_month' }, now)].map(({ from, to }) => [from, to]),
+    [['2024-08-01', '2024-08-31'], ['2024-07-01', '2024-07-31']]
+  );
+  assert.deepEqual(resolvePeriod({ name: 'last_quarter' }, now), {
+    name: 'last_quarter',
+    from: '2024-04-01',
+    to: '2024-06-30',
+    label: 'last quarter (2024-04-01 to 2024-06-30)'
+  });
+  const { from, to } = resolvePeriod({ name: 'last_month' }, new Date(2024, 0, 10));
+  assert.deepEqual([from, to], ['2023-12-01', '2023-12-31']);
+  const leap = resolvePeriod({ name: 'this_month' }, new Date(2024, 1, 3));
+  assert.equal(leap.to, '2024-02-29');
+});
+
+test('resolves fiscal periods from the fiscal year start month', () => {
+  const fiscalYear = resolvePeriod({ name: 'this_fiscal_year', fiscal_year_start_month: 10 }, now);
+  assert.deepEqual([fiscalYear.from, fiscalYear.to, fiscalYear.fiscal_year_start_month], ['2023-10-01', '2024-09-30', 10]);
+  const lastQuarter = resolvePeriod({ name: 'last_fiscal_quarter', fiscal_year_start_month: 2 }, now);
+  assert.deepEqual([lastQuarter.from, lastQuarter.to], ['2024-05-01', '2024-07-31']);
+  const defaultStart = resolvePeriod({ name: 'last_fiscal_year' }, now);
+  assert.deepEqual([defaultStart.from, defaultStart.to], ['2023-01-01', '2023-12-31']);
+});
+
+test('passes explicit ranges through with a label', () => {
+  assert.deepEqual(resolvePeriod({ from: '2024-01-01', to: '2024-03-31' }), { from: '2024-01-01', to: '2024-03-31', label: '2024-01-01 to 2024-03-31' });
+  assert.equal(resolvePeriod({ from: '2024-01-01' }).label, 'from 2024-01-01');
+  assert.equal(resolvePeriod({ to: '2024-03-31' }).label, 'through 2024-03-31');
+});
+
+test('builds the TxnDate query filter', () => {
+  assert.equal(buildPeriodFilter(null), null);
+  assert.equal(buildPeriodFilter({ from: '2024-01-01', to: '2024-03-31' }), "TxnDate >= '2024-01-01' AND TxnDate <= '2024-03-31'");
+  assert.equal(buildPeriodFilter({ to: '2024-03-31' }), "TxnDate <= '2024-03-31'");
+  assert.deepEqual(describeScope(null), { label: 'All dates', filter: null });
+});
+
+test('checks fetched records against a period', () => {
+  const range = { from: '2024-01-01', to: '2024-03-31' };
+  assert.equal(isWithinPeriod({ TxnDate: '2024-01-01' }, range), true);
+  assert.equal(isWithinPeriod({ TxnDate: '2024-03-31' }, range), true);
+  assert.equal(isWithinPeriod({ TxnDate: '2024-04-01' }, range), false);
+  assert.equal(isWithinPeriod({}, range), false);
+  assert.equal(isWithinPeriod({}, null), true);
+  assert.equal(isWithinPeriod({ TxnDate: '2023-12-31' }, { to: '2024-03-31' }), true);
+});
+
+test('validates periods', () => {
+  assert.equal(validatePeriod(undefined), null);
+  assert.equal(validatePeriod({ name: 'last_quarter' }), null);
+  assert.equal(validatePeriod({ from: '2024-01-01' }), null);
+  assert.equal(validatePeriod('last_month'), 'period must be an object');
+  assert.match(validatePeriod({ name: 'next_month' }), /^Unsupported period: next_month/);
+  assert.equal(validatePeriod({ name: 'this_fiscal_year', fiscal_year_start_month: 13 }), 'period.fiscal_year_start_month must be a month number from 1 to 12');
+  assert.equal(validatePeriod({}), 'period needs a name or a from/to date');
+  assert.equal(validatePeriod({ from: '2024-13-01' }), 'period.from must be a YYYY-MM-DD date');
+  assert.equal(validatePeriod({ to: '2024-02-31' }), 'period.to must be a YYYY-MM-DD date');
+  assert.equal(validatePeriod({ from: '2023-02-29' }), 'period.from must be a YYYY-MM-DD date');
+  assert.equal(validatePeriod({ from: '2024-02-29' }), null);
+  assert.equal(validatePeriod({ from: '2024-03-01', to: '2024-01-01' }), 'period.from must not be after period.to');
+});
@@ -0,0 +1,323 @@
+import fetch from 'node-fetch';
+import { tokenStore } from './tokenStore.js';
+import { getEnvironment, getApiBaseUrl } from './quickbooksEnvironment.js';
+
+// API minor version sent with every request
+export const MINOR_VERSION = process.env.QUICKBOOKS_MINOR_VERSION || '75';
+
+// Attempts after the first for throttled or failed requests; 0 turns retries off
+const configuredRetries = parseInt(process.env.QUICKBOOKS_MAX_RETRIES, 10);
+const MAX_RETRIES = Number.isNaN(configuredRetries) || configuredRetries < 0 ? 3 : configuredRetries;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+// QuickBooks allows 500 requests a minute and 10 in flight per company
+const REQUESTS_PER_MINUTE = 500;
+const MAX_CONCURRENT_REQUESTS = 10;
+const MIN_REQUEST_INTERVAL_MS = Math.ceil(60000 / REQUESTS_PER_MINUTE);
+
+/**
+ * A QuickBooks API call that failed
+ */
+export class QuickBooksError extends Error {
+  /**
+   * @param {string} message - What went wrong
+   * @param {object} [options]
+   * @param {string} [options.code] - Stable error code for API clients
+   * @param {number} [options.status] - HTTP status QuickBooks answered with
+   * @param {string} [options.detail] - Fault detail reported by QuickBooks
+   */
+  constructor(message, { code = 'quickbooks_error', status = null, detail = null } = {}) {
+    super(message);
+    this.name = 'QuickBooksError';
+    this.code = code;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+/**
+ * The access token was rejected; the company has to reconnect
+ */
+export class QuickBooksAuthError extends QuickBooksError {
+  constructor(message, options = {}) {
+    super(message, { code: 'auth_expired', status: 401, ...options });
+    this.name = 'QuickBooksAuthError';
+  }
+}
+
+/**
+ * QuickBooks kept throttling the company after every retry
+ */
+export class QuickBooksThrottleError extends QuickBooksError {
+  /**
+   * @param {string} message - What went wrong
+   * @param {object} [options]
+   * @param {number} [options.retryAfter] - Seconds to wait before trying again
+   */
+  constructor(message, { retryAfter = null, ...options } = {}) {
+    super(message, { code: 'throttled', status: 429, ...options });
+    this.name = 'QuickBooksThrottleError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * QuickBooks rejected the request itself, e.g. a malformed query
+ */
+export class QuickBooksValidationError extends QuickBooksError {
+  constructor(message, options = {}) {
+    super(message, { code: 'validation_fault', status: 400, ...options });
+    this.name = 'QuickBooksValidationError';
+  }
+}
+
+/**
+ * An update carried a SyncToken QuickBooks no longer holds: the record
+ * was changed by someone else since it was read
+ */
+export class QuickBooksConflictError extends QuickBooksError {
+  constructor(message, options = {}) {
+    super(message, { code: 'stale_object', status: 409, ...options });
+    this.name = 'QuickBooksConflictError';
+  }
+}
+
+/**
+ * The API base URL for a company, following the environment it was
+ * connected in and falling back to QUICKBOOKS_ENVIRONMENT
+ * @param {string} realmId - The QuickBooks company ID
+ * @returns {string} Base URL without a trailing slash
+ */
+export function getBaseUrl(realmId) {
+  return getApiBaseUrl(tokenStore.get(realmId)?.environment || getEnvironment());
+}
+
+/**
+ * Escape a value for a single-quoted QuickBooks query literal
+ * @param {*} value - The value to embed
+ * @returns {string} The escaped value, without surrounding quotes
+ */
+export function escapeQueryValue(value) {
+  return String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Check that a name is safe to use as a query entity or field
+ * @param {string} name - Entity or field name, e.g. "Bill" or "MetaData.LastUpdatedTime"
+ * @returns {string} The name
+ */
+export function assertQueryIdentifier(name) {
+  if (typeof name !== 'string' || !/^[A-Za-z][A-Za-z0-9]*(\.[A-Za-z][A-Za-z0-9]*)*$/.test(name)) {
+    throw new QuickBooksValidationError(`Invalid QuickBooks query identifier: ${name}`);
+  }
+  return name;
+}
+
+// Request slots per realm: calls in flight, waiting calls and the next free start time
+const limiters = new Map();
+
+function limiterFor(realmId) {
+  if (!limiters.has(realmId)) {
+    limiters.set(realmId, { active: 0, queue: [], nextStart: 0 });
+  }
+  return limiters.get(realmId);
+}
+
+function drain(limiter) {
+  while (limiter.active < MAX_CONCURRENT_REQUESTS && limiter.queue.length > 0) {
+    const now = Date.now();
+    const wait = Math.max(0, limiter.nextStart - now);
+    limiter.nextStart = Math.max(now, limiter.nextStart) + MIN_REQUEST_INTERVAL_MS;
+    limiter.active++;
+    setTimeout(limiter.queue.shift(), wait);
+  }
+}
+
+// Run a request once the realm has a free slot
+async function withRateLimit(realmId, request) {
+  const limiter = limiterFor(realmId);
+  await new Promise(resolve => {
+    limiter.queue.push(resolve);
+    drain(limiter);
+  });
+  try {
+    return await request();
+  } finally {
+    limiter.active--;
+    drain(limiter);
+  }
+}
+
+// Hold back every request for a realm, e.g. after QuickBooks throttled it
+function pauseRealm(realmId, ms) {
+  const limiter = limiterFor(realmId);
+  limiter.nextStart = Math.max(limiter.nextStart, Date.now() + ms);
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function backoffDelay(attempt, retryAfter) {
+  if (retryAfter !== null) {
+    return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  }
+  const delay = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(delay + Math.random() * delay / 2, MAX_BACKOFF_MS);
+}
+
+function parseRetryAfter(response) {
+  const seconds = parseInt(response.headers?.get?.('retry-after'));
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+// Turn a QuickBooks Fault into the matching typed error
+function faultError(fault, status) {
+  const error = fault?.Error?.[0] || {};
+  const message = error.Message || (status ? `HTTP ${status}` : 'Unknown QuickBooks API error');
+  const detail = error.Detail || null;
+  const text = `QuickBooks API error: ${message}${detail ? `: ${detail}` : ''}`;
+
+  if (status === 401 || status === 403 || fault?.type === 'AUTHENTICATION' || fault?.type === 'AuthenticationFault') {
+    return new QuickBooksAuthError(text, { status: 401, detail });
+  }
+  // 5010 is QuickBooks' Stale Object Error
+  if (String(error.code) === '5010') {
+    return new QuickBooksConflictError(text, { detail });
+  }
+  if (status === 400 || fault?.type === 'ValidationFault') {
+    return new QuickBooksValidationError(text, { detail });
+  }
+  return new QuickBooksError(text, { status, detail });
+}
+
+async function readFault(response) {
+  try {
+    const body = await response.json();
+    return body.Fault || body.fault || null;
+  } catch (e) {
+    // Not every error response has a JSON body
+    return null;
+  }
+}
+
+/**
+ * Call a QuickBooks company endpoint. Adds minorversion, waits for the
+ * realm's rate limit, retries 429 responses with backoff and raises
+ * QuickBooksAuthError, QuickBooksThrottleError,
+ * QuickBooksValidationError, QuickBooksConflictError or QuickBooksError
+ * on failure. Reads are also retried after network errors and 5xx
+ * responses; updates aren't, since one that already landed would fail
+ * as stale on the repeat and look like a conflict.
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.path - Endpoint path below the company URL, e.g. "query"
+ * @param {object} [params.params] - Query string parameters
+ * @param {string} [params.method='GET'] - HTTP method
+ * @param {object} [params.body] - JSON request body
+ * @returns {Promise<object>} The parsed response body
+ */
+export async function quickbooksRequest({ realmId, accessToken, path, params = {}, method = 'GET', body }) {
+  const url = new URL(`${getBaseUrl(realmId)}/v3/company/${encodeURIComponent(realmId)}/${path}`);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+  url.searchParams.set('minorversion', MINOR_VERSION);
+  const retriesFailures = method === 'GET';
+
+  for (let attempt = 0; ; attempt++) {
+    let response;
+    try {
+      response = await withRateLimit(realmId, () => fetch(url.toString(), {
+        method,
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+      }));
+    } catch (error) {
+      if (retriesFailures && attempt < MAX_RETRIES) {
+        console.warn(`⚠️  QuickBooks request failed (${error.message}), retrying...`);
+        await sleep(backoffDelay(attempt, null));
+        continue;
+      }
+      throw new QuickBooksError(`QuickBooks API unreachable: ${error.message}`, { code: 'unavailable' });
+    }
+
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response);
+      if (attempt < MAX_RETRIES) {
+        const delay = backoffDelay(attempt, retryAfter);
+        console.warn(`⏳ QuickBooks throttled realm ${realmId}, retrying in ${Math.round(delay)}ms...`);
+        pauseRealm(realmId, delay);
+        await sleep(delay);
+        continue;
+      }
+      throw new QuickBooksThrottleError('QuickBooks API rate limit exceeded', { retryAfter });
+    }
+
+    if (response.status >= 500 && retriesFailures && attempt < MAX_RETRIES) {
+      console.warn(`⚠️  QuickBooks returned ${response.status}, retrying...`);
+      await sleep(backoffDelay(attempt, parseRetryAfter(response)));
+      continue;
+    }
+
+    if (!response.ok) {
+      throw faultError(await readFault(response), response.status);
+    }
+
+    const data = await response.json();
+    if (data.Fault) {
+      throw faultError(data.Fault, null);
+    }
+    return data;
+  }
+}
+
+/**
+ * Map an error from a QuickBooks call to an HTTP status and response body
+ * @param {Error} error - The error raised
+ * @param {string} [context] - What was being attempted, prefixed to the message
+ * @returns {{status: number, body: object}} Status and { success: false, error, ... } body
+ */
+export function quickbooksErrorResponse(error, context) {
+  const message = context ? `${context}: ${error.message}` : error.message;
+  if (!(error instanceof QuickBooksError)) {
+    return { status: 500, body: { success: false, error: message } };
+  }
+
+  const body = { success: false, error: message, error_code: error.code };
+  if (error.detail) body.detail = error.detail;
+
+  if (error instanceof QuickBooksAuthError) {
+    return { status: 401, body: { ...body, requiresOAuth: true } };
+  }
+  if (error instanceof QuickBooksThrottleError) {
+    return { status: 429, body: { ...body, retry_after: error.retryAfter } };
+  }
+  if (error instanceof QuickBooksValidationError) {
+    return { status: 400, body };
+  }
+  if (error instanceof QuickBooksConflictError) {
+    return { status: 409, body };
+  }
+  return { status: 502, body };
+}
+
+/**
+ * Send a failed QuickBooks call as the matching HTTP response
+ * @param {object} res - Express response
+ * @param {Error} error - The error raised
+ * @param {string} [context] - What was being attempted, prefixed to the message
+ */
+export function sendQuickBooksError(res, error, context) {
+  const { status, body } = quickbooksErrorResponse(error, context);
+  if (status === 429 && body.retry_after !== null) {
+    res.set('Retry-After', String(body.retry_after));
+  }
+  res.status(status).json(body);
+}
@@ -0,0 +1,50 @@
+// Where the local QuickBooks stand-in listens (npm run mock:quickbooks)
+const DEFAULT_MOCK_URL = 'http://localhost:4010';
+
+const INTUIT_OAUTH = {
+  authUrl: 'https://appcenter.intuit.com/connect/oauth2',
+  tokenUrl: 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer',
+  revokeUrl: 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke',
+};
+
+function mockUrl() {
+  return (process.env.QUICKBOOKS_MOCK_URL || DEFAULT_MOCK_URL).replace(/\/+$/, '');
+}
+
+/**
+ * The QuickBooks environment the server is configured for
+ * @returns {string} "sandbox", "production" or "mock"
+ */
+export function getEnvironment() {
+  return process.env.QUICKBOOKS_ENVIRONMENT || 'sandbox';
+}
+
+/**
+ * OAuth endpoints of an environment
+ * @param {string} [environment] - Environment name, the configured one if omitted
+ * @returns {{authUrl: string, tokenUrl: string, revokeUrl: string}} OAuth endpoints
+ */
+export function getOAuthConfig(environment = getEnvironment()) {
+  if (environment === 'mock') {
+    return {
+      authUrl: `${mockUrl()}/oauth2/authorize`,
+      tokenUrl: `${mockUrl()}/oauth2/tokens/bearer`,
+      revokeUrl: `${mockUrl()}/oauth2/tokens/revoke`,
+    };
+  }
+  return INTUIT_OAUTH;
+}
+
+/**
+ * Accounting API base URL of an environment
+ * @param {string} [environment] - Environment name, the configured one if omitted
+ * @returns {string} Base URL without a trailing slash
+ */
+export function getApiBaseUrl(environment = getEnvironment()) {
+  if (environment === 'mock') {
+    return mockUrl();
+  }
+  return environment === 'production'
+    ? 'https://quickbooks.api.intuit.com'
+    : 'https://sandbox-quickbooks.api.intuit.com';
+}
@@ -0,0 +1,167 @@
+import { quickbooksRequest, escapeQueryValue, assertQueryIdentifier } from './quickbooksClient.js';
+
+// Largest page QuickBooks returns for a single query
+export const QUERY_PAGE_SIZE = 1000;
+
+// Records fetched per entity before a run is cut short
+export const DEFAULT_MAX_RECORDS = parseInt(process.env.QUICKBOOKS_MAX_RECORDS) || 50000;
+
+// Change Data Capture only looks back this far
+const CDC_LOOKBACK_DAYS = 30;
+
+// Changed objects CDC returns per entity before it truncates
+const CDC_MAX_RESULTS = 1000;
+
+/**
+ * Validate the optional per-request cap on records fetched per entity
+ * @param {any} maxRecords - The max_records request value
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateMaxRecords(maxRecords) {
+  if (maxRecords !== undefined && !(Number.isInteger(maxRecords) && maxRecords > 0)) {
+    return 'max_records must be a positive integer';
+  }
+  return null;
+}
+
+/**
+ * Run a query against the QuickBooks query endpoint
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.query - The query statement
+ * @returns {Promise<object>} The QueryResponse section of the API response
+ */
+export async function runQuickBooksQuery({ realmId, accessToken, query }) {
+  const data = await quickbooksRequest({ realmId, accessToken, path: 'query', params: { query } });
+  return data.QueryResponse || {};
+}
+
+// " WHERE <condition>" for a query, or nothing when unfiltered
+function whereClause(where) {
+  return where ? ` WHERE ${where}` : '';
+}
+
+/**
+ * Count every record of an entity, however many pages it spans
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to count
+ * @param {string} [params.where] - Query condition the records must meet
+ * @returns {Promise<number>} Total record count
+ */
+export async function countQuickBooksRecords({ realmId, accessToken, entity, where }) {
+  const response = await runQuickBooksQuery({ realmId, accessToken, query: `SELECT COUNT(*) FROM ${assertQueryIdentifier(entity)}${whereClause(where)}` });
+  return response.totalCount || 0;
+}
+
+/**
+ * Walk the pages of an entity's records using STARTPOSITION/MAXRESULTS.
+ * Stops at the last page or once maxRecords records have been yielded.
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to fetch
+ * @param {string} [params.where] - Query condition the records must meet
+ * @param {number} [params.pageSize] - Records per page, at most QUERY_PAGE_SIZE
+ * @param {number} [params.maxRecords] - Records to stop after
+ * @yields {Array} One page of records
+ */
+export async function* queryPages({ realmId, accessToken, entity, where, pageSize = QUERY_PAGE_SIZE, maxRecords = Infinity }) {
+  const size = Math.min(pageSize, QUERY_PAGE_SIZE);
+  let startPosition = 1;
+
+  while (startPosition <= maxRecords) {
+    const maxResults = Math.min(size, maxRecords - startPosition + 1);
+    const response = await runQuickBooksQuery({
+      realmId,
+      accessToken,
+      query: `SELECT * FROM ${assertQueryIdentifier(entity)}${whereClause(where)} STARTPOSITION ${startPosition} MAXRESULTS ${maxResults}`
+    });
+    const page = response[entity] || [];
+    if (page.length > 0) {
+      yield page;
+    }
+    if (page.length < maxResults) {
+      return;
+    }
+    startPosition += page.length;
+  }
+}
+
+/**
+ * Fetch an entity's records across all pages, up to a cap. When the cap
+ * cuts the fetch short, the true population is counted separately.
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to fetch
+ * @param {string} [params.where] - Query condition the records must meet
+ * @param {number} [params.maxRecords] - Cap on records fetched, DEFAULT_MAX_RECORDS if omitted
+ * @returns {Promise<{records: Array, total_count: number, truncated: boolean, max_records: number}>}
+ */
+export async function fetchAllRecords({ realmId, accessToken, entity, where, maxRecords = DEFAULT_MAX_RECORDS }) {
+  const records = [];
+  for await (const page of queryPages({ realmId, accessToken, entity, where, maxRecords })) {
+    records.push(...page);
+  }
+
+  // Only a fetch that reached the cap can be missing records
+  const totalCount = records.length >= maxRecords
+    ? Math.max(await countQuickBooksRecords({ realmId, accessToken, entity, where }), records.length)
+    : records.length;
+  const truncated = totalCount > records.length;
+
+  if (truncated) {
+    console.warn(`⚠️  ${entity}: fetched ${records.length} of ${totalCount} records (cap ${maxRecords})`);
+  }
+
+  return { records, total_count: totalCount, truncated, max_records: maxRecords };
+}
+
+/**
+ * Fetch the records of an entity changed since a point in time.
+ * Uses the Change Data Capture endpoint, which also reports deletions,
+ * when the point lies within its 30-day window. Older points, and CDC
+ * responses at CDC's per-entity limit, fall back to paging a
+ * MetaData.LastUpdatedTime query, which can't see deletions.
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to fetch
+ * @param {string} params.changedSince - ISO timestamp changes are fetched from
+ * @param {number} [params.maxRecords] - Cap on changed records fetched
+ * @returns {Promise<{records: Array, deleted_ids: string[], source: string, total_count: number, truncated: boolean, max_records: number}>}
+ */
+export async function fetchChangedRecords({ realmId, accessToken, entity, changedSince, maxRecords = DEFAULT_MAX_RECORDS }) {
+  const withinCdcWindow = Date.now() - Date.parse(changedSince) < CDC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+
+  let deletedIds = [];
+  if (withinCdcWindow) {
+    const data = await quickbooksRequest({
+      realmId,
+      accessToken,
+      path: 'cdc',
+      params: { entities: assertQueryIdentifier(entity), changedSince }
+    });
+    const changed = (data.CDCResponse || [])
+      .flatMap(response => response.QueryResponse || [])
+      .flatMap(response => response[entity] || []);
+    const records = changed.filter(record => record.status !== 'Deleted');
+    deletedIds = changed.filter(record => record.status === 'Deleted').map(record => String(record.Id));
+
+    if (changed.length < CDC_MAX_RESULTS && records.length <= maxRecords) {
+      return { records, deleted_ids: deletedIds, source: 'cdc', total_count: records.length, truncated: false, max_records: maxRecords };
+    }
+  }
+
+  const population = await fetchAllRecords({
+    realmId,
+    accessToken,
+    entity,
+    where: `MetaData.LastUpdatedTime > '${escapeQueryValue(changedSince)}'`,
+    maxRecords
+  });
+  return { ...population, deleted_ids: deletedIds, source: 'last_updated_time' };
+}
@@ -1,80 +1,92 @@
-import fetch from 'node-fetch';
+import { queryPages } from './quickbooksQuery.js';
+
+// Records a schema is inferred from; one capped page rather than the whole entity
+export const SCHEMA_SAMPLE_SIZE = 100;
+
+// Cached field schemas per realm and entity, so saving a rule doesn't refetch
+const schemaCache = new Map();
+const SCHEMA_CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Classify a primitive QuickBooks value for schema purposes
+ * @param {any} value - A leaf value from a record
+ * @returns {string} 'number', 'boolean', 'date', 'string' or 'array'
+ */
+function classifyValue(value) {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return 'date';
+  return 'string';
+}
 
 /**
- * Recursively extract all field paths from a JSON object.
- * @param {object} obj - The JSON object.
- * @param {string} prefix - The current field path prefix.
- * @returns {string[]} Array of field paths.
+ * Collect the field types of a record into schema. Arrays of objects are
+ * walked element by element under the same path, so Line.Amount covers
+ * every line item rather than only the first.
  */
-function extractFieldPaths(obj, prefix = '') {
-  let paths = [];
+function collectFieldTypes(obj, prefix, schema) {
   for (const key in obj) {
     if (!Object.prototype.hasOwnProperty.call(obj, key)) continue;
     const value = obj[key];
     const path = prefix ? `${prefix}.${key}` : key;
     if (value && typeof value === 'object' && !Array.isArray(value)) {
-      paths = paths.concat(extractFieldPaths(value, path));
+      collectFieldTypes(value, path, schema);
     } else if (Array.isArray(value) && value.length > 0 && typeof value[0] === 'object') {
-      // For arrays of objects, extract from first element
-      paths = paths.concat(extractFieldPaths(value[0], path));
-    } else {
-      paths.push(path);
+      value.forEach(item => collectFieldTypes(item, path, schema));
+    } else if (value !== null && value !== undefined && !schema[path]) {
+      schema[path] = classifyValue(value);
     }
   }
-  return paths;
+  return schema;
 }
 
 /**
- * Fetch a sample record for a given entity from QuickBooks and extract field paths.
+ * Build a field schema from a set of records. Optional fields are picked
+ * up from whichever record carries them.
+ * @param {object[]} records - QuickBooks records of one entity
+ * @returns {Object<string, string>} Map of field path to field type
+ */
+export function extractFieldSchema(records) {
+  const schema = {};
+  for (const record of records) {
+    collectFieldTypes(record, '', schema);
+  }
+  return schema;
+}
+
+/**
+ * Fetch one capped page of an entity's records to infer its schema from
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID.
+ * @param {string} params.accessToken - The OAuth access token.
+ * @param {string} params.entity - The entity type (e.g., 'Expense').
+ * @returns {Promise<object[]>} Up to SCHEMA_SAMPLE_SIZE records, empty if the entity has none.
+ */
+export async function fetchSampleRecords({ realmId, accessToken, entity }) {
+  const { value: records = [] } = await queryPages({ realmId, accessToken, entity, maxRecords: SCHEMA_SAMPLE_SIZE }).next();
+  return records;
+}
+
+/**
+ * Fetch a sample of an entity's records from QuickBooks and extract a typed
+ * field schema. Results are cached per realm and entity for a few minutes.
  * @param {object} params
  * @param {string} params.realmId - The QuickBooks company ID.
  * @param {string} params.accessToken - The OAuth access token.
  * @param {string} params.entity - The transaction entity type (e.g., 'Expense').
- * @returns {Promise<string[]>} List of field paths.
+ * @returns {Promise<Object<string, string>|null>} Map of field path to field type,
+ *   or null when the entity has no records to infer one from.
  */
-export async function getQuickBooksFields({ realmId, accessToken, entity }) {
-  // URL encode the query parameter - QuickBooks API requires this
-  const query = encodeURIComponent(`SELECT * FROM ${entity}`);
-  const url = `https://sandbox-quickbooks.api.intuit.com/v3/company/${realmId}/query?query=${query}`;
-  
-  const res = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
-    },
-  });
-  
-  if (!res.ok) {
-    // Try to get more details from the error response
-    let errorDetails = `${res.status} ${res.statusText}`;
-    try {
-      const errorData = await res.json();
-      if (errorData.Fault) {
-        errorDetails = errorData.Fault.Error?.[0]?.Message || errorDetails;
-        if (errorData.Fault.Error?.[0]?.Detail) {
-          errorDetails += `: ${errorData.Fault.Error[0].Detail}`;
-        }
-      }
-    } catch (e) {
-      // If we can't parse the error response, use the status text
-    }
-    throw new Error(`QuickBooks API error: ${errorDetails}`);
-  }
-  
-  const data = await res.json();
-  
-  // Check for QuickBooks API errors in the response
-  if (data.Fault) {
-    const faultMessage = data.Fault.Error?.[0]?.Message || 'Unknown QuickBooks API error';
-    throw new Error(`QuickBooks API error: ${faultMessage}`);
-  }
-  
-  // The entity records are in data[entity] or data.QueryResponse[entity]
-  const records = data.QueryResponse && data.QueryResponse[entity];
-  if (!records || !records.length) {
-    throw new Error(`No records found for entity: ${entity}`);
+export async function getQuickBooksFieldSchema({ realmId, accessToken, entity }) {
+  const cacheKey = `${realmId}:${entity}`;
+  const cached = schemaCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.schema;
   }
-  // Extract field paths from the first record
-  return extractFieldPaths(records[0]);
-} 
\ No newline at end of file
+
+  const records = await fetchSampleRecords({ realmId, accessToken, entity });
+  const schema = records.length ? extractFieldSchema(records) : null;
+  schemaCache.set(cacheKey, { schema, expiresAt: Date.now() + SCHEMA_CACHE_TTL_MS });
+  return schema;
+}
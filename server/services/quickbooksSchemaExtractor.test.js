@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractFieldSchema } from './quickbooksSchemaExtractor.js';
+import { findMentionedReferenceNames } from './referenceData.js';
+
+test('picks up optional fields and every line item from a sample', () => {
+  const schema = extractFieldSchema([
+    { Id: '1', TotalAmt: 10, TxnDate: '2024-03-01', Line: [{ Amount: 10 }] },
+    { Id: '2', PrivateNote: 'late', Line: [{ Amount: 4 }, { DetailType: 'AccountBasedExpenseLineDetail' }] }
+  ]);
+  assert.deepEqual(schema, {
+    Id: 'string',
+    TotalAmt: 'number',
+    TxnDate: 'date',
+    'Line.Amount': 'number',
+    PrivateNote: 'string',
+    'Line.DetailType': 'string'
+  });
+});
+
+test('only the references an instruction names need a schema', () => {
+  assert.deepEqual(findMentionedReferenceNames('Flag bills from vendors without a tax id'), ['vendor']);
+  assert.deepEqual(findMentionedReferenceNames('Expenses over $5,000 on the Meals account'), ['account']);
+  assert.deepEqual(findMentionedReferenceNames('Expenses over $5,000'), []);
+  assert.deepEqual(findMentionedReferenceNames('Payments where the Vendor differs from the customer'), ['vendor', 'customer']);
+});
@@ -0,0 +1,148 @@
+import { getNestedValue } from './conditionEvaluator.js';
+
+/**
+ * Reference prefixes usable in field paths (e.g. "$vendor.MetaData.CreateTime")
+ * and the list entity each one resolves against
+ */
+export const REFERENCE_ENTITIES = {
+  vendor: 'Vendor',
+  customer: 'Customer',
+  account: 'Account'
+};
+
+// Matches a reference prefix anywhere in a serialized rule
+const REFERENCE_PATTERN = /"\$([a-z]+)[."]/g;
+
+/**
+ * Split a reference field path into its prefix name and the path inside
+ * the referenced record
+ * @param {string} field - A field path such as "$vendor.TaxIdentifier"
+ * @returns {{name: string, path: string}|null} Parsed reference, or null for plain fields
+ */
+export function parseReferenceField(field) {
+  const match = typeof field === 'string' && field.match(/^\$([a-z]+)(?:\.(.+))?$/);
+  return match ? { name: match[1], path: match[2] || '' } : null;
+}
+
+/**
+ * List the reference prefixes a rule uses in any of its field paths,
+ * whether in conditions or a kind-specific configuration
+ * @param {object} rule - The audit rule
+ * @returns {string[]} Reference names such as 'vendor'
+ */
+export function findReferenceNames(rule) {
+  const names = new Set();
+  for (const match of JSON.stringify(rule).matchAll(REFERENCE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * List the references an instruction names, e.g. 'vendor' for "vendors
+ * without a tax id", so only their list entities need a schema
+ * @param {string} instruction - A natural language audit instruction
+ * @returns {string[]} Reference names such as 'vendor'
+ */
+export function findMentionedReferenceNames(instruction) {
+  return Object.keys(REFERENCE_ENTITIES)
+    .filter(name => new RegExp(`\\b${name}s?\\b`, 'i').test(instruction));
+}
+
+/**
+ * Resolve the id of the record a transaction references.
+ * EntityRef counts as a vendor or customer reference according to its type.
+ * @param {object} transaction - The transaction record
+ * @param {string} name - Reference name
+ * @returns {string|null} Referenced record id
+ */
+function resolveReferenceId(transaction, name) {
+  const entityRef = transaction.EntityRef;
+  let id;
+  switch (name) {
+    case 'vendor':
+      id = getNestedValue(transaction, 'VendorRef.value') ??
+        (entityRef && (!entityRef.type || entityRef.type === 'Vendor') ? entityRef.value : undefined);
+      break;
+    case 'customer':
+      id = getNestedValue(transaction, 'CustomerRef.value') ??
+        (entityRef?.type === 'Customer' ? entityRef.value : undefined);
+      break;
+    case 'account':
+      id = getNestedValue(transaction, 'AccountRef.value') ??
+        getNestedValue(transaction, 'APAccountRef.value') ??
+        getNestedValue(transaction, 'DepositToAccountRef.value');
+      break;
+    default:
+      id = undefined;
+  }
+  return id === undefined || id === null ? null : String(id);
+}
+
+/**
+ * Create a per-run cache of reference list entities. Each entity is
+ * fetched at most once, however many rules reference it.
+ * @param {Function} fetchRecords - Fetches all records of an entity name
+ * @returns {{load: Function}} Cache whose load(name) resolves to a Map of id to record
+ */
+export function createReferenceCache(fetchRecords) {
+  const loaded = new Map();
+  return {
+    load(name) {
+      if (!loaded.has(name)) {
+        loaded.set(name, fetchRecords(REFERENCE_ENTITIES[name]).then(records =>
+          new Map(records.map(record => [String(record.Id), record]))
+        ));
+      }
+      return loaded.get(name);
+    }
+  };
+}
+
+/**
+ * Attach the records a rule references to each transaction as
+ * non-enumerable "$vendor", "$customer" and "$account" properties, so
+ * field paths can reach them while results serialize without them.
+ * @param {Array} transactions - Fetched records
+ * @param {object} rule - The audit rule being executed
+ * @param {object} cache - Cache from createReferenceCache
+ * @returns {Promise<void>}
+ */
+export async function attachReferences(transactions, rule, cache) {
+  const names = findReferenceNames(rule).filter(name => REFERENCE_ENTITIES[name]);
+  for (const name of names) {
+    const records = await cache.load(name);
+    for (const transaction of transactions) {
+      const id = resolveReferenceId(transaction, name);
+      Object.defineProperty(transaction, `$${name}`, {
+        value: id ? records.get(id) : undefined,
+        enumerable: false,
+        configurable: true
+      });
+    }
+  }
+}
+
+/**
+ * Build a field schema for reference list entities, with every path
+ * prefixed by its reference (e.g. "$vendor.DisplayName"). References whose
+ * schema can't be fetched, or whose entity has no records, are left out,
+ * so their fields go unchecked.
+ * @param {string[]} names - Reference names, e.g. from findReferenceNames
+ * @param {Function} fetchSchema - Resolves an entity name to its field schema
+ * @returns {Promise<Object<string, string>>} Prefixed field schema
+ */
+export async function buildReferenceSchema(names, fetchSchema) {
+  const schema = {};
+  for (const name of names.filter(name => REFERENCE_ENTITIES[name])) {
+    try {
+      const entitySchema = await fetchSchema(REFERENCE_ENTITIES[name]);
+      for (const [path, type] of Object.entries(entitySchema || {})) {
+        schema[`$${name}.${path}`] = type;
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not load ${REFERENCE_ENTITIES[name]} schema for validation:`, error.message);
+    }
+  }
+  return schema;
+}
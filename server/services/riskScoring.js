@@ -0,0 +1,131 @@
+// Base score of a single rule hit per severity, in the range 0..100
+export const SEVERITY_SCORES = {
+  low: 10,
+  medium: 25,
+  high: 50,
+  critical: 80
+};
+
+const DEFAULT_SEVERITY = 'medium';
+
+// Composite score thresholds for each risk level, highest first
+const RISK_LEVELS = [
+  { level: 'critical', min: 75 },
+  { level: 'high', min: 50 },
+  { level: 'medium', min: 25 },
+  { level: 'low', min: 0 }
+];
+
+/**
+ * Validate a rule's severity and weight
+ * @param {object} rule - The audit rule
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateRiskSettings(rule) {
+  if (rule.severity !== undefined && !SEVERITY_SCORES[rule.severity]) {
+    return `severity must be one of: ${Object.keys(SEVERITY_SCORES).join(', ')}`;
+  }
+  if (rule.weight !== undefined && !(typeof rule.weight === 'number' && rule.weight > 0)) {
+    return 'weight must be a positive number';
+  }
+  return null;
+}
+
+// Score of one rule hit: the severity's base score scaled by the rule weight
+function scoreHit(rule) {
+  const severity = rule.severity || DEFAULT_SEVERITY;
+  const weight = rule.weight ?? 1;
+  return {
+    severity,
+    weight,
+    score: Math.min(100, SEVERITY_SCORES[severity] * weight)
+  };
+}
+
+/**
+ * Combine hit scores so every extra hit raises the total without ever
+ * passing 100: each hit removes its share of the remaining headroom.
+ * @param {number[]} scores - Hit scores in the range 0..100
+ * @returns {number} Composite score in the range 0..100
+ */
+function combineScores(scores) {
+  const remaining = scores.reduce((headroom, score) => headroom * (1 - score / 100), 1);
+  return Number((100 * (1 - remaining)).toFixed(1));
+}
+
+function riskLevel(score) {
+  return RISK_LEVELS.find(entry => score >= entry.min).level;
+}
+
+/**
+ * List the transactions a flagged entry refers to. Aggregate and duplicate
+ * findings implicate every member transaction. Entries on another entity
+ * than the rule's (three-way match payments) name it; otherwise entity
+ * is undefined and the rule's entity applies.
+ * @param {object} entry - A flagged entry from any rule kind
+ * @returns {Array<{id: string, entity: string|undefined, data: object}>} Implicated transaction ids and records
+ */
+export function implicatedTransactions(entry) {
+  if (Array.isArray(entry.member_transactions)) {
+    return entry.member_transactions.map(transaction => ({ id: transaction.Id, entity: entry.entity, data: transaction }));
+  }
+  return [{ id: entry.id, entity: entry.entity, data: entry.transaction_data }];
+}
+
+/**
+ * Merge every rule hit of a batch into one ranked queue of transactions.
+ * Each transaction gets a composite risk score from the severity and
+ * weight of every rule that flagged it, along with the contributing rules.
+ * A rule counts once per transaction even if several of its findings
+ * include it.
+ * @param {Array} rules - The executed rules
+ * @param {Array} results - executeRule results, in the same order as rules
+ * @returns {Array} Queue entries sorted by descending score
+ */
+export function buildRiskQueue(rules, results) {
+  const queue = new Map();
+
+  rules.forEach((rule, index) => {
+    const result = results[index];
+    if (!result?.success || !result.data) return;
+
+    const ruleId = rule.id || rule.rule_type;
+    const hit = scoreHit(rule);
+
+    for (const entry of result.data.flagged_transactions) {
+      for (const { id, entity, data } of implicatedTransactions(entry)) {
+        const key = entity ? `${entity}:${id}` : String(id);
+        if (!queue.has(key)) {
+          queue.set(key, { transaction_id: id, ...(entity && { entity }), transaction_data: data, contributing_rules: [] });
+        }
+        const item = queue.get(key);
+        if (item.contributing_rules.some(contribution => contribution.rule_id === ruleId)) continue;
+
+        item.contributing_rules.push({
+          rule_id: ruleId,
+          rule_type: rule.rule_type,
+          kind: rule.kind || 'transaction',
+          ...hit,
+          finding_id: entry.id,
+          action: rule.action,
+          reason: rule.reason
+        });
+      }
+    }
+  });
+
+  return Array.from(queue.values())
+    .map(item => {
+      const score = combineScores(item.contributing_rules.map(contribution => contribution.score));
+      return {
+        transaction_id: item.transaction_id,
+        ...(item.entity && { entity: item.entity }),
+        score,
+        risk_level: riskLevel(score),
+        hit_count: item.contributing_rules.length,
+        contributing_rules: item.contributing_rules.sort((a, b) => b.score - a.score),
+        transaction_data: item.transaction_data
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.hit_count - a.hit_count);
+}
@@ -0,0 +1,163 @@
+import { evaluateRuleKind } from './ruleExecutor.js';
+import { implicatedTransactions } from './riskScoring.js';
+import { REFERENCE_ENTITIES } from './referenceData.js';
+
+// What a labeled example expects the rule to do with its transaction
+export const EXAMPLE_EXPECTATIONS = ['flag', 'no_flag'];
+
+// Entities a three-way match example may supply besides its bill
+const RELATED_ENTITIES = ['PurchaseOrder', 'BillPayment'];
+
+function isRecord(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate the labeled examples attached to a rule
+ * @param {object} rule - The audit rule, or an update to one
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateRuleExamples(rule) {
+  if (rule.examples === undefined) {
+    return null;
+  }
+  if (!Array.isArray(rule.examples)) {
+    return 'examples must be an array';
+  }
+  for (const [index, example] of rule.examples.entries()) {
+    const path = `examples[${index}]`;
+    if (!isRecord(example)) {
+      return `${path} must be an object`;
+    }
+    if (!EXAMPLE_EXPECTATIONS.includes(example.expect)) {
+      return `${path}.expect must be one of ${EXAMPLE_EXPECTATIONS.join(', ')}`;
+    }
+    if (!isRecord(example.transaction)) {
+      return `${path}.transaction must be a transaction object`;
+    }
+    if (example.references !== undefined) {
+      if (!isRecord(example.references)) {
+        return `${path}.references must be an object`;
+      }
+      const unknown = Object.keys(example.references).find(name => !REFERENCE_ENTITIES[name]);
+      if (unknown) {
+        return `${path}.references.${unknown} is not a reference; use ${Object.keys(REFERENCE_ENTITIES).join(', ')}`;
+      }
+    }
+    if (example.related !== undefined) {
+      if (!isRecord(example.related)) {
+        return `${path}.related must be an object`;
+      }
+      const invalid = Object.entries(example.related)
+        .find(([name, records]) => !RELATED_ENTITIES.includes(name) || !Array.isArray(records));
+      if (invalid) {
+        return `${path}.related may only hold ${RELATED_ENTITIES.join(' and ')} arrays`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Give each example an id and description so results can refer to it
+ * @param {Array} examples - Valid examples
+ * @returns {Array} Examples with id and description set
+ */
+export function normalizeExamples(examples) {
+  return examples.map((example, index) => ({
+    id: example.id || `example-${index + 1}`,
+    description: example.description || '',
+    expect: example.expect,
+    transaction: example.transaction,
+    ...(example.references && { references: example.references }),
+    ...(example.related && { related: example.related })
+  }));
+}
+
+/**
+ * Run a rule against its labeled examples. All example transactions are
+ * evaluated together as one population, so aggregate, duplicate and
+ * outlier examples can depend on each other; three-way match examples
+ * bring their purchase orders and payments under related. Referenced
+ * vendor, customer and account records come from each example's
+ * references rather than QuickBooks.
+ * @param {object} rule - The audit rule, with its examples
+ * @returns {{status: string, total: number, passed: number, failed: number, results: Array, checked_at: string}}
+ */
+export function runRuleExamples(rule) {
+  const examples = normalizeExamples(rule.examples || []);
+  const checkedAt = new Date().toISOString();
+  if (examples.length === 0) {
+    return { status: 'none', total: 0, passed: 0, failed: 0, results: [], checked_at: checkedAt };
+  }
+
+  // Copies with distinct Ids, so each finding maps back to one example
+  const usedIds = new Set();
+  const transactions = examples.map((example, index) => {
+    const transaction = structuredClone(example.transaction);
+    if (transaction.Id === undefined || usedIds.has(String(transaction.Id))) {
+      transaction.Id = `example-${index + 1}`;
+    }
+    usedIds.add(String(transaction.Id));
+    for (const name of Object.keys(REFERENCE_ENTITIES)) {
+      Object.defineProperty(transaction, `$${name}`, {
+        value: example.references?.[name],
+        enumerable: false,
+        configurable: true
+      });
+    }
+    return transaction;
+  });
+
+  const related = rule.kind === 'three_way_match'
+    ? {
+      Bill: transactions,
+      ...Object.fromEntries(RELATED_ENTITIES.map(name => [
+        name,
+        examples.flatMap(example => structuredClone(example.related?.[name] || []))
+      ]))
+    }
+    : null;
+
+  let flagged;
+  let error = null;
+  try {
+    flagged = evaluateRuleKind(transactions, rule, related);
+  } catch (evaluationError) {
+    flagged = [];
+    error = evaluationError.message;
+  }
+
+  const reasons = new Map();
+  for (const entry of flagged) {
+    for (const { id, entity } of implicatedTransactions(entry)) {
+      // Related records' ids can coincide with an example's
+      if (RELATED_ENTITIES.includes(entity)) continue;
+      if (!reasons.has(String(id))) reasons.set(String(id), entry.reason);
+    }
+  }
+
+  const results = examples.map((example, index) => {
+    const id = String(transactions[index].Id);
+    const wasFlagged = reasons.has(id);
+    return {
+      id: example.id,
+      description: example.description,
+      expect: example.expect,
+      flagged: wasFlagged,
+      passed: !error && wasFlagged === (example.expect === 'flag'),
+      ...(wasFlagged && { reason: reasons.get(id) }),
+      ...(error && { error })
+    };
+  });
+
+  const passed = results.filter(result => result.passed).length;
+  return {
+    status: passed === results.length ? 'passing' : 'failing',
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    results,
+    checked_at: checkedAt
+  };
+}
@@ -1,198 +1,312 @@
-import fetch from 'node-fetch';
+import { getNestedValue, isLineField, evaluateConditions } from './conditionEvaluator.js';
+import { traceConditions, collectContributingLeaves } from './evaluationTrace.js';
+import { evaluateAggregateRule, validateAggregateConfig } from './aggregateEvaluator.js';
+import { detectDuplicates, validateDuplicateConfig } from './duplicateDetector.js';
+import { detectOutliers, validateOutlierConfig } from './outlierDetector.js';
+import { evaluateThreeWayMatch, validateThreeWayMatchConfig, THREE_WAY_ENTITIES } from './threeWayMatcher.js';
+import { buildRiskQueue, validateRiskSettings } from './riskScoring.js';
+import { createReferenceCache, attachReferences, findReferenceNames, REFERENCE_ENTITIES } from './referenceData.js';
+import { createDatasetCache } from './datasetCache.js';
+import { fetchAllRecords } from './quickbooksQuery.js';
+import { quickbooksErrorResponse } from './quickbooksClient.js';
+import { buildPeriodFilter, describeScope, isWithinPeriod } from './periodScope.js';
+import { applySuppressions } from './suppressions.js';
+
+// Failed result carrying the HTTP status and code the error maps to
+function executionFailure(error, context) {
+  const { status, body } = quickbooksErrorResponse(error, context);
+  return { ...body, status, data: null };
+}
+
+// Errors that would fail every remaining rule in a batch the same way
+const BATCH_FATAL_ERRORS = ['auth_expired', 'throttled'];
 
 /**
- * Get a nested value from an object using dot notation
- * @param {object} obj - The object to search in
- * @param {string} path - The dot notation path (e.g., 'Line.0.Amount')
- * @returns {any} The value at the path, or undefined if not found
+ * Fetch all records for a given entity from QuickBooks, page by page
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to fetch
+ * @param {number} [params.maxRecords] - Cap on records fetched
+ * @returns {Promise<Array>} Array of transaction records
  */
-function getNestedValue(obj, path) {
-  return path.split('.').reduce((current, key) => {
-    if (current === null || current === undefined) return undefined;
-    if (key.match(/^\d+$/)) {
-      // Handle array indices
-      return current[parseInt(key)];
-    }
-    return current[key];
-  }, obj);
+export async function fetchQuickBooksData({ realmId, accessToken, entity, maxRecords }) {
+  const { records } = await fetchAllRecords({ realmId, accessToken, entity, maxRecords });
+  return records;
 }
 
-// Helper: check if a field path starts with "Line."
-function isLineField(field) {
-  return field.startsWith('Line.');
+/**
+ * Get complete QuickBooks data context for an entity
+ * This function returns the full API response for better context understanding,
+ * with the records of every page merged into a single QueryResponse
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - The entity type to fetch
+ * @returns {Promise<object>} Complete QuickBooks API response
+ */
+export async function getQuickBooksDataContext({ realmId, accessToken, entity }) {
+  const { records, total_count, truncated, max_records } = await fetchAllRecords({ realmId, accessToken, entity });
+
+  return {
+    QueryResponse: {
+      [entity]: records,
+      startPosition: 1,
+      maxResults: records.length,
+      totalCount: total_count
+    },
+    truncated,
+    max_records,
+    time: new Date().toISOString()
+  };
 }
 
-// Comparison logic
-function compare(fieldValue, operator, value) {
-  if (fieldValue === undefined || fieldValue === null) return false;
-  switch (operator) {
-    case 'eq': return fieldValue == value;
-    case 'ne': return fieldValue != value;
-    case 'gt': return parseFloat(fieldValue) > parseFloat(value);
-    case 'lt': return parseFloat(fieldValue) < parseFloat(value);
-    case 'contains': return String(fieldValue).toLowerCase().includes(String(value).toLowerCase());
-    case 'not_contains': return !String(fieldValue).toLowerCase().includes(String(value).toLowerCase());
-    case 'in': return Array.isArray(value) && value.includes(fieldValue);
-    case 'not_in': return Array.isArray(value) && !value.includes(fieldValue);
-    default: return false;
+/**
+ * Evaluate a row-level rule against each transaction independently
+ * @param {Array} transactions - All fetched records for the entity
+ * @param {object} rule - The audit rule to evaluate
+ * @returns {Array} Flagged transaction entries
+ */
+function evaluateTransactionRule(transactions, rule) {
+  const flaggedTransactions = [];
+
+  // Evaluate each transaction against the rule
+  for (const transaction of transactions) {
+      
+    const isFlagged = evaluateConditions(transaction, rule.conditions);
+    
+    if (isFlagged) {
+      const trace = traceConditions(transaction, rule.conditions);
+      flaggedTransactions.push({
+        id: transaction.Id,
+        transaction_data: transaction,
+        matched_conditions: collectContributingLeaves(trace).map(leaf => {
+          const actualValue = leaf.actual_value;
+          let flaggedFieldData = null;
+          
+          // Get the complete field data that was flagged
+          if (isLineField(leaf.field)) {
+            // The trace records the specific line item that matched
+            if (leaf.line_index !== undefined) {
+              flaggedFieldData = {
+                line_index: leaf.line_index,
+                line_data: transaction.Line[leaf.line_index],
+                field_path: leaf.field,
+                field_value: actualValue
+              };
+            }
+          } else {
+            // For regular fields, get the parent object containing the field
+            const fieldParts = leaf.field.split('.');
+            const parentPath = fieldParts.slice(0, -1).join('.');
+            const fieldName = fieldParts[fieldParts.length - 1];
+            
+            if (parentPath) {
+              const parentObject = getNestedValue(transaction, parentPath);
+              flaggedFieldData = {
+                parent_path: parentPath,
+                parent_object: parentObject,
+                field_name: fieldName,
+                field_value: actualValue
+              };
+            } else {
+              // Top-level field
+              flaggedFieldData = {
+                field_name: leaf.field,
+                field_value: actualValue,
+                parent_object: transaction
+              };
+            }
+          }
+          
+          return {
+            field: leaf.field,
+            operator: leaf.operator,
+            value: leaf.value,
+            ...(leaf.negate && { negate: true }),
+            result: leaf.result,
+            actual_value: actualValue,
+            coercion: leaf.coercion,
+            flagged_field_data: flaggedFieldData
+          };
+        }),
+        evaluation_trace: trace,
+        action: rule.action,
+        reason: rule.reason,
+        flagged_at: new Date().toISOString()
+      });
+    }
   }
+
+  return flaggedTransactions;
 }
 
-// Evaluate a single condition, handling Line arrays
-function evaluateCondition(transaction, condition) {
-  const { field, operator, value } = condition;
-
-  // Special handling for Line array fields
-  if (isLineField(field)) {
-    const lines = transaction.Line;
-    if (!Array.isArray(lines)) return false;
-    // Remove "Line." prefix for nested path
-    const lineFieldPath = field.substring(5);
-    // Check if ANY line item matches
-    return lines.some(line => {
-      const fieldValue = getNestedValue(line, lineFieldPath);
-      return compare(fieldValue, operator, value);
-    });
+/**
+ * Fetch the records a rule evaluates. Three-way match rules fetch the
+ * whole money-out chain (PurchaseOrder, Bill, BillPayment) regardless of
+ * the requested entity and are reported against Bill. The chain is
+ * fetched for all dates, since links cross the period boundary; the
+ * period only selects the bills and payments reported.
+ * @param {object} rule - The audit rule to execute
+ * @param {object} params - QuickBooks connection parameters
+ * @param {string|null} params.where - Query condition scoping the reported entity
+ * @param {object|null} params.scope - Period from resolvePeriod the condition was built from
+ * @param {object} datasetCache - Cache from createDatasetCache
+ * @returns {Promise<{entity: string, transactions: Array, related: object|null, sources: Array<object>}>}
+ */
+async function fetchRuleRecords(rule, { realmId, accessToken, entity, where, scope }, datasetCache) {
+  if (rule.kind === 'three_way_match') {
+    const sources = THREE_WAY_ENTITIES.map(name => ({ entity: name, where: null }));
+    const fetched = await Promise.all(
+      sources.map(source => datasetCache.load({ realmId, accessToken, ...source }))
+    );
+    const related = Object.fromEntries(THREE_WAY_ENTITIES.map((name, index) => [name, fetched[index]]));
+    return { entity: 'Bill', transactions: related.Bill.filter(bill => isWithinPeriod(bill, scope)), related, sources };
   }
 
-  // Normal field
-  const fieldValue = getNestedValue(transaction, field);
-  return compare(fieldValue, operator, value);
+  const transactions = await datasetCache.load({ realmId, accessToken, entity, where });
+  return { entity, transactions, related: null, sources: [{ entity, where }] };
 }
 
-// Robust logical operator handling
-function evaluateConditions(transaction, conditions) {
-  if (!conditions || conditions.length === 0) return true;
-  let result = evaluateCondition(transaction, conditions[0]);
-  for (let i = 1; i < conditions.length; i++) {
-    const op = conditions[i].logical_operator || 'AND';
-    const condResult = evaluateCondition(transaction, conditions[i]);
-    if (op === 'OR') result = result || condResult;
-    else result = result && condResult;
+/**
+ * Evaluate a rule against the fetched population according to its kind
+ * @param {Array} transactions - All fetched records for the entity
+ * @param {object} rule - The audit rule to evaluate
+ * @param {object|null} related - Records of related entities, keyed by entity name
+ * @param {object|null} [scope] - Period from resolvePeriod; related records are fetched for all dates
+ * @returns {Array} Flagged entries
+ */
+export function evaluateRuleKind(transactions, rule, related, scope = null) {
+  switch (rule.kind) {
+    case 'three_way_match':
+      return evaluateThreeWayMatch(related, rule, scope);
+    case 'aggregate':
+      return evaluateAggregateRule(transactions, rule);
+    case 'duplicate':
+      return detectDuplicates(transactions, rule);
+    case 'outlier':
+      return detectOutliers(transactions, rule);
+    default:
+      return evaluateTransactionRule(transactions, rule);
   }
-  return result;
 }
 
 /**
- * Fetch all records for a given entity from QuickBooks
- * @param {object} params
- * @param {string} params.realmId - The QuickBooks company ID
- * @param {string} params.accessToken - The OAuth access token
- * @param {string} params.entity - The entity type to fetch
- * @returns {Promise<Array>} Array of transaction records
+ * The entities a rule audits. Three-way match rules are always reported
+ * against Bill; rules saved without entities run against the requested one.
+ * @param {object} rule - The audit rule
+ * @param {string} fallbackEntity - Entity chosen for the run
+ * @returns {string[]} Entity names
  */
-async function fetchQuickBooksData({ realmId, accessToken, entity }) {
-  // URL encode the query parameter - QuickBooks API requires this
-  const query = encodeURIComponent(`SELECT * FROM ${entity}`);
-  const url = `https://sandbox-quickbooks.api.intuit.com/v3/company/${realmId}/query?query=${query}`;
-  
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    // Try to get more details from the error response
-    let errorDetails = `${response.status} ${response.statusText}`;
-    try {
-      const errorData = await response.json();
-      if (errorData.Fault) {
-        errorDetails = errorData.Fault.Error?.[0]?.Message || errorDetails;
-        if (errorData.Fault.Error?.[0]?.Detail) {
-          errorDetails += `: ${errorData.Fault.Error[0].Detail}`;
-        }
-      }
-    } catch (e) {
-      // If we can't parse the error response, use the status text
-    }
-    throw new Error(`QuickBooks API error: ${errorDetails}`);
+export function resolveRuleEntities(rule, fallbackEntity) {
+  if (rule.kind === 'three_way_match') {
+    return ['Bill'];
   }
+  return Array.isArray(rule.entities) && rule.entities.length > 0 ? rule.entities : [fallbackEntity];
+}
 
-  const data = await response.json();
-  
-  // Check for QuickBooks API errors in the response
-  if (data.Fault) {
-    const faultMessage = data.Fault.Error?.[0]?.Message || 'Unknown QuickBooks API error';
-    throw new Error(`QuickBooks API error: ${faultMessage}`);
+/**
+ * Validate the entities a rule is bound to
+ * @param {object} rule - The audit rule
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateRuleEntities(rule) {
+  if (rule.entities === undefined) {
+    return null;
   }
-  
-  const records = data.QueryResponse && data.QueryResponse[entity];
-  
-  if (!records) {
-    return [];
+  if (!Array.isArray(rule.entities) || rule.entities.length === 0) {
+    return 'entities must be a non-empty array of entity names';
   }
-
-  return records;
+  if (!rule.entities.every(entity => typeof entity === 'string' && /^[A-Za-z]+$/.test(entity))) {
+    return 'entities must contain QuickBooks entity names such as Invoice or Bill';
+  }
+  return null;
 }
 
 /**
- * Get complete QuickBooks data context for an entity
- * This function returns the full API response for better context understanding
- * @param {object} params
- * @param {string} params.realmId - The QuickBooks company ID
- * @param {string} params.accessToken - The OAuth access token
- * @param {string} params.entity - The entity type to fetch
- * @returns {Promise<object>} Complete QuickBooks API response
+ * Validate the kind-specific configuration of a rule
+ * @param {object} rule - The audit rule to validate
+ * @returns {string|null} An error message, or null if valid
  */
-export async function getQuickBooksDataContext({ realmId, accessToken, entity }) {
-  // URL encode the query parameter - QuickBooks API requires this
-  const query = encodeURIComponent(`SELECT * FROM ${entity}`);
-  const url = `https://sandbox-quickbooks.api.intuit.com/v3/company/${realmId}/query?query=${query}`;
-  
-  const response = await fetch(url, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    // Try to get more details from the error response
-    let errorDetails = `${response.status} ${response.statusText}`;
-    try {
-      const errorData = await response.json();
-      if (errorData.Fault) {
-        errorDetails = errorData.Fault.Error?.[0]?.Message || errorDetails;
-        if (errorData.Fault.Error?.[0]?.Detail) {
-          errorDetails += `: ${errorData.Fault.Error[0].Detail}`;
-        }
-      }
-    } catch (e) {
-      // If we can't parse the error response, use the status text
-    }
-    throw new Error(`QuickBooks API error: ${errorDetails}`);
-  }
+export function validateRuleConfig(rule) {
+  const riskError = validateRiskSettings(rule);
+  if (riskError) return riskError;
+
+  const entitiesError = validateRuleEntities(rule);
+  if (entitiesError) return entitiesError;
 
-  const data = await response.json();
-  
-  // Check for QuickBooks API errors in the response
-  if (data.Fault) {
-    const faultMessage = data.Fault.Error?.[0]?.Message || 'Unknown QuickBooks API error';
-    throw new Error(`QuickBooks API error: ${faultMessage}`);
+  switch (rule.kind) {
+    case undefined:
+    case 'transaction':
+      return null;
+    case 'aggregate':
+      return validateAggregateConfig(rule.aggregate);
+    case 'duplicate':
+      return validateDuplicateConfig(rule.duplicate);
+    case 'outlier':
+      return validateOutlierConfig(rule.outlier);
+    case 'three_way_match':
+      return validateThreeWayMatchConfig(rule.three_way_match);
+    default:
+      return `Unsupported rule kind: ${rule.kind}`;
   }
-  
-  return data;
+}
+
+/**
+ * Warn about every population a rule read that the record cap cut short
+ * @param {Array<object>} populations - Populations from the dataset cache
+ * @returns {Array<object>} Warnings, empty when every population was complete
+ */
+function truncationWarnings(populations) {
+  return populations
+    .filter(population => population && population.truncated)
+    .map(population => ({
+      code: 'population_truncated',
+      entity: population.entity,
+      fetched_count: population.fetched_count,
+      total_count: population.total_count,
+      max_records: population.max_records,
+      message: `Only ${population.fetched_count} of ${population.total_count} ${population.entity} records were checked (record cap ${population.max_records})`
+    }));
 }
 
 /**
  * Execute a rule against QuickBooks data
  * @param {object} rule - The audit rule to execute
  * @param {object} params - QuickBooks connection parameters
+ * @param {object|null} [params.scope] - Period from resolvePeriod limiting the audited TxnDates
+ * @param {number} [params.maxRecords] - Cap on records fetched per entity
+ * @param {object} [params.datasetCache] - Dataset cache shared across a run
+ * @param {object} [params.referenceCache] - Reference list cache shared across a run
  * @returns {Promise<object>} Execution results
  */
-export async function executeRule(rule, { realmId, accessToken, entity }) {
+export async function executeRule(rule, { realmId, accessToken, entity: requestedEntity, scope = null, maxRecords, datasetCache, referenceCache }) {
   try {
-    console.log(`🔍 Executing rule: ${rule.rule_type} against ${entity} data...`);
+    console.log(`🔍 Executing rule: ${rule.rule_type} against ${requestedEntity} data...`);
     
-    // Fetch data from QuickBooks
-    const transactions = await fetchQuickBooksData({ realmId, accessToken, entity });
+    // Fetch data from QuickBooks, or reuse what this run already loaded
+    const fetchStart = Date.now();
+    const datasets = datasetCache || createDatasetCache(params => fetchAllRecords({ ...params, maxRecords }));
+    const where = buildPeriodFilter(scope);
+    const { entity, transactions, related, sources } = await fetchRuleRecords(rule, { realmId, accessToken, entity: requestedEntity, where, scope }, datasets);
+
+    // Resolve $vendor, $customer and $account references used by the rule
+    const cache = referenceCache || createReferenceCache(name => datasets.load({ realmId, accessToken, entity: name }));
+    await attachReferences(transactions, rule, cache);
+    const fetchTime = Date.now() - fetchStart;
+
+    // The true population size, and a warning for any entity the record cap truncated
+    const population = datasets.population({ realmId, entity, where });
+    const populationCount = population ? population.total_count : transactions.length;
+    const entitiesRead = [
+      ...sources,
+      ...findReferenceNames(rule).filter(name => REFERENCE_ENTITIES[name]).map(name => ({ entity: REFERENCE_ENTITIES[name] }))
+    ];
+    const warnings = truncationWarnings(entitiesRead.map(source => datasets.population({ realmId, ...source })));
+    warnings.forEach(warning => console.warn(`⚠️  ${warning.message}`));
     
-    console.log(transactions)
-    if (transactions.length === 0) {
+    // Related entities can still yield findings (e.g. unmatched payments) without primary records
+    if (transactions.length === 0 && !related) {
       return {
         success: true,
         data: {
@@ -200,11 +314,20 @@ export async function executeRule(rule, { realmId, accessToken, entity }) {
           rule_type: rule.rule_type,
           entity: entity,
           total_transactions: 0,
+          population_count: populationCount,
+          scope: describeScope(scope),
           flagged_transactions: [],
+          suppressed_transactions: [],
+          warnings,
           execution_summary: {
             total_checked: 0,
             flagged_count: 0,
-            execution_time: 0
+            suppressed_count: 0,
+            population_count: populationCount,
+            truncated: warnings.length > 0,
+            execution_time: fetchTime,
+            fetch_time: fetchTime,
+            evaluation_time: 0
           }
         }
       };
@@ -213,81 +336,12 @@ export async function executeRule(rule, { realmId, accessToken, entity }) {
     console.log(`📊 Processing ${transactions.length} transactions...`);
     
     const startTime = Date.now();
-    const flaggedTransactions = [];
-
-    // Evaluate each transaction against the rule
-    for (const transaction of transactions) {
-        
-      const isFlagged = evaluateConditions(transaction, rule.conditions);
-      
-      if (isFlagged) {
-        flaggedTransactions.push({
-          id: transaction.Id,
-          transaction_data: transaction,
-          matched_conditions: rule.conditions.map(condition => {
-            const actualValue = getNestedValue(transaction, condition.field);
-            let flaggedFieldData = null;
-            
-            // Get the complete field data that was flagged
-            if (isLineField(condition.field)) {
-              // For Line fields, find the specific line item that matched
-              const lines = transaction.Line;
-              const lineFieldPath = condition.field.substring(5);
-              const matchingLineIndex = lines.findIndex(line => {
-                const fieldValue = getNestedValue(line, lineFieldPath);
-                return compare(fieldValue, condition.operator, condition.value);
-              });
-              
-              if (matchingLineIndex !== -1) {
-                flaggedFieldData = {
-                  line_index: matchingLineIndex,
-                  line_data: lines[matchingLineIndex],
-                  field_path: condition.field,
-                  field_value: actualValue
-                };
-              }
-            } else {
-              // For regular fields, get the parent object containing the field
-              const fieldParts = condition.field.split('.');
-              const parentPath = fieldParts.slice(0, -1).join('.');
-              const fieldName = fieldParts[fieldParts.length - 1];
-              
-              if (parentPath) {
-                const parentObject = getNestedValue(transaction, parentPath);
-                flaggedFieldData = {
-                  parent_path: parentPath,
-                  parent_object: parentObject,
-                  field_name: fieldName,
-                  field_value: actualValue
-                };
-              } else {
-                // Top-level field
-                flaggedFieldData = {
-                  field_name: condition.field,
-                  field_value: actualValue,
-                  parent_object: transaction
-                };
-              }
-            }
-            
-            return {
-              field: condition.field,
-              operator: condition.operator,
-              value: condition.value,
-              actual_value: actualValue,
-              flagged_field_data: flaggedFieldData
-            };
-          }),
-          action: rule.action,
-          reason: rule.reason,
-          flagged_at: new Date().toISOString()
-        });
-      }
-    }
+    // Exceptions reviewers have accepted are counted apart rather than flagged again
+    const { flagged: flaggedTransactions, suppressed } = applySuppressions(evaluateRuleKind(transactions, rule, related, scope), rule, realmId, entity);
 
-    const executionTime = Date.now() - startTime;
+    const evaluationTime = Date.now() - startTime;
 
-    console.log(`✅ Rule execution completed: ${flaggedTransactions.length} transactions flagged out of ${transactions.length} total`);
+    console.log(`✅ Rule execution completed: ${flaggedTransactions.length} transactions flagged out of ${transactions.length} total${suppressed.length > 0 ? `, ${suppressed.length} suppressed` : ''}`);
 
     return {
       success: true,
@@ -296,11 +350,23 @@ export async function executeRule(rule, { realmId, accessToken, entity }) {
         rule_type: rule.rule_type,
         entity: entity,
         total_transactions: transactions.length,
+        population_count: populationCount,
+        scope: describeScope(scope),
+        ...(related && {
+          related_records: Object.fromEntries(Object.entries(related).map(([name, records]) => [name, records.length]))
+        }),
         flagged_transactions: flaggedTransactions,
+        suppressed_transactions: suppressed,
+        warnings,
         execution_summary: {
           total_checked: transactions.length,
           flagged_count: flaggedTransactions.length,
-          execution_time: executionTime,
+          suppressed_count: suppressed.length,
+          population_count: populationCount,
+          truncated: warnings.length > 0,
+          execution_time: fetchTime + evaluationTime,
+          fetch_time: fetchTime,
+          evaluation_time: evaluationTime,
           flag_rate: transactions.length > 0 ? (flaggedTransactions.length / transactions.length * 100).toFixed(2) + '%' : '0%'
         }
       }
@@ -308,11 +374,7 @@ export async function executeRule(rule, { realmId, accessToken, entity }) {
 
   } catch (error) {
     console.error('❌ Rule execution failed:', error);
-    return {
-      success: false,
-      error: `Failed to execute rule: ${error.message}`,
-      data: null
-    };
+    return executionFailure(error, 'Failed to execute rule');
   }
 }
 
@@ -320,17 +382,30 @@ export async function executeRule(rule, { realmId, accessToken, entity }) {
  * Execute multiple rules against QuickBooks data
  * @param {Array} rules - Array of audit rules to execute
  * @param {object} params - QuickBooks connection parameters
+ * @param {object|null} [params.scope] - Period from resolvePeriod limiting the audited TxnDates
+ * @param {number} [params.maxRecords] - Cap on records fetched per entity
+ * @param {object} [params.datasetCache] - Dataset cache to evaluate against instead of a fresh one
  * @returns {Promise<object>} Combined execution results
  */
-export async function executeMultipleRules(rules, { realmId, accessToken, entity }) {
+export async function executeMultipleRules(rules, { realmId, accessToken, entity, scope = null, maxRecords, datasetCache: providedCache }) {
   try {
     console.log(`🚀 Executing ${rules.length} rules against ${entity} data...`);
     
     const results = [];
     const startTime = Date.now();
+    // Every entity and reference list is fetched once for the whole batch,
+    // and all rules evaluate against the same in-memory population
+    const datasetCache = providedCache || createDatasetCache(params => fetchAllRecords({ ...params, maxRecords }));
+    const referenceCache = createReferenceCache(name => datasetCache.load({ realmId, accessToken, entity: name }));
+    // A shared cache may already hold earlier batches' statistics
+    const statsBefore = { ...datasetCache.stats };
 
     for (const rule of rules) {
-      const result = await executeRule(rule, { realmId, accessToken, entity });
+      const result = await executeRule(rule, { realmId, accessToken, entity, scope, datasetCache, referenceCache });
+      if (BATCH_FATAL_ERRORS.includes(result.error_code)) {
+        console.error(`❌ Stopping batch: ${result.error}`);
+        return result;
+      }
       results.push(result);
     }
 
@@ -343,7 +418,13 @@ export async function executeMultipleRules(rules, { realmId, accessToken, entity
       failed_executions: results.filter(r => !r.success).length,
       total_transactions_checked: 0,
       total_transactions_flagged: 0,
-      total_execution_time: totalExecutionTime
+      total_transactions_suppressed: 0,
+      total_execution_time: totalExecutionTime,
+      total_fetch_time: datasetCache.stats.fetch_time - statsBefore.fetch_time,
+      total_evaluation_time: 0,
+      entities_fetched: datasetCache.stats.fetches - statsBefore.fetches,
+      dataset_cache_hits: datasetCache.stats.cache_hits - statsBefore.cache_hits,
+      truncated_populations: datasetCache.truncated().length
     };
 
     // Aggregate transaction counts
@@ -351,26 +432,120 @@ export async function executeMultipleRules(rules, { realmId, accessToken, entity
       if (result.success && result.data) {
         summary.total_transactions_checked += result.data.execution_summary.total_checked;
         summary.total_transactions_flagged += result.data.execution_summary.flagged_count;
+        summary.total_transactions_suppressed += result.data.execution_summary.suppressed_count;
+        summary.total_evaluation_time += result.data.execution_summary.evaluation_time;
       }
     });
 
+    // Merge hits per transaction into a prioritized queue
+    const riskQueue = buildRiskQueue(rules, results);
+    summary.unique_transactions_flagged = riskQueue.length;
+
     console.log(`✅ Batch execution completed: ${summary.successful_executions}/${summary.total_rules_executed} rules executed successfully`);
 
     return {
       success: true,
       data: {
         summary,
+        scope: describeScope(scope),
+        warnings: truncationWarnings(datasetCache.truncated()),
         individual_results: results,
+        risk_queue: riskQueue,
         executed_at: new Date().toISOString()
       }
     };
 
   } catch (error) {
     console.error('❌ Batch rule execution failed:', error);
+    return executionFailure(error, 'Failed to execute rules');
+  }
+} 
+
+/**
+ * Execute rules across every entity they are bound to in one run.
+ * Rules are grouped by entity and each group runs as a batch; all
+ * groups share one dataset cache, so reference lists are fetched once.
+ * @param {Array} rules - Array of audit rules to execute
+ * @param {object} params - QuickBooks connection parameters
+ * @param {string|string[]} params.entity - Entity, or entities, for rules not bound to any
+ * @param {object|null} [params.scope] - Period from resolvePeriod limiting the audited TxnDates
+ * @param {number} [params.maxRecords] - Cap on records fetched per entity
+ * @returns {Promise<object>} Combined execution results with a by_entity breakdown
+ */
+export async function executeRulesByEntity(rules, { realmId, accessToken, entity, scope = null, maxRecords }) {
+  try {
+    const groups = new Map();
+    const fallbackEntities = [].concat(entity);
+    for (const rule of rules) {
+      for (const name of new Set(fallbackEntities.flatMap(fallback => resolveRuleEntities(rule, fallback)))) {
+        if (!groups.has(name)) groups.set(name, []);
+        groups.get(name).push(rule);
+      }
+    }
+
+    console.log(`🚀 Executing ${rules.length} rules across ${[...groups.keys()].join(', ')}...`);
+
+    const startTime = Date.now();
+    const datasetCache = createDatasetCache(params => fetchAllRecords({ ...params, maxRecords }));
+    const byEntity = [];
+
+    for (const [name, entityRules] of groups) {
+      const result = await executeMultipleRules(entityRules, { realmId, accessToken, entity: name, scope, datasetCache });
+      if (!result.success) {
+        return result;
+      }
+      byEntity.push({ entity: name, ...result.data });
+    }
+
+    const totals = [
+      'total_rules_executed',
+      'successful_executions',
+      'failed_executions',
+      'total_transactions_checked',
+      'total_transactions_flagged',
+      'total_transactions_suppressed',
+      'unique_transactions_flagged',
+      'total_evaluation_time'
+    ];
+    const summary = Object.fromEntries(totals.map(key => [
+      key,
+      byEntity.reduce((total, group) => total + group.summary[key], 0)
+    ]));
+    Object.assign(summary, {
+      total_execution_time: Date.now() - startTime,
+      total_fetch_time: datasetCache.stats.fetch_time,
+      entities_fetched: datasetCache.stats.fetches,
+      dataset_cache_hits: datasetCache.stats.cache_hits,
+      truncated_populations: datasetCache.truncated().length,
+      entities: [...groups.keys()]
+    });
+
+    // Ids are only unique within an entity, so queue entries carry theirs
+    const riskQueue = byEntity
+      .flatMap(group => group.risk_queue.map(item => ({ entity: group.entity, ...item })))
+      .sort((a, b) => b.score - a.score || b.hit_count - a.hit_count);
+
+    console.log(`✅ Multi-entity execution completed: ${summary.successful_executions}/${summary.total_rules_executed} rule runs succeeded`);
+
     return {
-      success: false,
-      error: `Failed to execute rules: ${error.message}`,
-      data: null
+      success: true,
+      data: {
+        summary,
+        scope: describeScope(scope),
+        warnings: truncationWarnings(datasetCache.truncated()),
+        individual_results: byEntity.flatMap(group => group.individual_results),
+        risk_queue: riskQueue,
+        by_entity: byEntity.map(group => ({
+          entity: group.entity,
+          rule_ids: groups.get(group.entity).map(rule => rule.id),
+          summary: group.summary
+        })),
+        executed_at: new Date().toISOString()
+      }
     };
+
+  } catch (error) {
+    console.error('❌ Multi-entity execution failed:', error);
+    return executionFailure(error, 'Failed to execute rules');
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,121 @@
+import { executeRule, resolveRuleEntities } from './ruleExecutor.js';
+import { createDatasetCache } from './datasetCache.js';
+import { createReferenceCache } from './referenceData.js';
+import { fetchAllRecords } from './quickbooksQuery.js';
+import { implicatedTransactions } from './riskScoring.js';
+import { describeScope } from './periodScope.js';
+
+// Transactions a rule result implicates, keyed by entity and id, with the reason of the first finding
+function flaggedById(result, resultEntity) {
+  const flagged = new Map();
+  for (const entry of result?.data?.flagged_transactions || []) {
+    for (const { id, entity = resultEntity, data } of implicatedTransactions(entry)) {
+      const key = `${entity}:${id}`;
+      if (!flagged.has(key)) flagged.set(key, { entity, id: String(id), data, reason: entry.reason });
+    }
+  }
+  return flagged;
+}
+
+// The fields a reviewer needs to recognize a transaction in the diff
+function describeTransaction({ entity, id, data, reason }) {
+  return {
+    entity,
+    transaction_id: id,
+    doc_number: data?.DocNumber ?? null,
+    txn_date: data?.TxnDate ?? null,
+    amount: data?.TotalAmt ?? null,
+    name: data?.EntityRef?.name ?? data?.VendorRef?.name ?? data?.CustomerRef?.name ?? null,
+    reason
+  };
+}
+
+function describeVersion(rule, flaggedCount) {
+  return {
+    rule_id: rule.id || null,
+    rule_type: rule.rule_type,
+    version: rule.version ?? null,
+    flagged_count: flaggedCount
+  };
+}
+
+/**
+ * Dry-run a candidate rule and the version it would replace against the
+ * same dataset, without saving or activating anything. Both rules read
+ * one shared dataset cache, so they see identical records.
+ * @param {object} candidate - The rule that would become active
+ * @param {object|null} current - The active version it would replace, if any
+ * @param {object} params - QuickBooks connection parameters
+ * @param {string} params.entity - Entity for rules not bound to any
+ * @param {object|null} [params.scope] - Period from resolvePeriod limiting the audited TxnDates
+ * @param {number} [params.maxRecords] - Cap on records fetched per entity
+ * @returns {Promise<object>} Newly flagged, no longer flagged and still flagged transactions
+ */
+export async function previewRuleImpact(candidate, current, { realmId, accessToken, entity, scope = null, maxRecords }) {
+  const candidateEntities = resolveRuleEntities(candidate, entity);
+  const currentEntities = current ? resolveRuleEntities(current, entity) : [];
+  const entities = [...new Set([...candidateEntities, ...currentEntities])];
+
+  console.log(`🔎 Previewing impact of ${candidate.rule_type} on ${entities.join(', ')}...`);
+
+  const datasetCache = createDatasetCache(params => fetchAllRecords({ ...params, maxRecords }));
+  const referenceCache = createReferenceCache(name => datasetCache.load({ realmId, accessToken, entity: name }));
+  const runOn = async (rule, ruleEntities, name) => {
+    if (!ruleEntities.includes(name)) return null;
+    return executeRule(rule, { realmId, accessToken, entity: name, scope, datasetCache, referenceCache });
+  };
+
+  const diff = { newly_flagged: [], no_longer_flagged: [], still_flagged: [] };
+  const warnings = [];
+  let candidateFlagged = 0;
+  let currentFlagged = 0;
+  let checked = 0;
+
+  for (const name of entities) {
+    const candidateResult = await runOn(candidate, candidateEntities, name);
+    if (candidateResult && !candidateResult.success) {
+      return candidateResult;
+    }
+    const currentResult = current ? await runOn(current, currentEntities, name) : null;
+    if (currentResult && !currentResult.success) {
+      return currentResult;
+    }
+
+    const after = flaggedById(candidateResult, name);
+    const before = flaggedById(currentResult, name);
+    candidateFlagged += after.size;
+    currentFlagged += before.size;
+    checked += candidateResult?.data.total_transactions ?? currentResult.data.total_transactions;
+    warnings.push(...(candidateResult?.data.warnings || []), ...(currentResult?.data.warnings || []));
+
+    for (const [key, hit] of after) {
+      const bucket = before.has(key) ? diff.still_flagged : diff.newly_flagged;
+      bucket.push(describeTransaction(hit));
+    }
+    for (const [key, hit] of before) {
+      if (!after.has(key)) diff.no_longer_flagged.push(describeTransaction(hit));
+    }
+  }
+
+  console.log(`✅ Impact preview: +${diff.newly_flagged.length} / -${diff.no_longer_flagged.length} / =${diff.still_flagged.length}`);
+
+  return {
+    success: true,
+    data: {
+      candidate: describeVersion(candidate, candidateFlagged),
+      current: current ? describeVersion(current, currentFlagged) : null,
+      entities,
+      scope: describeScope(scope),
+      summary: {
+        transactions_checked: checked,
+        newly_flagged: diff.newly_flagged.length,
+        no_longer_flagged: diff.no_longer_flagged.length,
+        still_flagged: diff.still_flagged.length
+      },
+      ...diff,
+      // The same truncated population is reported by both runs
+      warnings: [...new Map(warnings.map(warning => [warning.message, warning])).values()],
+      previewed_at: new Date().toISOString()
+    }
+  };
+}
@@ -0,0 +1,286 @@
+import { isConditionGroup } from './conditionEvaluator.js';
+import { OPERATORS, isKnownOperator, parseDateValue } from './operatorCatalog.js';
+import { validateRuleConfig, validateRuleEntities } from './ruleExecutor.js';
+import { REFERENCE_ENTITIES, parseReferenceField } from './referenceData.js';
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Normalize a condition field to its schema path: array indices are
+ * dropped, so "Line.0.Amount" is checked as "Line.Amount"
+ */
+function toSchemaPath(field) {
+  return field.split('.').filter(segment => !/^\d+$/.test(segment)).join('.');
+}
+
+/**
+ * Resolve the type of a field from the schema. Paths that only prefix
+ * other fields (e.g. "EntityRef") are objects.
+ * @returns {string|null} Field type, or null if the field is unknown
+ */
+function resolveFieldType(schema, field) {
+  const path = toSchemaPath(field);
+  if (schema[path]) return schema[path];
+  const prefix = `${path}.`;
+  return Object.keys(schema).some(known => known.startsWith(prefix)) ? 'object' : null;
+}
+
+// Levenshtein edit distance between two strings
+function editDistance(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggest schema fields close to an unknown field. A known path scores
+ * best when its last segment equals the field, then when either contains
+ * the other, then by edit distance.
+ * @param {Object<string, string>} schema - Field path to type
+ * @param {string} field - The unknown field
+ * @returns {string[]} Up to three suggested field paths
+ */
+export function suggestFields(schema, field) {
+  const wanted = toSchemaPath(field).toLowerCase();
+  const wantedLeaf = wanted.split('.').pop();
+
+  return Object.keys(schema)
+    .map(path => {
+      const candidate = path.toLowerCase();
+      const leaf = candidate.split('.').pop();
+      let score;
+      if (candidate === wanted || leaf === wantedLeaf) {
+        score = 0;
+      } else if (leaf.includes(wantedLeaf) || wantedLeaf.includes(leaf)) {
+        score = 1;
+      } else {
+        score = 2 + editDistance(wantedLeaf, leaf) / Math.max(wantedLeaf.length, leaf.length);
+      }
+      return { path, score };
+    })
+    .filter(candidate => candidate.score < 2.5)
+    .sort((a, b) => a.score - b.score || a.path.length - b.path.length)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(candidate => candidate.path);
+}
+
+// Whether an operator makes sense on a field of the given type
+function isOperatorCompatible(operator, fieldType) {
+  const { field_types: fieldTypes } = OPERATORS[operator];
+  if (fieldTypes.includes(fieldType)) return true;
+  // Dates are ISO strings, so text operators still apply to them
+  return fieldType === 'date' && fieldTypes.includes('string');
+}
+
+const isNumeric = value =>
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+
+/**
+ * Check a condition value against its operator's value_type.
+ * Ordering operators on date fields take dates instead of numbers.
+ * @returns {string|null} Description of the expected value, or null if valid
+ */
+function checkValue(operator, value, fieldType) {
+  const isOrderable = value => isNumeric(value) || (fieldType === 'date' && parseDateValue(value) !== null);
+
+  switch (OPERATORS[operator].value_type) {
+    case 'number':
+      return isOrderable(value) ? null : fieldType === 'date' ? 'a date or number' : 'a number';
+    case 'range':
+      return Array.isArray(value) && value.length === 2 && value.every(isOrderable)
+        ? null
+        : 'an array of [min, max]';
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number' ? null : 'a string';
+    case 'array':
+      return Array.isArray(value) ? null : 'an array of values';
+    case 'days':
+      return isNumeric(value) && Number(value) > 0 ? null : 'a positive number of days';
+    case 'weekdays':
+      return Array.isArray(value) && value.length > 0 ? null : 'an array of weekdays';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check that a field exists in the schema. The schema is inferred from a
+ * sample of records, so a field missing from it may just be absent from
+ * that sample: it is recorded as an unknown_field warning with
+ * suggestions rather than an error. Fields tested by operators that
+ * handle missing values (is_empty, exists) are expected to be absent from
+ * some records, so they aren't warned about at all.
+ * @returns {string|null} The field type, or null if unknown or unchecked
+ */
+function checkField(field, path, schema, { errors, warnings }, mayBeMissing = false) {
+  const reference = parseReferenceField(field);
+  if (reference && !REFERENCE_ENTITIES[reference.name]) {
+    errors.push({
+      path,
+      field,
+      code: 'unknown_reference',
+      message: `Unknown reference "$${reference.name}"`,
+      suggestions: Object.keys(REFERENCE_ENTITIES).map(name => `$${name}`)
+    });
+    return null;
+  }
+
+  if (!schema) return null;
+  // References whose list entity schema wasn't loaded can't be checked
+  if (reference && !Object.keys(schema).some(known => known.startsWith(`$${reference.name}.`))) {
+    return null;
+  }
+
+  const fieldType = resolveFieldType(schema, field);
+  if (fieldType || mayBeMissing) return fieldType;
+
+  const suggestions = suggestFields(schema, field);
+  warnings.push({
+    path,
+    field,
+    code: 'unknown_field',
+    message: `Field "${field}" was not found in the sampled records` +
+      (suggestions.length > 0 ? `. Did you mean ${suggestions.map(s => `"${s}"`).join(', ')}?` : ''),
+    suggestions
+  });
+  return null;
+}
+
+// Validate one leaf condition
+function validateCondition(condition, path, schema, issues) {
+  const { errors } = issues;
+  const { field, operator, value } = condition;
+
+  if (typeof field !== 'string' || field.trim() === '') {
+    errors.push({ path, code: 'missing_field', message: 'Condition is missing a field', suggestions: [] });
+    return;
+  }
+  if (!isKnownOperator(operator)) {
+    errors.push({
+      path,
+      field,
+      code: 'unknown_operator',
+      message: `Unsupported operator "${operator}"`,
+      suggestions: Object.keys(OPERATORS)
+    });
+    return;
+  }
+
+  const fieldType = checkField(field, path, schema, issues, OPERATORS[operator].handles_missing);
+
+  if (fieldType && !isOperatorCompatible(operator, fieldType)) {
+    errors.push({
+      path,
+      field,
+      code: 'incompatible_operator',
+      message: `Operator "${operator}" cannot be used on ${fieldType} field "${field}"`,
+      suggestions: Object.keys(OPERATORS).filter(name => isOperatorCompatible(name, fieldType))
+    });
+    return;
+  }
+
+  const expected = checkValue(operator, value, fieldType);
+  if (expected) {
+    errors.push({
+      path,
+      field,
+      code: 'invalid_value',
+      message: `Operator "${operator}" on "${field}" expects ${expected}, got ${JSON.stringify(value)}`,
+      suggestions: []
+    });
+  }
+}
+
+// Walk a condition tree, validating every leaf and group
+function validateConditionNodes(conditions, path, schema, issues) {
+  const { errors } = issues;
+  (conditions || []).forEach((node, index) => {
+    const nodePath = `${path}[${index}]`;
+    if (!isConditionGroup(node)) {
+      validateCondition(node || {}, nodePath, schema, issues);
+      return;
+    }
+    if (node.logic !== undefined && !['AND', 'OR'].includes(node.logic)) {
+      errors.push({ path: nodePath, code: 'invalid_group', message: `Unsupported group logic "${node.logic}"`, suggestions: ['AND', 'OR'] });
+    }
+    if (node.scope !== undefined && node.scope !== 'line') {
+      errors.push({ path: nodePath, code: 'invalid_group', message: `Unsupported group scope "${node.scope}"`, suggestions: ['line'] });
+    }
+    if (node.conditions.length === 0) {
+      errors.push({ path: nodePath, code: 'invalid_group', message: 'Condition groups must not be empty', suggestions: [] });
+    }
+    validateConditionNodes(node.conditions, `${nodePath}.conditions`, schema, issues);
+  });
+}
+
+// Check the fields referenced by a kind-specific configuration
+function validateConfigFields(rule, schema, issues) {
+  if (rule.kind === 'aggregate' && rule.aggregate) {
+    const { group_by: groupBy = [], having = [], window } = rule.aggregate;
+    groupBy.forEach((entry, index) => {
+      checkField(typeof entry === 'string' ? entry : entry.field, `aggregate.group_by[${index}]`, schema, issues);
+    });
+    having.forEach((condition, index) => {
+      if (condition.field) checkField(condition.field, `aggregate.having[${index}]`, schema, issues);
+    });
+    if (window?.field) checkField(window.field, 'aggregate.window', schema, issues);
+  }
+
+  if (rule.kind === 'outlier' && rule.outlier) {
+    if (rule.outlier.group_by) checkField(rule.outlier.group_by, 'outlier.group_by', schema, issues);
+    if (rule.outlier.field) checkField(rule.outlier.field, 'outlier.field', schema, issues);
+  }
+
+  if (rule.kind === 'duplicate' && rule.duplicate?.keys) {
+    for (const [name, setting] of Object.entries(rule.duplicate.keys)) {
+      if (!setting || setting === true) continue;
+      if (setting.field) checkField(setting.field, `duplicate.keys.${name}`, schema, issues);
+      (setting.fields || []).forEach((field, index) => {
+        checkField(field, `duplicate.keys.${name}.fields[${index}]`, schema, issues);
+      });
+    }
+  }
+}
+
+/**
+ * Validate a rule before it is saved or returned from parsing.
+ * Checks the condition tree's structure, every operator/value pair and,
+ * when a schema is given, that every referenced field suits its
+ * operator. Fields the schema doesn't know are only warned about, since
+ * the schema comes from a sample. Reference fields ($vendor.*, etc.) are
+ * checked when the schema includes that reference's prefixed paths.
+ * @param {object} rule - The parsed rule
+ * @param {Object<string, string>|null} schema - Field path to type, from extractFieldSchema
+ * @returns {{valid: boolean, errors: Array<{path: string, field?: string, code: string, message: string, suggestions: string[]}>, warnings: Array<object>}}
+ */
+export function validateRule(rule, schema = null) {
+  const errors = [];
+  const warnings = [];
+
+  if (!rule || !Array.isArray(rule.conditions)) {
+    errors.push({ path: 'conditions', code: 'invalid_conditions', message: 'Rule conditions must be an array', suggestions: [] });
+    return { valid: false, errors, warnings };
+  }
+
+  const configError = validateRuleConfig(rule);
+  if (configError) {
+    const path = configError === validateRuleEntities(rule) ? 'entities' : rule.kind || 'kind';
+    errors.push({ path, code: 'invalid_config', message: configError, suggestions: [] });
+  }
+
+  validateConditionNodes(rule.conditions, 'conditions', schema, { errors, warnings });
+  validateConfigFields(rule, schema, { errors, warnings });
+
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateRule, suggestFields } from './ruleValidator.js';
+
+const schema = {
+  Id: 'string',
+  TotalAmt: 'number',
+  TxnDate: 'date',
+  'EntityRef.name': 'string',
+  'Line.Amount': 'number',
+  '$vendor.DisplayName': 'string'
+};
+
+const rule = (conditions, extra = {}) => ({ rule_type: 'test', conditions, action: 'review', reason: 'test', ...extra });
+
+test('a rule matching the schema is valid with no warnings', () => {
+  const result = validateRule(rule([
+    { field: 'TotalAmt', operator: 'gt', value: 1000 },
+    { field: 'Line.0.Amount', operator: 'lt', value: 5 },
+    { field: '$vendor.DisplayName', operator: 'contains', value: 'Acme' }
+  ]), schema);
+  assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+});
+
+test('fields missing from the sample are warnings, with suggestions', () => {
+  const result = validateRule(rule([{ field: 'TotalAmount', operator: 'gt', value: 1000 }]), schema);
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.warnings.length, 1);
+  assert.equal(result.warnings[0].code, 'unknown_field');
+  assert.equal(result.warnings[0].path, 'conditions[0]');
+  assert.deepEqual(result.warnings[0].suggestions, ['Line.Amount', 'TotalAmt']);
+});
+
+test('operators that handle missing values skip the field check', () => {
+  const result = validateRule(rule([{ field: 'PrivateNote', operator: 'is_empty', value: true }]), schema);
+  assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+  assert.deepEqual(validateRule(rule([{ field: '$employee.Notes', operator: 'exists', value: true }]), schema).errors.map(error => error.code), ['unknown_reference']);
+});
+
+test('no schema means fields go unchecked', () => {
+  const result = validateRule(rule([{ field: 'Anything', operator: 'gt', value: 1 }]), null);
+  assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+});
+
+test('operators and values must suit the field type', () => {
+  const { valid, errors } = validateRule(rule([
+    { field: 'EntityRef.name', operator: 'gt', value: 10 },
+    { field: 'TotalAmt', operator: 'between', value: 5 },
+    { field: 'TotalAmt', operator: 'bigger_than', value: 5 },
+    { operator: 'eq', value: 5 }
+  ]), schema);
+  assert.equal(valid, false);
+  assert.deepEqual(errors.map(error => error.code), ['incompatible_operator', 'invalid_value', 'unknown_operator', 'missing_field']);
+});
+
+test('checks config fields and group structure', () => {
+  const outlier = rule([], { kind: 'outlier', outlier: { group_by: 'Vendor', field: 'TotalAmt' } });
+  assert.deepEqual(validateRule(outlier, schema).warnings.map(warning => warning.path), ['outlier.group_by']);
+  const grouped = rule([{ logic: 'XOR', conditions: [] }]);
+  assert.deepEqual(validateRule(grouped).errors.map(error => error.message), ['Unsupported group logic "XOR"', 'Condition groups must not be empty']);
+  assert.equal(validateRule({ conditions: 'TotalAmt > 5' }).errors[0].code, 'invalid_conditions');
+});
+
+test('suggests fields by leaf name and edit distance', () => {
+  assert.deepEqual(suggestFields(schema, 'name'), ['EntityRef.name', '$vendor.DisplayName']);
+  assert.deepEqual(suggestFields(schema, 'TxnDat'), ['TxnDate']);
+  assert.deepEqual(suggestFields(schema, 'Completely'), []);
+});
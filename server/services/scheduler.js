@@ -0,0 +1,331 @@
+import { v4 as uuidv4 } from 'uuid';
+import { executeRulesByEntity, resolveRuleEntities } from './ruleExecutor.js';
+import { getAccessToken } from './oauthTokenManager.js';
+import { recordFindings } from './findingsStore.js';
+import { validatePeriod, resolvePeriod } from './periodScope.js';
+import { validateMaxRecords } from './quickbooksQuery.js';
+import { validateCronExpression, nextCronRun } from './cronExpression.js';
+
+// Runs kept per schedule, newest first; older ones are dropped
+export const MAX_RUNS_PER_SCHEDULE = 20;
+
+// How often due schedules are looked for
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// In-memory storage for demo purposes, like the rules store
+const schedules = new Map();
+const runsBySchedule = new Map();
+// Schedules with a run in progress, so a slow run isn't started twice
+const running = new Set();
+
+let loadRules = () => [];
+let timer = null;
+let checking = false;
+
+/**
+ * Validate a schedule
+ * @param {object} schedule - { name, cron, realm_id, entities, rule_types?, period?, max_records?, enabled? }
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateSchedule(schedule) {
+  const { name, cron, realm_id: realmId, entities, rule_types: ruleTypes, period, max_records: maxRecords, enabled } = schedule || {};
+  if (typeof name !== 'string' || name.trim() === '') {
+    return 'name is required';
+  }
+  if (!realmId) {
+    return 'realm_id is required';
+  }
+  const cronError = validateCronExpression(cron);
+  if (cronError) {
+    return cronError;
+  }
+  if (!Array.isArray(entities) || entities.length === 0
+    || !entities.every(entity => typeof entity === 'string' && /^[A-Za-z]+$/.test(entity))) {
+    return 'entities must be a non-empty array of QuickBooks entity names such as Expense or Bill';
+  }
+  if (ruleTypes !== undefined && ruleTypes !== null
+    && (!Array.isArray(ruleTypes) || ruleTypes.length === 0 || !ruleTypes.every(type => typeof type === 'string' && type))) {
+    return 'rule_types must be a non-empty array of rule types, or null to run every active rule';
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  return validatePeriod(period) || validateMaxRecords(maxRecords ?? undefined);
+}
+
+// The first run of an enabled schedule after now
+function nextRunAt(schedule, now = new Date()) {
+  return schedule.enabled ? nextCronRun(schedule.cron, now)?.toISOString() ?? null : null;
+}
+
+/**
+ * Save a schedule
+ * @param {object} schedule - A schedule that passed validateSchedule
+ * @param {string} [createdBy='user'] - Who added it
+ * @returns {object} The stored schedule
+ */
+export function createSchedule(schedule, createdBy = 'user') {
+  const now = new Date().toISOString();
+  const stored = {
+    id: uuidv4(),
+    name: schedule.name.trim(),
+    cron: schedule.cron.trim(),
+    realm_id: schedule.realm_id,
+    entities: schedule.entities,
+    rule_types: schedule.rule_types ?? null,
+    period: schedule.period ?? null,
+    max_records: schedule.max_records ?? null,
+    enabled: schedule.enabled ?? true,
+    next_run_at: null,
+    last_run_at: null,
+    last_run_status: null,
+    created_by: createdBy,
+    created_at: now,
+    updated_at: now
+  };
+  stored.next_run_at = nextRunAt(stored);
+  schedules.set(stored.id, stored);
+  runsBySchedule.set(stored.id, []);
+  return stored;
+}
+
+/**
+ * Apply changes to a schedule. Changing the cron expression or
+ * re-enabling the schedule moves its next run.
+ * @param {object} schedule - The stored schedule
+ * @param {object} updates - Fields to change; the result must pass validateSchedule
+ * @returns {object} The updated schedule
+ */
+export function updateSchedule(schedule, updates) {
+  for (const field of ['name', 'cron', 'entities', 'rule_types', 'period', 'max_records', 'enabled']) {
+    if (updates[field] !== undefined) {
+      schedule[field] = typeof updates[field] === 'string' ? updates[field].trim() : updates[field];
+    }
+  }
+  schedule.next_run_at = nextRunAt(schedule);
+  schedule.updated_at = new Date().toISOString();
+  return schedule;
+}
+
+/**
+ * Delete a schedule and its run history
+ * @param {string} id - The schedule id
+ * @returns {boolean} True if it existed
+ */
+export function deleteSchedule(id) {
+  runsBySchedule.delete(id);
+  return schedules.delete(id);
+}
+
+/**
+ * Get a schedule by id
+ * @param {string} id - The schedule id
+ * @returns {object|null} The schedule, or null if unknown
+ */
+export function getSchedule(id) {
+  return schedules.get(id) || null;
+}
+
+/**
+ * List schedules, soonest to run first
+ * @param {string} [realmId] - Only schedules of this company
+ * @returns {Array} Schedules
+ */
+export function listSchedules(realmId) {
+  return [...schedules.values()]
+    .filter(schedule => !realmId || schedule.realm_id === realmId)
+    .sort((a, b) => {
+      // Disabled schedules, with no next run, go last
+      if (!a.next_run_at || !b.next_run_at) return (a.next_run_at ? 0 : 1) - (b.next_run_at ? 0 : 1);
+      return a.next_run_at.localeCompare(b.next_run_at);
+    });
+}
+
+/**
+ * List the runs of a schedule, newest first, without their full results
+ * @param {string} scheduleId - The schedule id
+ * @returns {Array} Runs
+ */
+export function listScheduleRuns(scheduleId) {
+  return (runsBySchedule.get(scheduleId) || []).map(({ result, ...run }) => run);
+}
+
+/**
+ * Get a run of a schedule with its full execution results
+ * @param {string} scheduleId - The schedule id
+ * @param {string} runId - The run id
+ * @returns {object|null} The run, or null if unknown
+ */
+export function getScheduleRun(scheduleId, runId) {
+  return (runsBySchedule.get(scheduleId) || []).find(run => run.id === runId) || null;
+}
+
+function recordRun(run) {
+  const runs = runsBySchedule.get(run.schedule_id) || [];
+  runs.unshift(run);
+  runs.splice(MAX_RUNS_PER_SCHEDULE);
+  runsBySchedule.set(run.schedule_id, runs);
+}
+
+function finishRun(schedule, run, fields) {
+  Object.assign(run, fields, { finished_at: new Date().toISOString() });
+  schedule.last_run_at = run.started_at;
+  schedule.last_run_status = run.status;
+  return run;
+}
+
+/**
+ * Limit a rule to the schedule's entities. Rules bound to entities of
+ * their own run only on those the schedule covers; unbound rules run on
+ * every schedule entity.
+ * @returns {object|null} The rule to run, or null if it runs on none of them
+ */
+function scopeRuleToSchedule(rule, schedule) {
+  const entities = [...new Set(schedule.entities.flatMap(entity => resolveRuleEntities(rule, entity)))]
+    .filter(entity => schedule.entities.includes(entity));
+  if (entities.length === 0) return null;
+  return Array.isArray(rule.entities) && rule.kind !== 'three_way_match' ? { ...rule, entities } : rule;
+}
+
+// The active rules a schedule runs, and a warning for each selected type that can't run
+function selectRules(schedule) {
+  const active = loadRules().filter(rule => rule.is_active);
+  if (!schedule.rule_types) {
+    return { rules: active.map(rule => scopeRuleToSchedule(rule, schedule)).filter(Boolean), warnings: [] };
+  }
+  const rules = [];
+  const warnings = [];
+  for (const ruleType of schedule.rule_types) {
+    const rule = active.find(candidate => candidate.rule_type === ruleType);
+    const scoped = rule && scopeRuleToSchedule(rule, schedule);
+    if (scoped) {
+      rules.push(scoped);
+    } else if (rule) {
+      warnings.push({
+        type: 'entity_mismatch',
+        rule_type: ruleType,
+        message: `Rule ${ruleType} runs on ${resolveRuleEntities(rule, null).join(', ')}, which this schedule doesn't cover; it was not run`
+      });
+    } else {
+      warnings.push({ type: 'missing_rule', rule_type: ruleType, message: `No active rule of type ${ruleType}; it was not run` });
+    }
+  }
+  return { rules, warnings };
+}
+
+/**
+ * Run a schedule now with the realm's stored OAuth token, recording
+ * the results and any findings. A schedule whose previous run is
+ * still in progress is skipped rather than run twice.
+ * @param {object} schedule - The stored schedule
+ * @param {string} [trigger='cron'] - What started the run: cron or manual
+ * @returns {Promise<object>} The recorded run
+ */
+export async function runSchedule(schedule, trigger = 'cron') {
+  const run = {
+    id: uuidv4(),
+    schedule_id: schedule.id,
+    realm_id: schedule.realm_id,
+    trigger,
+    status: 'running',
+    started_at: new Date().toISOString(),
+    finished_at: null,
+    rule_ids: [],
+    warnings: [],
+    summary: null,
+    findings: null,
+    error: null,
+    result: null
+  };
+  recordRun(run);
+
+  if (running.has(schedule.id)) {
+    return finishRun(schedule, run, { status: 'skipped', error: 'The previous run of this schedule is still in progress' });
+  }
+
+  const { rules, warnings } = selectRules(schedule);
+  run.rule_ids = rules.map(rule => rule.id);
+  run.warnings = warnings;
+  if (rules.length === 0) {
+    return finishRun(schedule, run, { status: 'skipped', error: 'No active rules to run' });
+  }
+
+  running.add(schedule.id);
+  try {
+    console.log(`⏰ Running schedule "${schedule.name}" (${trigger}): ${rules.length} rules on ${schedule.entities.join(', ')}`);
+
+    const { accessToken } = await getAccessToken(schedule.realm_id);
+    const result = await executeRulesByEntity(rules, {
+      realmId: schedule.realm_id,
+      accessToken,
+      entity: schedule.entities,
+      scope: schedule.period ? resolvePeriod(schedule.period) : null,
+      maxRecords: schedule.max_records ?? undefined
+    });
+
+    if (!result.success) {
+      console.error(`❌ Schedule "${schedule.name}" failed: ${result.error}`);
+      return finishRun(schedule, run, { status: 'failed', error: result.error, error_code: result.error_code });
+    }
+
+    const findings = recordFindings(schedule.realm_id, result.data.individual_results);
+    console.log(`✅ Schedule "${schedule.name}" completed: ${result.data.summary.total_transactions_flagged} transactions flagged`);
+    return finishRun(schedule, run, {
+      status: result.data.summary.failed_executions > 0 ? 'partial' : 'succeeded',
+      warnings: [...warnings, ...result.data.warnings],
+      summary: result.data.summary,
+      findings,
+      result: result.data
+    });
+
+  } catch (error) {
+    console.error(`❌ Schedule "${schedule.name}" failed:`, error.message);
+    return finishRun(schedule, run, { status: 'failed', error: error.message });
+  } finally {
+    running.delete(schedule.id);
+  }
+}
+
+/**
+ * Run every enabled schedule whose next run has come, one at a time
+ * @param {Date} [now] - The current time
+ * @returns {Promise<Array>} The runs started
+ */
+export async function runDueSchedules(now = new Date()) {
+  const due = [...schedules.values()]
+    .filter(schedule => schedule.enabled && schedule.next_run_at && schedule.next_run_at <= now.toISOString());
+  const started = [];
+  for (const schedule of due) {
+    // Advance first, so a run longer than the interval isn't picked up again
+    schedule.next_run_at = nextRunAt(schedule, now);
+    started.push(await runSchedule(schedule, 'cron'));
+  }
+  return started;
+}
+
+/**
+ * Start checking for due schedules
+ * @param {object} options
+ * @param {Function} options.getRules - Returns the stored rules
+ */
+export function startScheduler({ getRules }) {
+  loadRules = getRules;
+  if (timer) return;
+  timer = setInterval(() => {
+    if (checking) return;
+    checking = true;
+    runDueSchedules()
+      .catch(error => console.error('❌ Scheduler check failed:', error))
+      .finally(() => { checking = false; });
+  }, CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+}
+
+/**
+ * Stop checking for due schedules
+ */
+export function stopScheduler() {
+  clearInterval(timer);
+  timer = null;
+}
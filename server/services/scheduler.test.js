@@ -0,0 +1,78 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockQuickBooks } from '../mock/testing.js';
+import { createSchedule, runSchedule, runDueSchedules, listScheduleRuns, startScheduler, stopScheduler } from './scheduler.js';
+
+const realmId = '9130350000000001';
+
+const rule = (id, extra = {}) => ({
+  id,
+  rule_type: id,
+  is_active: true,
+  conditions: [{ field: 'TotalAmt', operator: 'gt', value: 1000 }],
+  action: 'review',
+  reason: id,
+  ...extra
+});
+
+const rules = [
+  rule('unbound'),
+  rule('expense_and_invoice', { entities: ['Expense', 'Invoice'] }),
+  rule('invoice_only', { entities: ['Invoice'] }),
+  rule('three_way', { kind: 'three_way_match', conditions: [] }),
+  rule('retired', { is_active: false })
+];
+
+const schedule = (fields = {}) => createSchedule({ name: 'Nightly', cron: '0 2 * * *', realm_id: realmId, entities: ['Expense'], ...fields });
+
+let quickbooks;
+before(async () => {
+  // Keep the run's progress logging out of the test output
+  mock.method(console, 'log', () => {});
+  quickbooks = await startMockQuickBooks();
+  startScheduler({ getRules: () => rules });
+});
+after(async () => {
+  stopScheduler();
+  await quickbooks.close();
+});
+
+test('runs only on the schedule entities', async () => {
+  const run = await runSchedule(schedule(), 'manual');
+  assert.equal(run.status, 'succeeded');
+  assert.deepEqual(run.rule_ids, ['unbound', 'expense_and_invoice']);
+  assert.deepEqual(run.result.by_entity.map(group => [group.entity, group.rule_ids]), [['Expense', ['unbound', 'expense_and_invoice']]]);
+  assert.ok(run.summary.total_transactions_flagged > 0);
+  assert.equal(run.findings.created, run.summary.total_transactions_flagged);
+});
+
+test('selected rules that run elsewhere are reported rather than run', async () => {
+  const run = await runSchedule(schedule({ rule_types: ['invoice_only', 'three_way', 'missing'] }), 'manual');
+  assert.equal(run.status, 'skipped');
+  assert.equal(run.error, 'No active rules to run');
+  assert.deepEqual(run.warnings.map(warning => [warning.type, warning.rule_type]), [
+    ['entity_mismatch', 'invoice_only'],
+    ['entity_mismatch', 'three_way'],
+    ['missing_rule', 'missing']
+  ]);
+
+  const billRun = await runSchedule(schedule({ entities: ['Bill'], rule_types: ['three_way'] }), 'manual');
+  assert.equal(billRun.status, 'succeeded');
+  assert.deepEqual(billRun.result.summary.entities, ['Bill']);
+});
+
+test('a schedule with no token fails its run', async () => {
+  const run = await runSchedule(schedule({ realm_id: 'unconnected' }), 'manual');
+  assert.equal(run.status, 'failed');
+  assert.match(run.error, /No OAuth tokens found/);
+});
+
+test('due schedules run once and move to their next run', async () => {
+  const due = schedule({ cron: '*/5 * * * *' });
+  const now = new Date(Date.parse(due.next_run_at) + 1000);
+  const [run] = await runDueSchedules(now);
+  assert.equal(run.schedule_id, due.id);
+  assert.equal(run.trigger, 'cron');
+  assert.ok(due.next_run_at > now.toISOString());
+  assert.equal(listScheduleRuns(due.id).length, 1);
+});
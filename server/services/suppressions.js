@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import { evaluateCondition } from './conditionEvaluator.js';
+import { isKnownOperator } from './operatorCatalog.js';
+import { implicatedTransactions } from './riskScoring.js';
+
+// What a suppression matches within its rule
+export const SUPPRESSION_SCOPES = ['transaction', 'vendor', 'pattern'];
+
+// In-memory storage for demo purposes, like the rules store
+const suppressions = new Map();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Validate a new suppression
+ * @param {object} suppression - { realm_id, rule_type, scope, transaction_id (and optional entity) | vendor_id | pattern, expires_on, justification }
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateSuppression(suppression) {
+  const { realm_id: realmId, rule_type: ruleType, scope, expires_on: expiresOn, justification } = suppression || {};
+  if (!realmId || !ruleType) {
+    return 'realm_id and rule_type are required';
+  }
+  if (!SUPPRESSION_SCOPES.includes(scope)) {
+    return `scope must be one of ${SUPPRESSION_SCOPES.join(', ')}`;
+  }
+  if (scope === 'transaction' && !suppression.transaction_id) {
+    return 'transaction_id is required for a transaction suppression';
+  }
+  if (scope === 'transaction' && suppression.entity !== undefined && suppression.entity !== null
+    && !(typeof suppression.entity === 'string' && /^[A-Za-z]+$/.test(suppression.entity))) {
+    return 'entity must be a QuickBooks entity name such as Bill';
+  }
+  if (scope === 'vendor' && !suppression.vendor_id) {
+    return 'vendor_id is required for a vendor suppression';
+  }
+  if (scope === 'pattern') {
+    const { pattern } = suppression;
+    if (!pattern || typeof pattern.field !== 'string' || !pattern.field) {
+      return 'pattern must be a condition with a field, operator and value';
+    }
+    if (!isKnownOperator(pattern.operator)) {
+      return `pattern.operator "${pattern.operator}" is not a supported operator`;
+    }
+  }
+  if (typeof expiresOn !== 'string' || !DATE_PATTERN.test(expiresOn) || Number.isNaN(Date.parse(expiresOn))) {
+    return 'expires_on must be a date in YYYY-MM-DD format';
+  }
+  if (expiresOn < today()) {
+    return 'expires_on must not be in the past';
+  }
+  if (typeof justification !== 'string' || justification.trim() === '') {
+    return 'justification is required';
+  }
+  return null;
+}
+
+/**
+ * Save a suppression
+ * @param {object} suppression - A suppression that passed validateSuppression
+ * @param {string} [createdBy='user'] - Who added it
+ * @returns {object} The stored suppression
+ */
+export function createSuppression(suppression, createdBy = 'user') {
+  const { realm_id: realmId, rule_type: ruleType, scope, expires_on: expiresOn, justification } = suppression;
+  const stored = {
+    id: uuidv4(),
+    realm_id: realmId,
+    rule_type: ruleType,
+    scope,
+    // Ids are only unique within an entity; without one, the id matches on any entity
+    ...(scope === 'transaction' && { transaction_id: String(suppression.transaction_id), entity: suppression.entity ?? null }),
+    ...(scope === 'vendor' && { vendor_id: String(suppression.vendor_id) }),
+    ...(scope === 'pattern' && {
+      pattern: { field: suppression.pattern.field, operator: suppression.pattern.operator, value: suppression.pattern.value }
+    }),
+    expires_on: expiresOn,
+    justification: justification.trim(),
+    created_by: createdBy,
+    created_at: new Date().toISOString()
+  };
+  suppressions.set(stored.id, stored);
+  return stored;
+}
+
+/**
+ * Delete a suppression
+ * @param {string} id - The suppression id
+ * @returns {boolean} True if it existed
+ */
+export function deleteSuppression(id) {
+  return suppressions.delete(id);
+}
+
+/**
+ * List the suppressions of a realm, soonest to expire first
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {object} [filters]
+ * @param {string} [filters.ruleType] - Only suppressions of this rule
+ * @param {boolean} [filters.includeExpired=false] - Include suppressions past their expiry date
+ * @returns {Array} Suppressions, each with an expired flag
+ */
+export function listSuppressions(realmId, { ruleType, includeExpired = false } = {}) {
+  const now = today();
+  return [...suppressions.values()]
+    .filter(suppression => suppression.realm_id === realmId
+      && (!ruleType || suppression.rule_type === ruleType)
+      && (includeExpired || suppression.expires_on >= now))
+    .map(suppression => ({ ...suppression, expired: suppression.expires_on < now }))
+    .sort((a, b) => a.expires_on.localeCompare(b.expires_on));
+}
+
+// The vendor a transaction was paid to or billed by
+function vendorIdOf(transaction) {
+  if (transaction?.VendorRef?.value) return String(transaction.VendorRef.value);
+  if (transaction?.EntityRef?.value && (!transaction.EntityRef.type || transaction.EntityRef.type === 'Vendor')) {
+    return String(transaction.EntityRef.value);
+  }
+  return null;
+}
+
+function matches(suppression, id, entity, transaction) {
+  switch (suppression.scope) {
+    case 'transaction':
+      return suppression.transaction_id === String(id) && (!suppression.entity || suppression.entity === entity);
+    case 'vendor':
+      return suppression.vendor_id === vendorIdOf(transaction);
+    case 'pattern':
+      return !!transaction && evaluateCondition(transaction, suppression.pattern);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Split a rule's flags into those still raised and those suppressed. A
+ * flag implicating several transactions (an aggregate group or a
+ * duplicate cluster) is suppressed only when every one of them is.
+ * Suppressions past their expiry date no longer apply.
+ * @param {Array} flagged - Flagged entries from evaluateRuleKind
+ * @param {object} rule - The executed rule
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {string} entity - The entity the rule ran against
+ * @returns {{flagged: Array, suppressed: Array}} Remaining flags, and suppressed ones with the suppressions that matched
+ */
+export function applySuppressions(flagged, rule, realmId, entity) {
+  const now = today();
+  const active = [...suppressions.values()].filter(suppression => suppression.realm_id === realmId
+    && suppression.rule_type === rule.rule_type
+    && suppression.expires_on >= now);
+  if (active.length === 0) {
+    return { flagged, suppressed: [] };
+  }
+
+  const remaining = [];
+  const suppressed = [];
+  for (const entry of flagged) {
+    const matched = new Set();
+    const allSuppressed = implicatedTransactions(entry).every(({ id, entity: transactionEntity = entity, data }) => {
+      const match = active.find(suppression => matches(suppression, id, transactionEntity, data));
+      if (match) matched.add(match.id);
+      return !!match;
+    });
+    if (allSuppressed) {
+      suppressed.push({ id: entry.id, reason: entry.reason, suppression_ids: [...matched] });
+    } else {
+      remaining.push(entry);
+    }
+  }
+  return { flagged: remaining, suppressed };
+}
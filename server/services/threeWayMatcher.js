@@ -0,0 +1,262 @@
+import { evaluateConditions } from './conditionEvaluator.js';
+import { isWithinPeriod } from './periodScope.js';
+
+// Entities fetched for a three-way match, in money-out order
+export const THREE_WAY_ENTITIES = ['PurchaseOrder', 'Bill', 'BillPayment'];
+
+const CHECKS = {
+  bill_without_po: 'Bill is not linked to any purchase order',
+  bill_exceeds_po: 'Billed amount exceeds the purchase order amount',
+  payment_exceeds_bill: 'Payments applied to the bill exceed the bill amount',
+  payment_unmatched: 'Bill payment is not applied to a known bill'
+};
+
+/**
+ * Resolve the three_way_match configuration of a rule with its defaults
+ * @param {object} [config] - The rule's three_way_match configuration
+ * @returns {object} Normalized configuration
+ */
+function normalizeConfig(config = {}) {
+  return {
+    checks: config.checks || Object.keys(CHECKS),
+    tolerance: config.tolerance ?? 0,
+    tolerance_type: config.tolerance_type || 'absolute'
+  };
+}
+
+// Round to cents so float noise doesn't create mismatches
+function toCents(value) {
+  return Math.round(value * 100) / 100;
+}
+
+function amountOf(record) {
+  const amount = parseFloat(record.TotalAmt);
+  return Number.isNaN(amount) ? 0 : amount;
+}
+
+// Allowed excess over an expected amount under the configured tolerance
+function allowance(expected, config) {
+  return config.tolerance_type === 'percent' ? Math.abs(expected) * config.tolerance / 100 : config.tolerance;
+}
+
+/**
+ * Ids of the transactions of a given type a record links to, from both
+ * its header LinkedTxn and every line's LinkedTxn
+ * @param {object} record - A QuickBooks transaction
+ * @param {Function} matchesType - Tests a LinkedTxn TxnType
+ * @returns {Set<string>} Linked transaction ids
+ */
+function linkedIds(record, matchesType) {
+  const links = [
+    ...(record.LinkedTxn || []),
+    ...(record.Line || []).flatMap(line => line.LinkedTxn || [])
+  ];
+  return new Set(links.filter(link => matchesType(link.TxnType)).map(link => String(link.TxnId)));
+}
+
+const isPurchaseOrder = type => type === 'PurchaseOrder';
+const isBill = type => type === 'Bill';
+
+// Short description of a related record for the findings
+function summarize(record, amount = amountOf(record)) {
+  return {
+    Id: record.Id,
+    DocNumber: record.DocNumber,
+    TxnDate: record.TxnDate,
+    amount
+  };
+}
+
+/**
+ * Link bills to their purchase orders and payments. Links are taken from
+ * either side, since QuickBooks records them on the PO, the bill and the
+ * payment lines.
+ */
+function buildLinks(purchaseOrders, bills, payments) {
+  const poById = new Map(purchaseOrders.map(po => [String(po.Id), po]));
+  const billById = new Map(bills.map(bill => [String(bill.Id), bill]));
+  const posByBill = new Map(bills.map(bill => [String(bill.Id), new Set()]));
+  const billsByPo = new Map(purchaseOrders.map(po => [String(po.Id), new Set()]));
+  const paymentsByBill = new Map(bills.map(bill => [String(bill.Id), []]));
+
+  const linkPoToBill = (poId, billId) => {
+    if (!poById.has(poId) || !billById.has(billId)) return;
+    posByBill.get(billId).add(poId);
+    billsByPo.get(poId).add(billId);
+  };
+
+  for (const bill of bills) {
+    linkedIds(bill, isPurchaseOrder).forEach(poId => linkPoToBill(poId, String(bill.Id)));
+  }
+  for (const po of purchaseOrders) {
+    linkedIds(po, isBill).forEach(billId => linkPoToBill(String(po.Id), billId));
+  }
+
+  // Payment lines carry the amount applied to each bill
+  const unmatchedPayments = [];
+  for (const payment of payments) {
+    const unmatchedLines = [];
+    (payment.Line || []).forEach((line, lineIndex) => {
+      const billIds = (line.LinkedTxn || []).filter(link => isBill(link.TxnType)).map(link => String(link.TxnId));
+      const knownBillId = billIds.find(billId => billById.has(billId));
+      if (knownBillId) {
+        paymentsByBill.get(knownBillId).push({ payment, amount: parseFloat(line.Amount) || 0 });
+      } else {
+        unmatchedLines.push({ line_index: lineIndex, amount: parseFloat(line.Amount) || 0, linked_bill_ids: billIds });
+      }
+    });
+    if (unmatchedLines.length > 0 || !(payment.Line || []).length) {
+      unmatchedPayments.push({ payment, unmatchedLines });
+    }
+  }
+
+  return { poById, billById, posByBill, billsByPo, paymentsByBill, unmatchedPayments };
+}
+
+/**
+ * Validate the three_way_match section of a rule
+ * @param {object} [config] - The rule's three_way_match configuration
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateThreeWayMatchConfig(config) {
+  if (config !== undefined && (typeof config !== 'object' || config === null)) {
+    return 'three_way_match must be an object';
+  }
+  const { checks, tolerance, tolerance_type: toleranceType } = normalizeConfig(config);
+  if (!Array.isArray(checks) || checks.length === 0) {
+    return 'three_way_match.checks must be a non-empty array';
+  }
+  const unknown = checks.filter(check => !CHECKS[check]);
+  if (unknown.length > 0) {
+    return `Unsupported three_way_match checks: ${unknown.join(', ')}`;
+  }
+  if (!(tolerance >= 0)) {
+    return 'three_way_match.tolerance must be zero or a positive number';
+  }
+  if (!['absolute', 'percent'].includes(toleranceType)) {
+    return 'three_way_match.tolerance_type must be absolute or percent';
+  }
+  return null;
+}
+
+/**
+ * Match bills against purchase orders and bill payments.
+ * Bills matching the rule's conditions are checked for a linked PO, for
+ * billing beyond the PO amount (all bills against the same POs count
+ * together) and for payments beyond the bill amount. Payments whose lines
+ * don't apply to a known bill are flagged as unmatched.
+ * Each bill or payment is flagged at most once, with every check it
+ * failed; entries name their entity, since bill and payment Ids overlap.
+ * Records are linked across all dates; a period only limits which bills
+ * and payments are reported.
+ * @param {object} records - Fetched records keyed by entity name
+ * @param {object} rule - The audit rule (kind: 'three_way_match')
+ * @param {object|null} [scope] - Period from resolvePeriod, or null for all dates
+ * @returns {Array} Flagged entries
+ */
+export function evaluateThreeWayMatch(records, rule, scope = null) {
+  const config = normalizeConfig(rule.three_way_match);
+  const purchaseOrders = records.PurchaseOrder || [];
+  const allBills = records.Bill || [];
+  const payments = records.BillPayment || [];
+  const links = buildLinks(purchaseOrders, allBills, payments);
+  const bills = allBills.filter(bill => isWithinPeriod(bill, scope) && evaluateConditions(bill, rule.conditions));
+  const flagged = [];
+
+  const flag = (id, entity, record, failures, linked) => {
+    const checks = failures.map(failure => failure.check);
+    flagged.push({
+      id,
+      entity,
+      transaction_data: record,
+      checks,
+      linked,
+      matched_conditions: failures.map(failure => failure.condition),
+      action: rule.action,
+      reason: `${rule.reason} (${checks.map(check => CHECKS[check]).join('; ')})`,
+      flagged_at: new Date().toISOString()
+    });
+  };
+
+  for (const bill of bills) {
+    const billId = String(bill.Id);
+    const poIds = [...links.posByBill.get(billId)];
+    const linkedPayments = links.paymentsByBill.get(billId);
+    const linked = {
+      purchase_orders: poIds.map(poId => summarize(links.poById.get(poId))),
+      payments: linkedPayments.map(({ payment, amount }) => summarize(payment, amount))
+    };
+    const failures = [];
+
+    if (config.checks.includes('bill_without_po') && poIds.length === 0) {
+      failures.push({
+        check: 'bill_without_po',
+        condition: {
+          field: 'LinkedTxn',
+          operator: 'links_to',
+          value: 'PurchaseOrder',
+          actual_value: 'none'
+        }
+      });
+    }
+
+    if (config.checks.includes('bill_exceeds_po') && poIds.length > 0) {
+      const poTotal = toCents(poIds.reduce((total, poId) => total + amountOf(links.poById.get(poId)), 0));
+      const billIds = new Set(poIds.flatMap(poId => [...links.billsByPo.get(poId)]));
+      const billedTotal = toCents([...billIds].reduce((total, id) => total + amountOf(links.billById.get(id)), 0));
+      if (billedTotal - poTotal > allowance(poTotal, config)) {
+        linked.bills_against_po = [...billIds].map(id => summarize(links.billById.get(id)));
+        failures.push({
+          check: 'bill_exceeds_po',
+          condition: {
+            field: 'billed_total',
+            operator: 'lte',
+            value: poTotal,
+            actual_value: billedTotal,
+            tolerance: config.tolerance_type === 'percent' ? `${config.tolerance}%` : config.tolerance
+          }
+        });
+      }
+    }
+
+    if (config.checks.includes('payment_exceeds_bill') && linkedPayments.length > 0) {
+      const billTotal = amountOf(bill);
+      const paidTotal = toCents(linkedPayments.reduce((total, { amount }) => total + amount, 0));
+      if (paidTotal - billTotal > allowance(billTotal, config)) {
+        failures.push({
+          check: 'payment_exceeds_bill',
+          condition: {
+            field: 'applied_payments',
+            operator: 'lte',
+            value: billTotal,
+            actual_value: paidTotal,
+            tolerance: config.tolerance_type === 'percent' ? `${config.tolerance}%` : config.tolerance
+          }
+        });
+      }
+    }
+
+    if (failures.length > 0) {
+      flag(billId, 'Bill', bill, failures, linked);
+    }
+  }
+
+  if (config.checks.includes('payment_unmatched')) {
+    for (const { payment, unmatchedLines } of links.unmatchedPayments) {
+      if (!isWithinPeriod(payment, scope)) continue;
+      flag(String(payment.Id), 'BillPayment', payment, [{
+        check: 'payment_unmatched',
+        condition: {
+          field: 'Line.LinkedTxn',
+          operator: 'links_to',
+          value: 'Bill',
+          actual_value: unmatchedLines.length > 0
+            ? unmatchedLines.map(line => line.linked_bill_ids.join(',') || 'none').join('; ')
+            : 'no lines'
+        }
+      }], { unmatched_lines: unmatchedLines });
+    }
+  }
+
+  return flagged;
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateThreeWayMatch, validateThreeWayMatchConfig } from './threeWayMatcher.js';
+import { buildRiskQueue } from './riskScoring.js';
+
+const link = (TxnType, TxnId) => ({ TxnId, TxnType });
+const po = (Id, TotalAmt, LinkedTxn = []) => ({ Id, TotalAmt, LinkedTxn });
+const bill = (Id, TotalAmt, LinkedTxn = []) => ({ Id, TotalAmt, LinkedTxn });
+const payment = (Id, lines) => ({ Id, TotalAmt: lines.reduce((total, line) => total + line.Amount, 0), Line: lines });
+const applied = (Amount, billId) => ({ Amount, LinkedTxn: billId ? [link('Bill', billId)] : [] });
+
+const rule = (threeWayMatch, conditions = []) => ({
+  rule_type: 'three_way', kind: 'three_way_match', conditions, three_way_match: threeWayMatch, action: 'review', reason: 'Three-way match'
+});
+
+test('a matched chain flags nothing', () => {
+  const records = {
+    PurchaseOrder: [po('1', 500)],
+    Bill: [bill('10', 500, [link('PurchaseOrder', '1')])],
+    BillPayment: [payment('20', [applied(500, '10')])]
+  };
+  assert.deepEqual(evaluateThreeWayMatch(records, rule()), []);
+});
+
+test('every check a bill fails is merged into one entry', () => {
+  const records = {
+    PurchaseOrder: [],
+    Bill: [bill('10', 500)],
+    BillPayment: [payment('20', [applied(300, '10')]), payment('21', [applied(300, '10')])]
+  };
+  const flagged = evaluateThreeWayMatch(records, rule());
+  assert.equal(flagged.length, 1);
+  const [entry] = flagged;
+  assert.equal(entry.id, '10');
+  assert.equal(entry.entity, 'Bill');
+  assert.deepEqual(entry.checks, ['bill_without_po', 'payment_exceeds_bill']);
+  assert.equal(entry.reason, 'Three-way match (Bill is not linked to any purchase order; Payments applied to the bill exceed the bill amount)');
+  assert.deepEqual(entry.matched_conditions.map(condition => condition.field), ['LinkedTxn', 'applied_payments']);
+  assert.equal(entry.matched_conditions[1].actual_value, 600);
+});
+
+test('bills against the same PO count together, within the tolerance', () => {
+  const records = {
+    PurchaseOrder: [po('1', 1000, [link('Bill', '11')])],
+    Bill: [bill('10', 600, [link('PurchaseOrder', '1')]), bill('11', 450)],
+    BillPayment: []
+  };
+  const flagged = evaluateThreeWayMatch(records, rule({ checks: ['bill_exceeds_po'] }));
+  assert.deepEqual(flagged.map(entry => entry.id), ['10', '11']);
+  assert.deepEqual(flagged[0].linked.bills_against_po.map(summary => summary.Id), ['10', '11']);
+  assert.deepEqual(evaluateThreeWayMatch(records, rule({ checks: ['bill_exceeds_po'], tolerance: 5, tolerance_type: 'percent' })), []);
+});
+
+test('unmatched payments are reported on BillPayment with their own id', () => {
+  const records = {
+    PurchaseOrder: [],
+    Bill: [bill('10', 500)],
+    BillPayment: [payment('10', [applied(500, '99')]), payment('21', [applied(100)])]
+  };
+  const flagged = evaluateThreeWayMatch(records, rule({ checks: ['payment_unmatched'] }));
+  assert.deepEqual(flagged.map(({ id, entity, checks }) => ({ id, entity, checks })), [
+    { id: '10', entity: 'BillPayment', checks: ['payment_unmatched'] },
+    { id: '21', entity: 'BillPayment', checks: ['payment_unmatched'] }
+  ]);
+  assert.equal(flagged[0].matched_conditions[0].actual_value, '99');
+  assert.equal(flagged[1].matched_conditions[0].actual_value, 'none');
+});
+
+test('a bill and a payment sharing an id stay apart in the risk queue', () => {
+  const records = {
+    PurchaseOrder: [],
+    Bill: [bill('10', 500)],
+    BillPayment: [payment('10', [applied(500, '99')])]
+  };
+  const threeWay = rule();
+  const flagged = evaluateThreeWayMatch(records, threeWay);
+  const queue = buildRiskQueue([threeWay], [{ success: true, data: { flagged_transactions: flagged } }]);
+  assert.deepEqual(queue.map(item => `${item.entity}:${item.transaction_id}`).sort(), ['Bill:10', 'BillPayment:10']);
+});
+
+test('conditions select which bills are checked', () => {
+  const records = { PurchaseOrder: [], Bill: [bill('10', 50), bill('11', 5000)], BillPayment: [] };
+  const flagged = evaluateThreeWayMatch(records, rule({}, [{ field: 'TotalAmt', operator: 'gt', value: 1000 }]));
+  assert.deepEqual(flagged.map(entry => entry.id), ['11']);
+});
+
+test('validates the three_way_match configuration', () => {
+  assert.equal(validateThreeWayMatchConfig(undefined), null);
+  assert.equal(validateThreeWayMatchConfig({ checks: ['bill_without_po'], tolerance: 2 }), null);
+  assert.equal(validateThreeWayMatchConfig('all'), 'three_way_match must be an object');
+  assert.equal(validateThreeWayMatchConfig({ checks: [] }), 'three_way_match.checks must be a non-empty array');
+  assert.equal(validateThreeWayMatchConfig({ checks: ['bill_late'] }), 'Unsupported three_way_match checks: bill_late');
+  assert.equal(validateThreeWayMatchConfig({ tolerance: -1 }), 'three_way_match.tolerance must be zero or a positive number');
+  assert.equal(validateThreeWayMatchConfig({ tolerance_type: 'ratio' }), 'three_way_match.tolerance_type must be absolute or percent');
+});
+
+test('a period limits what is reported, not what is linked', () => {
+  const dated = (record, TxnDate) => ({ ...record, TxnDate });
+  const records = {
+    PurchaseOrder: [],
+    Bill: [dated(bill('10', 500), '2024-03-28'), dated(bill('11', 200), '2024-04-05')],
+    BillPayment: [
+      dated(payment('20', [applied(500, '10')]), '2024-04-02'),
+      dated(payment('21', [applied(50)]), '2024-04-03'),
+      dated(payment('22', [applied(80)]), '2024-03-30')
+    ]
+  };
+  const flagged = evaluateThreeWayMatch(records, rule({ checks: ['bill_without_po', 'payment_unmatched'] }), { from: '2024-04-01', to: '2024-04-30' });
+  // Payment 20 applies to a March bill, so it is matched rather than reported
+  assert.deepEqual(flagged.map(entry => `${entry.entity}:${entry.id}`), ['Bill:11', 'BillPayment:21']);
+});
@@ -0,0 +1,460 @@
+import crypto from 'crypto';
+import { quickbooksRequest, escapeQueryValue, quickbooksErrorResponse, QuickBooksAuthError, QuickBooksThrottleError, QuickBooksConflictError } from './quickbooksClient.js';
+import { fetchAllRecords } from './quickbooksQuery.js';
+
+// Rule actions that can be written back, strongest first: a transaction
+// flagged by several rules gets the marker of its strongest configured action
+export const WRITE_BACK_ACTIONS = ['reject', 'review', 'flag', 'approve'];
+
+// Where an action's marker is written on the transaction
+export const WRITE_BACK_MODES = ['private_note', 'custom_field'];
+
+// Update endpoint and response key per entity; expenses are QuickBooks Purchases
+const WRITABLE_ENTITIES = {
+  Expense: { resource: 'purchase', key: 'Purchase' },
+  Purchase: { resource: 'purchase', key: 'Purchase' },
+  Bill: { resource: 'bill', key: 'Bill' },
+  BillPayment: { resource: 'billpayment', key: 'BillPayment' },
+  PurchaseOrder: { resource: 'purchaseorder', key: 'PurchaseOrder' },
+  VendorCredit: { resource: 'vendorcredit', key: 'VendorCredit' },
+  Invoice: { resource: 'invoice', key: 'Invoice' },
+  SalesReceipt: { resource: 'salesreceipt', key: 'SalesReceipt' },
+  Payment: { resource: 'payment', key: 'Payment' },
+  CreditMemo: { resource: 'creditmemo', key: 'CreditMemo' },
+  Deposit: { resource: 'deposit', key: 'Deposit' },
+  JournalEntry: { resource: 'journalentry', key: 'JournalEntry' }
+};
+
+// QuickBooks rejects longer private notes
+const PRIVATE_NOTE_MAX_LENGTH = 4000;
+
+// Bounds the QuickBooks updates a single confirmation can trigger
+export const MAX_CHANGES_PER_RUN = 200;
+
+// Ids per read query while planning and undoing
+const READ_BATCH_SIZE = 100;
+
+// A plan's SyncTokens go stale, so it must be confirmed within this window
+const PLAN_TTL_MS = 30 * 60 * 1000;
+
+// Errors that end a write-back run; the rest fail a single change
+const RUN_FATAL_ERRORS = [QuickBooksAuthError, QuickBooksThrottleError];
+
+// Write-back configuration and runs, per realm
+const configs = new Map();
+const runs = new Map();
+
+function isRecord(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function failure(status, error) {
+  return { success: false, error, status, data: null };
+}
+
+/**
+ * Validate a write-back configuration
+ * @param {object} config - { actions: { [action]: { mode, note?, definition_id?, name?, value? } } }
+ * @returns {string|null} An error message, or null if valid
+ */
+export function validateWriteBackConfig(config) {
+  if (!isRecord(config) || !isRecord(config.actions)) {
+    return 'actions must be an object keyed by rule action';
+  }
+  for (const [action, target] of Object.entries(config.actions)) {
+    if (!WRITE_BACK_ACTIONS.includes(action)) {
+      return `actions.${action} is not a rule action; use ${WRITE_BACK_ACTIONS.join(', ')}`;
+    }
+    if (!isRecord(target) || !WRITE_BACK_MODES.includes(target.mode)) {
+      return `actions.${action}.mode must be one of ${WRITE_BACK_MODES.join(', ')}`;
+    }
+    if (target.note !== undefined && (typeof target.note !== 'string' || target.note.trim() === '')) {
+      return `actions.${action}.note must be a non-empty string`;
+    }
+    if (target.mode === 'custom_field') {
+      if (typeof target.definition_id !== 'string' || target.definition_id === '') {
+        return `actions.${action}.definition_id is required for custom_field write-back`;
+      }
+      if (typeof target.value !== 'string' || target.value === '') {
+        return `actions.${action}.value is required for custom_field write-back`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The write-back configuration of a realm. Nothing is written back until
+ * at least one action is configured.
+ * @param {string} realmId - The QuickBooks company ID
+ * @returns {{actions: object, updated_at: string|null}}
+ */
+export function getWriteBackConfig(realmId) {
+  return configs.get(realmId) || { actions: {}, updated_at: null };
+}
+
+/**
+ * Replace the write-back configuration of a realm
+ * @param {string} realmId - The QuickBooks company ID
+ * @param {object} config - A configuration that passed validateWriteBackConfig
+ * @returns {{actions: object, updated_at: string}} The stored configuration
+ */
+export function setWriteBackConfig(realmId, config) {
+  const stored = {
+    actions: Object.fromEntries(Object.entries(config.actions).map(([action, target]) => [action, {
+      mode: target.mode,
+      ...(target.note && { note: target.note.trim() }),
+      ...(target.mode === 'custom_field' && {
+        definition_id: target.definition_id,
+        value: target.value,
+        ...(target.name && { name: target.name })
+      })
+    }])),
+    updated_at: new Date().toISOString()
+  };
+  configs.set(realmId, stored);
+  return stored;
+}
+
+// Current value of the field a target writes to
+function readField(record, target) {
+  if (target.mode === 'private_note') {
+    return record.PrivateNote ?? '';
+  }
+  return (record.CustomField || []).find(field => field.DefinitionId === target.definition_id)?.StringValue ?? null;
+}
+
+// Sparse update body setting the field a target writes to
+function fieldUpdate(target, value) {
+  if (target.mode === 'private_note') {
+    return { PrivateNote: value };
+  }
+  return {
+    CustomField: [{
+      DefinitionId: target.definition_id,
+      ...(target.name && { Name: target.name }),
+      Type: 'StringType',
+      StringValue: value ?? ''
+    }]
+  };
+}
+
+// Value the field should hold after write-back; a marker already present is not added again
+function markedValue(before, target, action, ruleTypes) {
+  if (target.mode === 'custom_field') {
+    return target.value;
+  }
+  const marker = `[${target.note || `Audit ${action}`}: ${ruleTypes.join(', ')}]`;
+  if (before.includes(marker)) {
+    return before;
+  }
+  return before ? `${before}\n${marker}` : marker;
+}
+
+// Read records by id, in batches that keep the query short
+async function readRecords({ realmId, accessToken, entity, ids }) {
+  const records = new Map();
+  for (let start = 0; start < ids.length; start += READ_BATCH_SIZE) {
+    const batch = ids.slice(start, start + READ_BATCH_SIZE);
+    const { records: page } = await fetchAllRecords({
+      realmId,
+      accessToken,
+      entity,
+      where: `Id IN (${batch.map(id => `'${escapeQueryValue(id)}'`).join(', ')})`
+    });
+    page.forEach(record => records.set(String(record.Id), record));
+  }
+  return records;
+}
+
+// Sparse-update one field of a record, returning the updated record
+async function updateField({ realmId, accessToken, entity, transactionId, syncToken, target, value }) {
+  const { resource, key } = WRITABLE_ENTITIES[entity];
+  const data = await quickbooksRequest({
+    realmId,
+    accessToken,
+    path: resource,
+    method: 'POST',
+    body: { Id: transactionId, SyncToken: syncToken, sparse: true, ...fieldUpdate(target, value) }
+  });
+  return data[key];
+}
+
+// A run as API clients see it
+function describeRun(run) {
+  const counts = {};
+  for (const change of run.changes) {
+    counts[change.status] = (counts[change.status] || 0) + 1;
+  }
+  return { ...run, summary: { total: run.changes.length, skipped: run.skipped.length, ...counts } };
+}
+
+/**
+ * Plan the write-back of a run's findings. Each transaction in the risk
+ * queue whose contributing rules have a configured action gets one
+ * change, using its strongest action. The current field value and
+ * SyncToken are read from QuickBooks so the plan shows exactly what
+ * will change; nothing is written until the plan is confirmed.
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.entity - Entity of queue items that don't name one
+ * @param {Array} params.riskQueue - risk_queue of an execution result
+ * @returns {Promise<object>} { success, data: run } with the run's confirmation_code
+ */
+export async function planWriteBack({ realmId, accessToken, entity, riskQueue }) {
+  const { actions } = getWriteBackConfig(realmId);
+  if (Object.keys(actions).length === 0) {
+    return failure(400, 'No write-back actions are configured for this company');
+  }
+
+  const skipped = [];
+  const wanted = new Map();
+  for (const item of riskQueue) {
+    const itemEntity = item.entity || entity;
+    const transactionId = String(item.transaction_id);
+    const contributions = (item.contributing_rules || []).filter(rule => actions[rule.action]);
+    const action = WRITE_BACK_ACTIONS.find(name => contributions.some(rule => rule.action === name));
+    if (!action) continue;
+
+    if (!WRITABLE_ENTITIES[itemEntity]) {
+      skipped.push({ entity: itemEntity, transaction_id: transactionId, reason: `${itemEntity} records can't be written back` });
+      continue;
+    }
+    if (!wanted.has(itemEntity)) wanted.set(itemEntity, new Map());
+    wanted.get(itemEntity).set(transactionId, {
+      action,
+      rule_types: [...new Set(contributions.filter(rule => rule.action === action).map(rule => rule.rule_type))]
+    });
+  }
+
+  const total = [...wanted.values()].reduce((sum, byId) => sum + byId.size, 0);
+  if (total > MAX_CHANGES_PER_RUN) {
+    return failure(400, `Write-back is limited to ${MAX_CHANGES_PER_RUN} transactions per run; ${total} were selected`);
+  }
+
+  try {
+    const changes = [];
+    for (const [name, byId] of wanted) {
+      console.log(`✍️  Planning write-back of ${byId.size} ${name} records...`);
+      const records = await readRecords({ realmId, accessToken, entity: name, ids: [...byId.keys()] });
+
+      for (const [transactionId, { action, rule_types: ruleTypes }] of byId) {
+        const record = records.get(transactionId);
+        if (!record) {
+          skipped.push({ entity: name, transaction_id: transactionId, reason: 'Transaction no longer exists' });
+          continue;
+        }
+        const target = actions[action];
+        const before = readField(record, target);
+        const after = markedValue(before ?? '', target, action, ruleTypes);
+        if (after === before) {
+          skipped.push({ entity: name, transaction_id: transactionId, reason: 'Already marked' });
+          continue;
+        }
+        if (after.length > PRIVATE_NOTE_MAX_LENGTH) {
+          skipped.push({ entity: name, transaction_id: transactionId, reason: `The marked note would exceed ${PRIVATE_NOTE_MAX_LENGTH} characters` });
+          continue;
+        }
+        changes.push({
+          entity: name,
+          transaction_id: transactionId,
+          doc_number: record.DocNumber ?? null,
+          action,
+          rule_types: ruleTypes,
+          target,
+          before,
+          after,
+          sync_token: String(record.SyncToken),
+          sync_token_after: null,
+          status: 'planned'
+        });
+      }
+    }
+
+    const createdAt = Date.now();
+    const run = {
+      id: crypto.randomUUID(),
+      realm_id: realmId,
+      status: 'planned',
+      confirmation_code: crypto.randomBytes(4).toString('hex'),
+      created_at: new Date(createdAt).toISOString(),
+      expires_at: new Date(createdAt + PLAN_TTL_MS).toISOString(),
+      applied_at: null,
+      undone_at: null,
+      changes,
+      skipped
+    };
+    runs.set(run.id, run);
+
+    console.log(`✅ Write-back planned: ${changes.length} changes, ${skipped.length} skipped`);
+    return { success: true, data: describeRun(run) };
+
+  } catch (error) {
+    console.error('❌ Write-back planning failed:', error);
+    const { status, body } = quickbooksErrorResponse(error, 'Failed to plan write-back');
+    return { ...body, status, data: null };
+  }
+}
+
+// The run of a realm, or a failure explaining why it can't be used
+function findRun(runId, realmId, allowedStatuses) {
+  const run = runs.get(runId);
+  if (!run || run.realm_id !== realmId) {
+    return { failure: failure(404, 'Write-back run not found') };
+  }
+  if (!allowedStatuses.includes(run.status)) {
+    return { failure: failure(409, `Write-back run is ${run.status}`) };
+  }
+  return { run };
+}
+
+/**
+ * Apply a planned write-back. The caller must echo the plan's
+ * confirmation code, so every run is confirmed explicitly. Each change
+ * is a sparse update carrying the SyncToken read while planning; a
+ * record edited since then fails as a conflict instead of being
+ * overwritten. Auth and throttling errors stop the run, leaving the
+ * changes already applied undoable.
+ * @param {string} runId - The planned run
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @param {string} params.confirmation - The plan's confirmation code
+ * @returns {Promise<object>} { success, data: run }
+ */
+export async function applyWriteBack(runId, { realmId, accessToken, confirmation }) {
+  const { run, failure: notFound } = findRun(runId, realmId, ['planned']);
+  if (notFound) {
+    return notFound;
+  }
+  if (confirmation !== run.confirmation_code) {
+    return failure(400, 'confirmation must match the confirmation_code of the plan');
+  }
+  if (Date.parse(run.expires_at) < Date.now()) {
+    run.status = 'expired';
+    return failure(409, 'Write-back plan expired; plan the write-back again');
+  }
+
+  console.log(`✍️  Writing back ${run.changes.length} changes for realm ${realmId}...`);
+  run.status = 'applying';
+
+  for (const change of run.changes) {
+    try {
+      const record = await updateField({
+        realmId,
+        accessToken,
+        entity: change.entity,
+        transactionId: change.transaction_id,
+        syncToken: change.sync_token,
+        target: change.target,
+        value: change.after
+      });
+      change.sync_token_after = String(record.SyncToken);
+      change.status = 'applied';
+    } catch (error) {
+      if (RUN_FATAL_ERRORS.some(type => error instanceof type)) {
+        console.error(`❌ Stopping write-back: ${error.message}`);
+        run.status = 'interrupted';
+        run.applied_at = new Date().toISOString();
+        const { status, body } = quickbooksErrorResponse(error, 'Write-back interrupted');
+        return { ...body, status, data: describeRun(run) };
+      }
+      change.status = error instanceof QuickBooksConflictError ? 'conflict' : 'failed';
+      change.error = error.message;
+    }
+  }
+
+  run.status = 'applied';
+  run.applied_at = new Date().toISOString();
+  const applied = run.changes.filter(change => change.status === 'applied').length;
+  console.log(`✅ Write-back applied: ${applied} of ${run.changes.length} changes`);
+  return { success: true, data: describeRun(run) };
+}
+
+/**
+ * Undo an applied write-back, restoring each field's prior value. A
+ * record whose SyncToken moved on since the write-back was edited in
+ * QuickBooks afterwards and is left alone as a conflict. The run is
+ * marked undoing meanwhile, so a second undo can't race this one; if
+ * the undo is stopped by an error it can be retried.
+ * @param {string} runId - The applied or interrupted run
+ * @param {object} params
+ * @param {string} params.realmId - The QuickBooks company ID
+ * @param {string} params.accessToken - The OAuth access token
+ * @returns {Promise<object>} { success, data: run }
+ */
+export async function undoWriteBack(runId, { realmId, accessToken }) {
+  const { run, failure: notFound } = findRun(runId, realmId, ['applied', 'interrupted']);
+  if (notFound) {
+    return notFound;
+  }
+
+  const applied = run.changes.filter(change => change.status === 'applied');
+  console.log(`↩️  Undoing ${applied.length} write-back changes for realm ${realmId}...`);
+  const statusBefore = run.status;
+  run.status = 'undoing';
+
+  try {
+    const byEntity = new Map();
+    for (const change of applied) {
+      if (!byEntity.has(change.entity)) byEntity.set(change.entity, []);
+      byEntity.get(change.entity).push(change);
+    }
+
+    for (const [entity, changes] of byEntity) {
+      const records = await readRecords({ realmId, accessToken, entity, ids: changes.map(change => change.transaction_id) });
+      for (const change of changes) {
+        const record = records.get(change.transaction_id);
+        if (!record) {
+          change.status = 'undo_failed';
+          change.error = 'Transaction no longer exists';
+          continue;
+        }
+        if (String(record.SyncToken) !== change.sync_token_after) {
+          change.status = 'undo_conflict';
+          change.error = 'Transaction was edited in QuickBooks after the write-back';
+          continue;
+        }
+        try {
+          await updateField({
+            realmId,
+            accessToken,
+            entity,
+            transactionId: change.transaction_id,
+            syncToken: change.sync_token_after,
+            target: change.target,
+            value: change.before
+          });
+          change.status = 'undone';
+        } catch (error) {
+          if (RUN_FATAL_ERRORS.some(type => error instanceof type)) throw error;
+          change.status = error instanceof QuickBooksConflictError ? 'undo_conflict' : 'undo_failed';
+          change.error = error.message;
+        }
+      }
+    }
+  } catch (error) {
+    console.error('❌ Write-back undo failed:', error);
+    run.status = statusBefore;
+    const { status, body } = quickbooksErrorResponse(error, 'Failed to undo write-back');
+    return { ...body, status, data: describeRun(run) };
+  }
+
+  run.status = 'undone';
+  run.undone_at = new Date().toISOString();
+  console.log(`✅ Write-back undone: ${run.changes.filter(change => change.status === 'undone').length} restored`);
+  return { success: true, data: describeRun(run) };
+}
+
+/**
+ * The write-back runs of a realm, newest first
+ * @param {string} realmId - The QuickBooks company ID
+ * @returns {Array} Runs without their confirmation codes
+ */
+export function listWriteBackRuns(realmId) {
+  return [...runs.values()]
+    .filter(run => run.realm_id === realmId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(({ confirmation_code: code, ...run }) => describeRun(run));
+}
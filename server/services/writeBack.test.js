@@ -0,0 +1,110 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { startMockQuickBooks } from '../mock/testing.js';
+import { MOCK_ACCESS_TOKEN } from '../mock/quickbooksMock.js';
+import { fetchAllRecords } from './quickbooksQuery.js';
+import { setWriteBackConfig, planWriteBack, applyWriteBack, undoWriteBack } from './writeBack.js';
+
+const realmId = '9130350000000001';
+const accessToken = MOCK_ACCESS_TOKEN;
+
+const queueItem = transactionId => ({
+  entity: 'Expense',
+  transaction_id: transactionId,
+  contributing_rules: [{ rule_type: 'big_expense', action: 'review' }]
+});
+
+async function readExpense(id) {
+  const { records } = await fetchAllRecords({ realmId, accessToken, entity: 'Expense', where: `Id = '${id}'` });
+  return records[0];
+}
+
+async function plan(...ids) {
+  const result = await planWriteBack({ realmId, accessToken, entity: 'Expense', riskQueue: ids.map(queueItem) });
+  assert.equal(result.success, true);
+  return result.data;
+}
+
+const apply = run => applyWriteBack(run.id, { realmId, accessToken, confirmation: run.confirmation_code });
+
+let quickbooks;
+before(async () => {
+  // Keep the write-back progress logging out of the test output
+  mock.method(console, 'log', () => {});
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+  quickbooks = await startMockQuickBooks();
+});
+after(() => quickbooks.close());
+
+test('nothing is planned until an action is configured', async () => {
+  const result = await planWriteBack({ realmId, accessToken, entity: 'Expense', riskQueue: [queueItem('200')] });
+  assert.deepEqual([result.success, result.status], [false, 400]);
+  setWriteBackConfig(realmId, { actions: { review: { mode: 'private_note' } } });
+});
+
+test('applies the planned note and undoes it', async () => {
+  const run = await plan('200');
+  assert.deepEqual(run.changes.map(change => [change.transaction_id, change.before, change.after]), [['200', '', '[Audit review: big_expense]']]);
+
+  const wrong = await applyWriteBack(run.id, { realmId, accessToken, confirmation: 'nope' });
+  assert.deepEqual([wrong.success, wrong.status], [false, 400]);
+
+  const applied = await apply(run);
+  assert.equal(applied.data.status, 'applied');
+  assert.equal(applied.data.changes[0].status, 'applied');
+  assert.equal((await readExpense('200')).PrivateNote, '[Audit review: big_expense]');
+  assert.equal((await plan('200')).skipped[0].reason, 'Already marked');
+
+  const undone = await undoWriteBack(run.id, { realmId, accessToken });
+  assert.equal(undone.data.status, 'undone');
+  assert.equal(undone.data.changes[0].status, 'undone');
+  assert.equal((await readExpense('200')).PrivateNote, '');
+});
+
+test('a second undo while one is running is refused', async () => {
+  const run = await plan('201');
+  await apply(run);
+  const [first, second] = await Promise.all([
+    undoWriteBack(run.id, { realmId, accessToken }),
+    undoWriteBack(run.id, { realmId, accessToken })
+  ]);
+  assert.equal(first.data.changes[0].status, 'undone');
+  assert.deepEqual([second.success, second.status, second.error], [false, 409, 'Write-back run is undoing']);
+});
+
+test('a record edited after planning is a conflict, and after applying is left alone on undo', async () => {
+  const run = await plan('202', '203');
+  const record = await readExpense('202');
+  await fetch(`${quickbooks.url}/__mock/companies/${realmId}/Expense`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...record, SyncToken: String(Number(record.SyncToken) + 1) })
+  });
+
+  const applied = await apply(run);
+  assert.deepEqual(applied.data.changes.map(change => change.status), ['conflict', 'applied']);
+
+  const edited = await readExpense('203');
+  await fetch(`${quickbooks.url}/__mock/companies/${realmId}/Expense`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...edited, PrivateNote: 'Checked by hand', SyncToken: String(Number(edited.SyncToken) + 1) })
+  });
+  const undone = await undoWriteBack(run.id, { realmId, accessToken });
+  assert.equal(undone.data.changes[1].status, 'undo_conflict');
+  assert.equal((await readExpense('203')).PrivateNote, 'Checked by hand');
+});
+
+test('a failed update is not retried', async () => {
+  const run = await plan('204');
+  await fetch(`${quickbooks.url}/__mock/faults`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ realmId, type: 'server_error', times: 1 })
+  });
+
+  const applied = await apply(run);
+  assert.equal(applied.data.changes[0].status, 'failed');
+  assert.equal((await readExpense('204')).PrivateNote, '');
+});
@@ -3,13 +3,17 @@ import { QuickBooksStorage } from './services/quickbooksStorage';
 import { 
   Brain,
   Settings,
-  Play
+  Play,
+  ClipboardList
 } from 'lucide-react';
 import { RuleConverter } from './components/RuleConverter';
 import { RuleExecutor } from './components/RuleExecutor';
+import { FindingsTriage } from './components/FindingsTriage';
+
+type View = 'converter' | 'executor' | 'findings';
 
 function App() {
-  const [currentView, setCurrentView] = useState<'converter' | 'executor'>('converter');
+  const [currentView, setCurrentView] = useState<View>('converter');
 
   // Handle OAuth callback
   useEffect(() => {
@@ -35,8 +39,8 @@ function App() {
     }
   }, []);
 
-  // Navigation component for converter and executor views
-  const Navigation = ({ currentView }: { currentView: 'converter' | 'executor' }) => (
+  // Navigation between the converter, executor and findings views
+  const Navigation = ({ currentView }: { currentView: View }) => (
     <nav className="px-6 py-4 bg-white border-b border-gray-200">
       <div className="max-w-7xl mx-auto flex justify-between items-center">
         <div className="flex items-center space-x-2">
@@ -66,6 +70,17 @@ function App() {
             <Play className="w-4 h-4" />
             <span>Rule Executor</span>
           </button>
+          <button
+            onClick={() => setCurrentView('findings')}
+            className={`flex items-center space-x-2 px-4 py-2 border text-sm font-medium transition-all duration-200 ${
+              currentView === 'findings'
+                ? 'bg-purple-600 text-white border-purple-600'
+                : 'bg-white text-gray-700 border-gray-300 hover:border-purple-500'
+            }`}
+          >
+            <ClipboardList className="w-4 h-4" />
+            <span>Findings</span>
+          </button>
         </div>
       </div>
     </nav>
@@ -75,7 +90,9 @@ function App() {
     <div className="min-h-screen bg-white">
       <Navigation currentView={currentView} />
       <div className="py-8">
-        {currentView === 'converter' ? <RuleConverter /> : <RuleExecutor />}
+        {currentView === 'converter' && <RuleConverter />}
+        {currentView === 'executor' && <RuleExecutor />}
+        {currentView === 'findings' && <FindingsTriage />}
       </div>
     </div>
   );
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { BarChart3 } from 'lucide-react';
+
+interface BenfordBucket {
+  digit: number;
+  count: number;
+  expected_count: number;
+  actual_proportion: number;
+  expected_proportion: number;
+  z_statistic: number;
+}
+
+interface BenfordTest {
+  distribution: BenfordBucket[];
+  chi_square: number;
+  chi_square_critical: number;
+  chi_square_exceeds_critical: boolean;
+  mad: number;
+  conformity: 'close' | 'acceptable' | 'marginal' | 'nonconformity';
+  over_represented: Array<BenfordBucket & {
+    transactions: Array<{
+      Id: string;
+      amount: number;
+      TxnDate?: string;
+      DocNumber?: string;
+      EntityRef?: { value: string; name?: string };
+    }>;
+  }>;
+}
+
+export interface BenfordResult {
+  entity: string;
+  field: string;
+  min_amount: number;
+  total_records: number;
+  analyzed_records: number;
+  excluded_records: number;
+  population_count?: number;
+  truncated?: boolean;
+  first_digit: BenfordTest;
+  first_two_digits: BenfordTest;
+  execution_time: number;
+  analyzed_at: string;
+}
+
+interface BenfordAnalysisProps {
+  result: BenfordResult;
+}
+
+const CONFORMITY_STYLES: Record<BenfordTest['conformity'], string> = {
+  close: 'border-green-400 text-green-800 bg-green-50',
+  acceptable: 'border-green-300 text-green-700 bg-white',
+  marginal: 'border-yellow-400 text-yellow-800 bg-yellow-50',
+  nonconformity: 'border-red-500 text-red-800 bg-red-50'
+};
+
+const TEST_LABELS = {
+  first_digit: 'First Digit',
+  first_two_digits: 'First Two Digits'
+} as const;
+
+export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({ result }) => {
+  const [activeTest, setActiveTest] = useState<keyof typeof TEST_LABELS>('first_digit');
+  const [expandedBucket, setExpandedBucket] = useState<number | null>(null);
+
+  const test = result[activeTest];
+  const maxProportion = Math.max(
+    ...test.distribution.map(bucket => Math.max(bucket.actual_proportion, bucket.expected_proportion))
+  );
+  const overRepresented = new Set(test.over_represented.map(bucket => bucket.digit));
+
+  return (
+    <div className="bg-white border border-gray-200 p-8 rounded">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <BarChart3 className="w-6 h-6 text-purple-600" />
+          Benford Analysis
+        </h2>
+        <div className="flex gap-2">
+          {(Object.keys(TEST_LABELS) as Array<keyof typeof TEST_LABELS>).map(key => (
+            <button
+              key={key}
+              onClick={() => {
+                setActiveTest(key);
+                setExpandedBucket(null);
+              }}
+              className={`px-3 py-1 text-sm border rounded ${
+                activeTest === key ? 'border-purple-600 bg-purple-600 text-white' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+              }`}
+            >
+              {TEST_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        {result.entity}.{result.field}: {result.analyzed_records} of {result.total_records} records analyzed
+        ({result.excluded_records} below {result.min_amount} or missing excluded)
+      </p>
+      {result.truncated && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-300 px-3 py-2 rounded mb-4">
+          Only {result.total_records} of {result.population_count} {result.entity} records were fetched; the record cap cut the analysis short.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-6 text-sm">
+        <span className={`px-2 py-1 border rounded ${CONFORMITY_STYLES[test.conformity]}`}>
+          MAD {test.mad} · {test.conformity}
+        </span>
+        <span className={`px-2 py-1 border rounded ${
+          test.chi_square_exceeds_critical ? CONFORMITY_STYLES.nonconformity : CONFORMITY_STYLES.acceptable
+        }`}>
+          χ² {test.chi_square} (critical {test.chi_square_critical})
+        </span>
+      </div>
+
+      {/* Distribution: actual bars with the expected proportion marked */}
+      <div className="space-y-1 mb-6 max-h-96 overflow-y-auto">
+        {test.distribution.map(bucket => (
+          <div key={bucket.digit} className="flex items-center gap-2 text-xs">
+            <span className="w-6 text-right font-medium text-gray-700">{bucket.digit}</span>
+            <div className="relative flex-1 h-4 bg-gray-100 rounded">
+              <div
+                className={`h-4 rounded ${overRepresented.has(bucket.digit) ? 'bg-red-400' : 'bg-purple-400'}`}
+                style={{ width: `${(bucket.actual_proportion / maxProportion) * 100}%` }}
+              />
+              <div
+                className="absolute top-0 h-4 border-r-2 border-gray-800"
+                style={{ width: `${(bucket.expected_proportion / maxProportion) * 100}%` }}
+              />
+            </div>
+            <span className="w-40 text-gray-600">
+              {(bucket.actual_proportion * 100).toFixed(1)}% vs {(bucket.expected_proportion * 100).toFixed(1)}% ({bucket.count})
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Over-represented Digits</h3>
+      {test.over_represented.length === 0 ? (
+        <p className="text-sm text-gray-600">No digit is significantly over-represented.</p>
+      ) : (
+        <div className="space-y-2">
+          {test.over_represented.map(bucket => (
+            <div key={bucket.digit} className="border border-red-300 bg-red-50 p-3 rounded">
+              <button
+                onClick={() => setExpandedBucket(expandedBucket === bucket.digit ? null : bucket.digit)}
+                className="w-full flex items-center justify-between text-sm text-red-900"
+              >
+                <span className="font-medium">Digit {bucket.digit}</span>
+                <span>
+                  {bucket.count} records, expected {bucket.expected_count} · z = {bucket.z_statistic}
+                </span>
+              </button>
+              {expandedBucket === bucket.digit && (
+                <div className="mt-2 space-y-1">
+                  {bucket.transactions.map(transaction => (
+                    <div key={transaction.Id} className="flex items-center gap-4 text-xs text-red-800 bg-white border border-red-200 px-2 py-1 rounded">
+                      <span className="font-medium text-red-900">ID: {transaction.Id}</span>
+                      <span>{transaction.amount}</span>
+                      {transaction.TxnDate && <span>{transaction.TxnDate}</span>}
+                      {transaction.EntityRef?.name && <span>{transaction.EntityRef.name}</span>}
+                      {transaction.DocNumber && <span>#{transaction.DocNumber}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
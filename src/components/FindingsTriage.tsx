@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import { BellOff, ClipboardList, MessageSquare, RefreshCw, Trash2, User } from 'lucide-react';
+import { apiClient } from '../services/apiClient';
+import { QuickBooksStorage } from '../services/quickbooksStorage';
+import { Finding, FindingStatus, Suppression } from '../types/audit';
+
+const STATUS_LABELS: Record<FindingStatus, string> = {
+  open: 'Open',
+  in_review: 'In review',
+  resolved: 'Resolved',
+  false_positive: 'False positive'
+};
+
+const STATUS_STYLES: Record<FindingStatus, string> = {
+  open: 'border-red-300 text-red-700 bg-red-50',
+  in_review: 'border-yellow-400 text-yellow-800 bg-yellow-50',
+  resolved: 'border-green-300 text-green-700 bg-green-50',
+  false_positive: 'border-gray-300 text-gray-600 bg-gray-50'
+};
+
+// Status changes offered from each status
+const NEXT_STATUSES: Record<FindingStatus, FindingStatus[]> = {
+  open: ['in_review', 'resolved', 'false_positive'],
+  in_review: ['resolved', 'false_positive', 'open'],
+  resolved: ['open'],
+  false_positive: ['open']
+};
+
+const EMPTY_COUNTS: Record<FindingStatus, number> = { open: 0, in_review: 0, resolved: 0, false_positive: 0 };
+
+const describeSuppression = (suppression: Suppression) => {
+  switch (suppression.scope) {
+    case 'transaction':
+      return `${suppression.entity || 'Transaction'} #${suppression.transaction_id}`;
+    case 'vendor':
+      return `Vendor ${suppression.vendor_id}`;
+    default:
+      return `${suppression.pattern?.field} ${suppression.pattern?.operator} ${JSON.stringify(suppression.pattern?.value)}`;
+  }
+};
+
+const formatAmount = (amount: number | null) =>
+  amount === null ? '—' : `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const FindingsTriage: React.FC = () => {
+  const [realmId, setRealmId] = useState('');
+  const [statusFilter, setStatusFilter] = useState<FindingStatus | 'all'>('open');
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [counts, setCounts] = useState<Record<FindingStatus, number>>(EMPTY_COUNTS);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [comment, setComment] = useState('');
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [suppressUntil, setSuppressUntil] = useState('');
+  const [justification, setJustification] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by the refresh button to load the list again
+  const [reloads, setReloads] = useState(0);
+
+  useEffect(() => {
+    const credentials = QuickBooksStorage.loadCredentials();
+    if (credentials) {
+      setRealmId(credentials.realmId);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!realmId) return;
+    setIsLoading(true);
+    setError(null);
+    apiClient.getFindings(realmId, statusFilter === 'all' ? {} : { status: statusFilter })
+      .then(response => {
+        const { data, counts: statusCounts } = response as { data: Finding[]; counts: Record<FindingStatus, number> };
+        setFindings(data);
+        setCounts(statusCounts);
+      })
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load findings'))
+      .finally(() => setIsLoading(false));
+  }, [realmId, statusFilter, reloads]);
+
+  useEffect(() => {
+    if (!realmId) return;
+    apiClient.getSuppressions(realmId)
+      .then(response => setSuppressions((response as { data: Suppression[] }).data))
+      .catch(() => setSuppressions([]));
+  }, [realmId, reloads]);
+
+  const selected = findings.find(finding => finding.id === selectedId) || null;
+
+  const selectFinding = (finding: Finding) => {
+    setSelectedId(finding.id);
+    setAssignee(finding.assignee || '');
+    setNote('');
+    setComment('');
+    setSuppressUntil('');
+    setJustification('');
+  };
+
+  // Swap in the server's copy of a case, keeping the list and counts in step
+  const replaceFinding = (updated: Finding) => {
+    const previous = findings.find(finding => finding.id === updated.id);
+    if (previous && previous.status !== updated.status) {
+      setCounts(current => ({ ...current, [previous.status]: current[previous.status] - 1, [updated.status]: current[updated.status] + 1 }));
+    }
+    setFindings(current => current.map(finding => (finding.id === updated.id ? updated : finding)));
+  };
+
+  const handleUpdate = async (update: { status?: FindingStatus; assignee?: string | null }) => {
+    if (!selected) return;
+    setError(null);
+    try {
+      const response = await apiClient.updateFinding(selected.id, {
+        ...update,
+        ...(note.trim() && { note: note.trim() })
+      }) as { data: Finding };
+      replaceFinding(response.data);
+      setNote('');
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update finding');
+    }
+  };
+
+  const handleComment = async () => {
+    if (!selected || !comment.trim()) return;
+    setError(null);
+    try {
+      const response = await apiClient.addFindingComment(selected.id, comment.trim()) as { data: Finding['comments'][number] };
+      replaceFinding({ ...selected, comments: [...selected.comments, response.data] });
+      setComment('');
+    } catch (commentError) {
+      setError(commentError instanceof Error ? commentError.message : 'Failed to add comment');
+    }
+  };
+
+  // Stop the rule flagging this transaction until a date, and close the case as a false positive
+  const handleSuppress = async () => {
+    if (!selected || !suppressUntil || !justification.trim()) return;
+    setError(null);
+    try {
+      await apiClient.createSuppression({
+        realm_id: selected.realm_id,
+        rule_type: selected.rule_type,
+        scope: 'transaction',
+        transaction_id: selected.transaction_id,
+        entity: selected.entity,
+        expires_on: suppressUntil,
+        justification: justification.trim()
+      });
+      const response = await apiClient.updateFinding(selected.id, {
+        status: 'false_positive',
+        note: `Suppressed until ${suppressUntil}: ${justification.trim()}`
+      }) as { data: Finding };
+      replaceFinding(response.data);
+      setSuppressUntil('');
+      setJustification('');
+      setReloads(count => count + 1);
+    } catch (suppressError) {
+      setError(suppressError instanceof Error ? suppressError.message : 'Failed to suppress finding');
+    }
+  };
+
+  const handleDeleteSuppression = async (id: string) => {
+    setError(null);
+    try {
+      await apiClient.deleteSuppression(id);
+      setSuppressions(current => current.filter(suppression => suppression.id !== id));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete suppression');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 space-y-6">
+      <div className="bg-white border border-gray-200 p-8 rounded">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <ClipboardList className="w-6 h-6 text-gray-800" />
+            <h2 className="text-xl font-semibold text-gray-800">Findings</h2>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={realmId}
+              onChange={e => setRealmId(e.target.value)}
+              placeholder="Realm ID"
+              className="px-3 py-2 bg-gray-50 border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+            />
+            <button
+              onClick={() => setReloads(count => count + 1)}
+              disabled={!realmId || isLoading}
+              className="p-2 hover:bg-gray-100 border border-gray-300 disabled:opacity-50 rounded"
+            >
+              <RefreshCw className={`w-4 h-4 text-gray-600 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {(['all', ...Object.keys(STATUS_LABELS)] as Array<FindingStatus | 'all'>).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1 border text-sm font-medium rounded ${
+                statusFilter === status
+                  ? 'bg-purple-600 text-white border-purple-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:border-purple-500'
+              }`}
+            >
+              {status === 'all'
+                ? `All (${Object.values(counts).reduce((sum, count) => sum + count, 0)})`
+                : `${STATUS_LABELS[status]} (${counts[status]})`}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-700 mb-4">{error}</p>}
+
+        {findings.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ClipboardList className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>{realmId ? 'No findings here. Run rules to flag transactions.' : 'Enter a Realm ID to load its findings.'}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="border border-gray-200 rounded divide-y divide-gray-200 max-h-[36rem] overflow-y-auto">
+              {findings.map(finding => (
+                <button
+                  key={finding.id}
+                  onClick={() => selectFinding(finding)}
+                  className={`w-full text-left p-3 hover:bg-gray-50 ${selectedId === finding.id ? 'bg-purple-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-800">
+                      {finding.entity} {finding.transaction.doc_number || `#${finding.transaction_id}`}
+                      <span className="text-gray-500 font-normal"> · {formatAmount(finding.transaction.amount)}</span>
+                    </span>
+                    <span className={`px-2 py-0.5 text-xs border rounded ${STATUS_STYLES[finding.status]}`}>
+                      {STATUS_LABELS[finding.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">{finding.rule_type}: {finding.reason}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {finding.assignee ? `Assigned to ${finding.assignee}` : 'Unassigned'}
+                    {finding.flag_count > 1 && ` · flagged ${finding.flag_count} times`}
+                    {finding.comments.length > 0 && ` · ${finding.comments.length} comment${finding.comments.length === 1 ? '' : 's'}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {selected ? (
+              <div className="border border-gray-200 p-4 rounded space-y-4">
+                <div>
+                  <p className="text-sm font-semibold text-gray-800">
+                    {selected.entity} {selected.transaction.doc_number || `#${selected.transaction_id}`}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {selected.transaction.name || 'Unknown party'} · {selected.transaction.txn_date || 'No date'} · {formatAmount(selected.transaction.amount)}
+                  </p>
+                  <p className="text-sm text-gray-700 mt-2">{selected.rule_type}: {selected.reason}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    First flagged {new Date(selected.first_flagged_at).toLocaleString()}, last {new Date(selected.last_flagged_at).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    placeholder="Note for the change (optional)"
+                    className="w-full px-2 py-1 bg-gray-50 border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {NEXT_STATUSES[selected.status].map(status => (
+                      <button
+                        key={status}
+                        onClick={() => handleUpdate({ status })}
+                        className={`px-3 py-1 border text-sm font-medium rounded ${STATUS_STYLES[status]}`}
+                      >
+                        {status === 'open' ? 'Reopen' : `Mark ${STATUS_LABELS[status].toLowerCase()}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <User className="w-4 h-4 text-gray-500" />
+                  <input
+                    type="text"
+                    value={assignee}
+                    onChange={e => setAssignee(e.target.value)}
+                    placeholder="Assignee"
+                    className="flex-1 px-2 py-1 bg-gray-50 border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                  />
+                  <button
+                    onClick={() => handleUpdate({ assignee: assignee.trim() || null })}
+                    disabled={(assignee.trim() || null) === selected.assignee}
+                    className="px-3 py-1 bg-white text-gray-700 border border-gray-300 text-sm hover:bg-gray-50 disabled:opacity-50 rounded"
+                  >
+                    {assignee.trim() ? 'Assign' : 'Unassign'}
+                  </button>
+                </div>
+
+                {selected.status !== 'false_positive' && (
+                  <div className="space-y-2">
+                    <p className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                      <BellOff className="w-4 h-4" />
+                      <span>Suppress for this rule</span>
+                    </p>
+                    <div className="flex space-x-2">
+                      <input
+                        type="date"
+                        value={suppressUntil}
+                        min={new Date().toISOString().slice(0, 10)}
+                        onChange={e => setSuppressUntil(e.target.value)}
+                        className="px-2 py-1 bg-gray-50 border border-gray-300 text-sm text-gray-800 rounded"
+                      />
+                      <input
+                        type="text"
+                        value={justification}
+                        onChange={e => setJustification(e.target.value)}
+                        placeholder="Justification"
+                        className="flex-1 px-2 py-1 bg-gray-50 border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                      />
+                      <button
+                        onClick={handleSuppress}
+                        disabled={!suppressUntil || !justification.trim()}
+                        className="px-3 py-1 bg-white text-gray-700 border border-gray-300 text-sm hover:bg-gray-50 disabled:opacity-50 rounded"
+                      >
+                        Suppress
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <p className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                    <MessageSquare className="w-4 h-4" />
+                    <span>Comments</span>
+                  </p>
+                  {selected.comments.map(entry => (
+                    <div key={entry.id} className="bg-gray-50 border border-gray-200 p-2 rounded">
+                      <p className="text-xs text-gray-500">{entry.author} · {new Date(entry.created_at).toLocaleString()}</p>
+                      <p className="text-sm text-gray-800 whitespace-pre-wrap">{entry.text}</p>
+                    </div>
+                  ))}
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={comment}
+                      onChange={e => setComment(e.target.value)}
+                      onKeyDown={e => e.key === 'Enter' && handleComment()}
+                      placeholder="Add a comment"
+                      className="flex-1 px-2 py-1 bg-gray-50 border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                    />
+                    <button
+                      onClick={handleComment}
+                      disabled={!comment.trim()}
+                      className="px-3 py-1 bg-purple-600 text-white border border-purple-600 text-sm hover:bg-purple-700 disabled:opacity-50 rounded"
+                    >
+                      Comment
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">History</p>
+                  <ul className="space-y-1">
+                    {selected.history.map((entry, index) => (
+                      <li key={index} className="text-xs text-gray-600">
+                        {new Date(entry.at).toLocaleString()} · {entry.by}:{' '}
+                        {entry.from === entry.to
+                          ? entry.note
+                          : `${entry.from ? `${STATUS_LABELS[entry.from]} → ` : ''}${STATUS_LABELS[entry.to]}${entry.note ? ` (${entry.note})` : ''}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            ) : (
+              <div className="border border-dashed border-gray-300 p-8 rounded text-center text-sm text-gray-500">
+                Select a finding to review it
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {suppressions.length > 0 && (
+        <div className="bg-white border border-gray-200 p-8 rounded">
+          <div className="flex items-center space-x-3 mb-4">
+            <BellOff className="w-5 h-5 text-gray-800" />
+            <h3 className="text-lg font-semibold text-gray-800">Active Suppressions</h3>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {suppressions.map(suppression => (
+              <li key={suppression.id} className="flex items-start justify-between py-2">
+                <div>
+                  <p className="text-sm text-gray-800">
+                    {suppression.rule_type} · {describeSuppression(suppression)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Until {suppression.expires_on} · {suppression.justification} · {suppression.created_by}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteSuppression(suppression.id)}
+                  title="Lift suppression"
+                  className="p-1 text-gray-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
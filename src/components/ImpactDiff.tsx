@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronRight, MinusCircle, PlusCircle, CircleDot } from 'lucide-react';
+import { ImpactTransaction, RuleImpactPreview } from '../types/audit';
+
+// Rows shown per section before the rest are summarized
+const MAX_ROWS = 50;
+
+interface ImpactDiffProps {
+  preview: RuleImpactPreview;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isConfirming?: boolean;
+}
+
+const SECTIONS = [
+  { key: 'newly_flagged', label: 'Newly flagged', icon: PlusCircle, tone: 'text-red-700 border-red-300 bg-red-50' },
+  { key: 'no_longer_flagged', label: 'No longer flagged', icon: MinusCircle, tone: 'text-green-700 border-green-300 bg-green-50' },
+  { key: 'still_flagged', label: 'Still flagged', icon: CircleDot, tone: 'text-gray-700 border-gray-300 bg-gray-50' }
+] as const;
+
+const formatAmount = (amount: number | null) =>
+  amount === null ? '—' : `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const versionLabel = (version: number | null) => (version === null ? 'new version' : `v${version}`);
+
+export const ImpactDiff: React.FC<ImpactDiffProps> = ({ preview, confirmLabel, onConfirm, onCancel, isConfirming = false }) => {
+  // Changes are what the reviewer needs to see; unchanged hits start collapsed
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({ newly_flagged: true, no_longer_flagged: true });
+
+  const renderRows = (transactions: ImpactTransaction[]) => (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-2 font-medium">Transaction</th>
+          <th className="py-1 pr-2 font-medium">Date</th>
+          <th className="py-1 pr-2 font-medium">Name</th>
+          <th className="py-1 pr-2 font-medium text-right">Amount</th>
+          <th className="py-1 font-medium">Reason</th>
+        </tr>
+      </thead>
+      <tbody>
+        {transactions.slice(0, MAX_ROWS).map(transaction => (
+          <tr key={`${transaction.entity}:${transaction.transaction_id}`} className="border-t border-gray-100 text-gray-800">
+            <td className="py-1 pr-2">
+              {transaction.entity} {transaction.doc_number || `#${transaction.transaction_id}`}
+            </td>
+            <td className="py-1 pr-2">{transaction.txn_date || '—'}</td>
+            <td className="py-1 pr-2">{transaction.name || '—'}</td>
+            <td className="py-1 pr-2 text-right">{formatAmount(transaction.amount)}</td>
+            <td className="py-1 text-gray-600">{transaction.reason}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="border border-purple-200 bg-white p-4 rounded space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-800">
+          Impact of {versionLabel(preview.candidate.version)}
+          {preview.current ? ` compared with active v${preview.current.version}` : ''}
+        </h4>
+        <p className="text-xs text-gray-500 mt-1">
+          {preview.summary.transactions_checked} {preview.entities.join(', ')} transactions checked · {preview.scope.label}
+          {!preview.current && ' · No active version to compare with, so every match is new'}
+        </p>
+      </div>
+
+      {preview.warnings.map(warning => (
+        <div key={warning.message} className="flex items-start space-x-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 p-2 rounded">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>{warning.message}</span>
+        </div>
+      ))}
+
+      {SECTIONS.map(({ key, label, icon: Icon, tone }) => {
+        const transactions = preview[key];
+        const isOpen = expanded[key] && transactions.length > 0;
+        return (
+          <div key={key} className="border border-gray-200 rounded">
+            <button
+              onClick={() => setExpanded(state => ({ ...state, [key]: !state[key] }))}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm"
+            >
+              <span className="flex items-center space-x-2">
+                {isOpen ? <ChevronDown className="w-4 h-4 text-gray-500" /> : <ChevronRight className="w-4 h-4 text-gray-500" />}
+                <Icon className="w-4 h-4 text-gray-600" />
+                <span className="font-medium text-gray-800">{label}</span>
+              </span>
+              <span className={`px-2 py-0.5 text-xs font-medium border rounded ${tone}`}>{transactions.length}</span>
+            </button>
+            {isOpen && (
+              <div className="px-3 pb-3 overflow-x-auto">
+                {renderRows(transactions)}
+                {transactions.length > MAX_ROWS && (
+                  <p className="text-xs text-gray-500 mt-2">and {transactions.length - MAX_ROWS} more</p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          disabled={isConfirming}
+          className="px-4 py-2 bg-white text-gray-700 border border-gray-300 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 rounded"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isConfirming}
+          className="px-4 py-2 bg-purple-600 text-white border border-purple-600 text-sm font-medium hover:bg-purple-700 disabled:opacity-50 rounded"
+        >
+          {isConfirming ? 'Working...' : confirmLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -12,14 +12,50 @@ import {
   WifiOff,
   Key,
   Server,
-  ServerOff
+  ServerOff,
+  Plus,
+  X,
+  XCircle,
+  FlaskConical,
+  History
 } from 'lucide-react';
 import { RuleParser } from '../services/ruleParser';
 import { RuleStorage } from '../services/ruleStorage';
-import { AuditRule, ConversionResult } from '../types/audit';
+import { AuditRule, ConversionResult, ExampleExpectation, RuleExample, RuleExampleRun, RuleImpactPreview } from '../types/audit';
 import { apiClient } from '../services/apiClient';
 import { QuickBooksStorage } from '../services/quickbooksStorage';
 import { OAuthButton } from './OAuthButton';
+import { ImpactDiff } from './ImpactDiff';
+
+// A labeled example being written; its transaction is edited as JSON
+interface ExampleDraft {
+  description: string;
+  expect: ExampleExpectation;
+  transaction: string;
+}
+
+const EXAMPLE_LABELS: Record<ExampleExpectation, string> = {
+  flag: 'Should flag',
+  no_flag: 'Should not flag'
+};
+
+const parseExampleDrafts = (drafts: ExampleDraft[]): RuleExample[] =>
+  drafts.map((draft, index) => {
+    let transaction: unknown;
+    try {
+      transaction = JSON.parse(draft.transaction);
+    } catch {
+      throw new Error(`Example ${index + 1}: transaction is not valid JSON`);
+    }
+    if (!transaction || typeof transaction !== 'object' || Array.isArray(transaction)) {
+      throw new Error(`Example ${index + 1}: transaction must be a JSON object`);
+    }
+    return {
+      expect: draft.expect,
+      transaction: transaction as Record<string, unknown>,
+      ...(draft.description.trim() && { description: draft.description.trim() })
+    };
+  });
 
 export const RuleConverter: React.FC = () => {
   const [instruction, setInstruction] = useState('');
@@ -32,6 +68,19 @@ export const RuleConverter: React.FC = () => {
   const [realmId, setRealmId] = useState('');
   const [accessToken, setAccessToken] = useState('');
   const [entity, setEntity] = useState('Expense');
+  const [exampleDrafts, setExampleDrafts] = useState<ExampleDraft[]>([]);
+  const [exampleRun, setExampleRun] = useState<RuleExampleRun | null>(null);
+  const [exampleError, setExampleError] = useState<string | null>(null);
+  const [isCheckingExamples, setIsCheckingExamples] = useState(false);
+  const [impactPreview, setImpactPreview] = useState<RuleImpactPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyRuleType, setHistoryRuleType] = useState<string | null>(null);
+  const [ruleVersions, setRuleVersions] = useState<AuditRule[]>([]);
+  const [rollbackPreview, setRollbackPreview] = useState<{ version: number; preview: RuleImpactPreview } | null>(null);
+  const [rollbackError, setRollbackError] = useState<string | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
 
   useEffect(() => {
     checkServerConnection();
@@ -104,7 +153,15 @@ export const RuleConverter: React.FC = () => {
         accessToken.trim() || null, // Pass null if empty to use OAuth
         entity
       );
+      // Bind the rule to the entity it was parsed against; three-way matches always audit bills
+      if (conversionResult.rule && !conversionResult.rule.entities && conversionResult.rule.kind !== 'three_way_match') {
+        conversionResult.rule = { ...conversionResult.rule, entities: [entity] };
+      }
       setResult(conversionResult);
+      setExampleRun(null);
+      setExampleError(null);
+      setImpactPreview(null);
+      setPreviewError(null);
     } catch (error) {
       setResult({
         success: false,
@@ -115,18 +172,158 @@ export const RuleConverter: React.FC = () => {
     }
   };
 
+  const updateExampleDraft = (index: number, changes: Partial<ExampleDraft>) => {
+    setExampleDrafts(drafts => drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+    setExampleRun(null);
+  };
+
+  const addExampleDraft = (expect: ExampleExpectation) => {
+    setExampleDrafts(drafts => [...drafts, { description: '', expect, transaction: '{\n  "TotalAmt": 0\n}' }]);
+    setExampleRun(null);
+  };
+
+  const removeExampleDraft = (index: number) => {
+    setExampleDrafts(drafts => drafts.filter((_, i) => i !== index));
+    setExampleRun(null);
+  };
+
+  const handleCheckExamples = async () => {
+    if (!result?.rule) return;
+    setExampleError(null);
+    setIsCheckingExamples(true);
+    try {
+      const examples = parseExampleDrafts(exampleDrafts);
+      const response = await apiClient.checkRuleExamples(result.rule, examples) as { data: RuleExampleRun };
+      setExampleRun(response.data);
+    } catch (error) {
+      setExampleRun(null);
+      setExampleError(error instanceof Error ? error.message : 'Failed to check examples');
+    } finally {
+      setIsCheckingExamples(false);
+    }
+  };
+
+  // Connection the server validates and dry-runs the parsed rule against
+  // Three-way match conditions select bills, so their fields are checked against Bill
+  const ruleContext = () => ({
+    realmId,
+    accessToken: accessToken.trim() || null,
+    entity: result?.rule?.kind === 'three_way_match' ? 'Bill' : result?.rule?.entities?.[0] ?? entity
+  });
+
+  // The parsed rule with its labeled examples, or null if an example is invalid
+  const ruleWithExamples = () => {
+    if (!result?.rule) return null;
+    try {
+      const examples = parseExampleDrafts(exampleDrafts);
+      return examples.length > 0 ? { ...result.rule, examples } : result.rule;
+    } catch (error) {
+      setExampleError(error instanceof Error ? error.message : 'Invalid examples');
+      return null;
+    }
+  };
+
+  const clearImpactPreview = () => {
+    setImpactPreview(null);
+    setPreviewError(null);
+  };
+
+  // Show what the rule would change against the active version before saving it
+  const handlePreviewRule = async () => {
+    const rule = ruleWithExamples();
+    if (!rule) return;
+
+    clearImpactPreview();
+    setIsPreviewing(true);
+    try {
+      const response = await apiClient.previewRule(rule, ruleContext()) as { data: RuleImpactPreview };
+      setImpactPreview(response.data);
+    } catch (error) {
+      setPreviewError(`Impact preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleSaveRule = async () => {
     if (!result?.rule) return;
+    const rule = ruleWithExamples();
+    if (!rule) return;
 
+    setIsSaving(true);
     try {
-      const savedRule = await RuleStorage.saveRule(result.rule, instruction, 'user');
+      const savedRule = await RuleStorage.saveRule(rule, instruction, 'user', ruleContext());
       await loadSavedRules();
+      clearImpactPreview();
+
+      // The server keeps a rule that fails its examples inactive
+      if (!savedRule.is_active && savedRule.example_results) {
+        setExampleRun(savedRule.example_results);
+        setExampleError(`Rule saved inactive: ${savedRule.example_results.failed} of ${savedRule.example_results.total} examples failed. Adjust the instruction or the examples and save again.`);
+        return;
+      }
       
       // Clear the form
       setInstruction('');
       setResult(null);
+      setExampleDrafts([]);
+      setExampleRun(null);
+      setExampleError(null);
     } catch (error) {
       console.error('Failed to save rule:', error);
+      // Surface validation errors from the server (e.g. unknown fields)
+      const errorWithDetails = error as Error & { suggestions?: string[]; data?: ConversionResult };
+      setResult({
+        success: false,
+        rule: result.rule,
+        error: `Failed to save rule: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        suggestions: errorWithDetails.suggestions,
+        validation_errors: errorWithDetails.data?.validation_errors
+      });
+      clearImpactPreview();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleHistory = async (ruleType: string) => {
+    setRollbackPreview(null);
+    setRollbackError(null);
+    if (historyRuleType === ruleType) {
+      setHistoryRuleType(null);
+      return;
+    }
+    setHistoryRuleType(ruleType);
+    setRuleVersions(await RuleStorage.getRuleVersions(ruleType));
+  };
+
+  const handlePreviewRollback = async (ruleType: string, version: number) => {
+    setRollbackPreview(null);
+    setRollbackError(null);
+    setIsRollingBack(true);
+    try {
+      const response = await apiClient.previewRollback(ruleType, version, { realmId, accessToken: accessToken.trim() || null, entity }) as { data: RuleImpactPreview };
+      setRollbackPreview({ version, preview: response.data });
+    } catch (error) {
+      setRollbackError(`Impact preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const handleConfirmRollback = async (ruleType: string, version: number) => {
+    setIsRollingBack(true);
+    try {
+      // Called directly so a rejected rollback (e.g. failing examples) shows its reason
+      await apiClient.rollbackRule(ruleType, version);
+      setRollbackPreview(null);
+      setRollbackError(null);
+      await loadSavedRules();
+      setRuleVersions(await RuleStorage.getRuleVersions(ruleType));
+    } catch (error) {
+      setRollbackError(`Rollback failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRollingBack(false);
     }
   };
 
@@ -430,17 +627,159 @@ export const RuleConverter: React.FC = () => {
                 </pre>
               </div>
 
+              {/* Regression examples */}
+              <div className="border border-gray-200 p-4 rounded space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <FlaskConical className="w-4 h-4 text-gray-600" />
+                    <span className="text-sm font-medium text-gray-700">Examples</span>
+                    {exampleRun && exampleRun.total > 0 && (
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded border ${
+                        exampleRun.status === 'passing'
+                          ? 'border-green-300 bg-green-50 text-green-700'
+                          : 'border-red-300 bg-red-50 text-red-700'
+                      }`}>
+                        {exampleRun.passed}/{exampleRun.total} passing
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => addExampleDraft('flag')}
+                      className="px-2 py-1 bg-white text-gray-700 border border-gray-300 text-xs font-medium hover:bg-gray-50 flex items-center space-x-1 rounded"
+                    >
+                      <Plus className="w-3 h-3" />
+                      <span>Should flag</span>
+                    </button>
+                    <button
+                      onClick={() => addExampleDraft('no_flag')}
+                      className="px-2 py-1 bg-white text-gray-700 border border-gray-300 text-xs font-medium hover:bg-gray-50 flex items-center space-x-1 rounded"
+                    >
+                      <Plus className="w-3 h-3" />
+                      <span>Should not flag</span>
+                    </button>
+                    <button
+                      onClick={handleCheckExamples}
+                      disabled={exampleDrafts.length === 0 || isCheckingExamples || !serverStatus.connected}
+                      className="px-2 py-1 bg-purple-600 text-white border border-purple-600 text-xs font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded"
+                    >
+                      {isCheckingExamples ? 'Checking...' : 'Check Examples'}
+                    </button>
+                  </div>
+                </div>
+
+                {exampleDrafts.length === 0 ? (
+                  <p className="text-xs text-gray-500">
+                    Add transactions this rule must or must not flag. They run on every save, edit and rollback, and a rule that fails them stays inactive.
+                  </p>
+                ) : (
+                  exampleDrafts.map((draft, index) => {
+                    const outcome = exampleRun?.results[index];
+                    return (
+                      <div key={index} className={`border p-3 rounded space-y-2 ${
+                        outcome ? (outcome.passed ? 'border-green-300' : 'border-red-300') : 'border-gray-200'
+                      }`}>
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={draft.expect}
+                            onChange={e => updateExampleDraft(index, { expect: e.target.value as ExampleExpectation })}
+                            className="px-2 py-1 bg-gray-50 border border-gray-300 text-xs text-gray-800 rounded"
+                          >
+                            {(Object.keys(EXAMPLE_LABELS) as ExampleExpectation[]).map(expect => (
+                              <option key={expect} value={expect}>{EXAMPLE_LABELS[expect]}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={draft.description}
+                            onChange={e => updateExampleDraft(index, { description: e.target.value })}
+                            placeholder="What this example covers"
+                            className="flex-1 px-2 py-1 bg-gray-50 border border-gray-300 text-xs text-gray-800 placeholder-gray-400 rounded"
+                          />
+                          {outcome && (
+                            <span className={`flex items-center space-x-1 text-xs font-medium ${outcome.passed ? 'text-green-700' : 'text-red-700'}`}>
+                              {outcome.passed ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                              <span>{outcome.passed ? 'Pass' : 'Fail'}</span>
+                            </span>
+                          )}
+                          <button
+                            onClick={() => removeExampleDraft(index)}
+                            className="p-1 hover:bg-gray-100 rounded"
+                          >
+                            <X className="w-4 h-4 text-gray-500" />
+                          </button>
+                        </div>
+                        <textarea
+                          value={draft.transaction}
+                          onChange={e => updateExampleDraft(index, { transaction: e.target.value })}
+                          className="w-full h-24 px-2 py-1 bg-gray-50 border border-gray-300 text-xs font-mono text-gray-800 rounded"
+                        />
+                        {outcome && !outcome.passed && (
+                          <p className="text-xs text-red-700">
+                            {outcome.error
+                              ? `Evaluation failed: ${outcome.error}`
+                              : outcome.flagged
+                                ? `Expected no flag, but the rule flagged it${outcome.reason ? `: ${outcome.reason}` : ''}`
+                                : 'Expected a flag, but the rule did not flag it'}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+
+                {exampleError && (
+                  <p className="text-xs text-red-700">{exampleError}</p>
+                )}
+              </div>
+
+              {result.validation_warnings && result.validation_warnings.length > 0 && (
+                <ul className="list-disc list-inside space-y-1 text-xs text-orange-700">
+                  {result.validation_warnings.map((warning, index) => (
+                    <li key={index}>{warning.message}</li>
+                  ))}
+                </ul>
+              )}
+
               <div className="flex items-center justify-between">
                 <div className="text-sm text-gray-600">
                   Confidence Score: <span className="font-medium text-gray-800">{(result.rule.confidence_score * 100).toFixed(1)}%</span>
                 </div>
-                <button
-                  onClick={handleSaveRule}
-                  className="px-4 py-2 bg-purple-600 text-white border border-purple-600 font-medium hover:bg-purple-700 transition-colors duration-200 rounded"
-                >
-                  Save Rule
-                </button>
+                {!impactPreview && (
+                  <div className="flex items-center space-x-2">
+                    {previewError && (
+                      <button
+                        onClick={handleSaveRule}
+                        disabled={isSaving}
+                        className="px-4 py-2 bg-white text-gray-700 border border-gray-300 font-medium hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50 rounded"
+                      >
+                        {isSaving ? 'Saving...' : 'Save anyway'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handlePreviewRule}
+                      disabled={isPreviewing || isSaving}
+                      className="px-4 py-2 bg-purple-600 text-white border border-purple-600 font-medium hover:bg-purple-700 transition-colors duration-200 disabled:opacity-50 rounded"
+                    >
+                      {isPreviewing ? 'Previewing impact...' : 'Save Rule'}
+                    </button>
+                  </div>
+                )}
               </div>
+
+              {previewError && (
+                <p className="text-sm text-red-700">{previewError}</p>
+              )}
+
+              {impactPreview && (
+                <ImpactDiff
+                  preview={impactPreview}
+                  confirmLabel="Confirm & Save"
+                  onConfirm={handleSaveRule}
+                  onCancel={clearImpactPreview}
+                  isConfirming={isSaving}
+                />
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -502,6 +841,20 @@ export const RuleConverter: React.FC = () => {
                       <span className="px-2 py-1 bg-white border border-gray-300 text-gray-700 text-xs font-medium rounded">
                         {rule.action}
                       </span>
+                      {rule.entities && (
+                        <span className="px-2 py-1 bg-white border border-purple-300 text-purple-700 text-xs font-medium rounded">
+                          {rule.entities.join(', ')}
+                        </span>
+                      )}
+                      {rule.example_results && rule.example_results.total > 0 && (
+                        <span className={`px-2 py-1 border text-xs font-medium rounded ${
+                          rule.example_results.status === 'passing'
+                            ? 'border-green-300 bg-green-50 text-green-700'
+                            : 'border-red-300 bg-red-50 text-red-700'
+                        }`}>
+                          Examples {rule.example_results.passed}/{rule.example_results.total}
+                        </span>
+                      )}
                       <span className="text-xs text-gray-500">v{rule.version}</span>
                       <span className="text-xs text-gray-500">
                         {(rule.confidence_score * 100).toFixed(0)}% confidence
@@ -511,6 +864,13 @@ export const RuleConverter: React.FC = () => {
                     <p className="text-xs text-gray-500">{rule.reason}</p>
                   </div>
                   <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => handleToggleHistory(rule.rule_type)}
+                      disabled={!serverStatus.connected}
+                      className="p-2 hover:bg-gray-100 border border-gray-300 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed rounded"
+                    >
+                      <History className="w-4 h-4 text-gray-600" />
+                    </button>
                     <button
                       onClick={() => setShowRuleDetails(showRuleDetails === rule.id ? null : rule.id)}
                       className="p-2 hover:bg-gray-100 border border-gray-300 transition-colors duration-200 rounded"
@@ -534,6 +894,42 @@ export const RuleConverter: React.FC = () => {
                     </pre>
                   </div>
                 )}
+
+                {historyRuleType === rule.rule_type && (
+                  <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                    <p className="text-sm font-medium text-gray-700">Version history</p>
+                    {ruleVersions.map(version => (
+                      <div key={version.id} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-800">
+                          v{version.version}
+                          <span className="text-xs text-gray-500 ml-2">{new Date(version.created_at).toLocaleString()}</span>
+                          {version.is_active && <span className="text-xs text-green-700 ml-2">active</span>}
+                        </span>
+                        {!version.is_active && (
+                          <button
+                            onClick={() => handlePreviewRollback(rule.rule_type, version.version)}
+                            disabled={isRollingBack}
+                            className="px-2 py-1 bg-white text-gray-700 border border-gray-300 text-xs font-medium hover:bg-gray-50 disabled:opacity-50 rounded"
+                          >
+                            Preview rollback
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {rollbackError && (
+                      <p className="text-xs text-red-700">{rollbackError}</p>
+                    )}
+                    {rollbackPreview && (
+                      <ImpactDiff
+                        preview={rollbackPreview.preview}
+                        confirmLabel={`Roll back to v${rollbackPreview.version}`}
+                        onConfirm={() => handleConfirmRollback(rule.rule_type, rollbackPreview.version)}
+                        onCancel={() => setRollbackPreview(null)}
+                        isConfirming={isRollingBack}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
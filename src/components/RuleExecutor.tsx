@@ -10,27 +10,164 @@ import {
   Zap,
   Database,
   AlertTriangle,
-  Trash2
+  Trash2,
+  Copy,
+  Sigma,
+  RefreshCw
 } from 'lucide-react';
 import { RuleStorage } from '../services/ruleStorage';
-import { AuditRule } from '../types/audit';
+import { AuditRule, DuplicateConfig, PeriodName, RuleSeverity, RunPeriod, RunScope, ThreeWayMatchCheck } from '../types/audit';
 import { apiClient } from '../services/apiClient';
 import { QuickBooksStorage } from '../services/quickbooksStorage';
 import { OAuthButton } from './OAuthButton';
+import { BenfordAnalysis, BenfordResult } from './BenfordAnalysis';
+import { WriteBackPanel } from './WriteBackPanel';
+
+interface TypeCoercion {
+  applied_to: 'actual_value' | 'value';
+  from: string;
+  to: string;
+  method: string;
+}
+
+interface EvaluationTraceNode {
+  type: 'condition' | 'group';
+  result: boolean;
+  raw_result: boolean;
+  negate?: boolean;
+  logical_operator?: 'AND' | 'OR';
+  // Conditions
+  field?: string;
+  operator?: string;
+  value?: unknown;
+  actual_value?: unknown;
+  line_values?: unknown[];
+  line_index?: number;
+  coercion?: TypeCoercion[];
+  // Groups
+  logic?: 'AND' | 'OR';
+  scope?: 'line';
+  derivation?: string;
+  children?: EvaluationTraceNode[];
+}
+
+interface LinkedDocument {
+  Id: string;
+  DocNumber?: string;
+  TxnDate?: string;
+  amount: number;
+}
+
+const LINKED_DOCUMENT_LABELS = {
+  purchase_orders: 'Purchase Orders',
+  payments: 'Payments',
+  bills_against_po: 'Bills Against PO'
+} as const;
+
+const PERIOD_LABELS: Record<PeriodName, string> = {
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_quarter: 'This quarter',
+  last_quarter: 'Last quarter',
+  this_year: 'This year',
+  last_year: 'Last year',
+  this_fiscal_quarter: 'This fiscal quarter',
+  last_fiscal_quarter: 'Last fiscal quarter',
+  this_fiscal_year: 'This fiscal year',
+  last_fiscal_year: 'Last fiscal year'
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+interface IncrementalRunInfo {
+  mode: 'full' | 'delta';
+  changed_since: string | null;
+  source: 'cdc' | 'last_updated_time' | null;
+  changed_records: number | null;
+  deleted_records: number;
+  voided_records: number;
+  new_findings: number;
+  closed_findings: Array<{
+    transaction_id: string;
+    rule_id: string;
+    rule_type: string;
+    closed_reason: 'deleted' | 'voided' | 'cleared';
+    closed_at: string;
+  }>;
+  skipped_rules: Array<{ rule_id: string; rule_type: string; kind: string; reason: string }>;
+  checkpoint_advanced: boolean;
+}
+
+interface PopulationWarning {
+  code: 'population_truncated';
+  entity: string;
+  fetched_count: number;
+  total_count: number;
+  max_records: number;
+  message: string;
+}
 
 interface ExecutionResult {
   rule_id: string;
   rule_type: string;
   entity: string;
   total_transactions: number;
+  population_count?: number;
+  scope?: RunScope;
+  warnings?: PopulationWarning[];
   flagged_transactions: Array<{
     id: string;
-    transaction_data: Record<string, unknown>;
+    transaction_data?: Record<string, unknown>;
+    // For aggregate rules
+    group?: {
+      key: string;
+      values: Record<string, string>;
+      window_start: string | null;
+      window_end: string | null;
+    };
+    // For duplicate rules
+    cluster?: {
+      score: number;
+      pairs: Array<{
+        ids: [string, string];
+        score: number;
+        similarities: Record<string, number>;
+      }>;
+    };
+    member_transactions?: Array<Record<string, unknown>>;
+    // For outlier rules
+    baseline?: {
+      group_field: string;
+      group_key: string;
+      field: string;
+      count: number;
+      mean: number;
+      stddev: number;
+      median: number;
+      mad: number;
+      min: number;
+      max: number;
+      upper_bound?: number;
+      lower_bound?: number;
+    };
+    deviation?: {
+      method: 'zscore' | 'mad' | 'percentile';
+      score: number;
+      threshold: number;
+      direction: 'high' | 'low' | 'both';
+    };
+    // For three-way match rules
+    entity?: 'Bill' | 'BillPayment';
+    checks?: ThreeWayMatchCheck[];
+    linked?: Partial<Record<'purchase_orders' | 'payments' | 'bills_against_po', LinkedDocument[]>>;
     matched_conditions: Array<{
       field: string;
       operator: string;
       value: string | number | boolean;
+      negate?: boolean;
+      result?: boolean;
       actual_value: string | number | boolean;
+      coercion?: TypeCoercion[];
       flagged_field_data?: {
         // For Line fields
         line_index?: number;
@@ -43,14 +180,22 @@ interface ExecutionResult {
         field_name?: string;
       };
     }>;
+    evaluation_trace?: EvaluationTraceNode;
     action: string;
     reason: string;
     flagged_at: string;
   }>;
+  // Flags matching an active suppression, left out of flagged_transactions
+  suppressed_transactions?: Array<{ id: string; reason: string; suppression_ids: string[] }>;
   execution_summary: {
     total_checked: number;
     flagged_count: number;
+    suppressed_count?: number;
     execution_time: number;
+    fetch_time?: number;
+    evaluation_time?: number;
+    population_count?: number;
+    truncated?: boolean;
     flag_rate: string;
   };
 }
@@ -62,16 +207,140 @@ interface BatchExecutionResult {
     failed_executions: number;
     total_transactions_checked: number;
     total_transactions_flagged: number;
+    total_transactions_suppressed?: number;
+    unique_transactions_flagged?: number;
     total_execution_time: number;
+    total_fetch_time?: number;
+    total_evaluation_time?: number;
+    entities_fetched?: number;
+    dataset_cache_hits?: number;
+    truncated_populations?: number;
   };
+  scope?: RunScope;
+  warnings?: PopulationWarning[];
+  incremental?: IncrementalRunInfo;
+  // Cases the run opened or updated in the findings store
+  findings?: { created: number; updated: number; reopened: number; resolved?: number };
   individual_results: Array<{
     success: boolean;
     data?: ExecutionResult;
     error?: string;
   }>;
+  risk_queue?: RiskQueueEntry[];
+  by_entity?: Array<{
+    entity: string;
+    rule_ids: string[];
+    summary: BatchExecutionResult['summary'];
+  }>;
   executed_at: string;
 }
 
+// A rule bound to several entities has one result per entity
+const resultKey = (data?: ExecutionResult) => (data ? `${data.entity}:${data.rule_id}` : null);
+
+/**
+ * Split batch results into their entity groups. Results are listed in
+ * by_entity order, each group holding one result per rule.
+ */
+const groupResultsByEntity = (result: BatchExecutionResult) => {
+  if (!result.by_entity || result.by_entity.length < 2) {
+    return [{ entity: null, summary: null, results: result.individual_results }];
+  }
+  let offset = 0;
+  return result.by_entity.map(group => {
+    const results = result.individual_results.slice(offset, offset + group.rule_ids.length);
+    offset += group.rule_ids.length;
+    return { entity: group.entity, summary: group.summary, results };
+  });
+};
+
+interface RiskQueueEntry {
+  transaction_id: string;
+  entity?: string;
+  score: number;
+  risk_level: RuleSeverity;
+  hit_count: number;
+  contributing_rules: Array<{
+    rule_id: string;
+    rule_type: string;
+    kind: string;
+    severity: RuleSeverity;
+    weight: number;
+    score: number;
+    finding_id: string;
+    action: string;
+    reason: string;
+  }>;
+  transaction_data?: Record<string, unknown>;
+}
+
+const SEVERITY_STYLES: Record<RuleSeverity, string> = {
+  low: 'border-gray-300 text-gray-700 bg-gray-50',
+  medium: 'border-yellow-400 text-yellow-800 bg-yellow-50',
+  high: 'border-orange-400 text-orange-800 bg-orange-50',
+  critical: 'border-red-500 text-red-800 bg-red-50'
+};
+
+const formatCoercion = (coercion: TypeCoercion) =>
+  `${coercion.applied_to === 'value' ? 'rule value' : 'actual value'}: ${coercion.from} → ${coercion.to} (${coercion.method})`;
+
+// Renders one node of a flagged transaction's evaluation trace
+const TraceNodeView: React.FC<{ node: EvaluationTraceNode }> = ({ node }) => {
+  const resultClass = node.result
+    ? 'bg-green-100 border-green-400 text-green-900'
+    : 'bg-gray-100 border-gray-300 text-gray-600';
+
+  if (node.type === 'condition') {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-800">
+        {node.logical_operator && <span className="font-medium text-gray-500">{node.logical_operator}</span>}
+        <span className={`border px-1 rounded ${resultClass}`}>{String(node.result)}</span>
+        {node.negate && <span className="font-medium text-gray-700">NOT</span>}
+        <span className="font-medium">{node.field}</span>
+        <span className="text-gray-500">{node.operator}</span>
+        <span className="bg-white border border-gray-300 px-1 rounded">{JSON.stringify(node.value)}</span>
+        <span className="text-gray-500">actual</span>
+        <span className="bg-white border border-gray-300 px-1 rounded">
+          {node.line_values ? JSON.stringify(node.line_values) : JSON.stringify(node.actual_value)}
+        </span>
+        {node.line_index !== undefined && <span className="text-gray-500">line {node.line_index}</span>}
+        {node.coercion?.map((coercion, index) => (
+          <span key={index} className="text-gray-500 italic">{formatCoercion(coercion)}</span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-800">
+        {node.logical_operator && <span className="font-medium text-gray-500">{node.logical_operator}</span>}
+        <span className={`border px-1 rounded ${resultClass}`}>{String(node.result)}</span>
+        <span className="font-medium">
+          {node.negate ? 'NOT ' : ''}{node.scope === 'line' ? 'same line ' : ''}{node.logic || 'group'}
+        </span>
+        <span className="text-gray-500 font-mono">{node.derivation}</span>
+      </div>
+      <div className="ml-4 pl-2 border-l border-gray-300 space-y-1">
+        {node.children?.map((child, index) => (
+          <TraceNodeView key={index} node={child} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Default duplicate-payment detector settings used by "Find Duplicates"
+const DEFAULT_DUPLICATE_CONFIG: DuplicateConfig = {
+  keys: {
+    vendor: true,
+    amount: { tolerance: 0.01 },
+    date: { days: 7 },
+    text: { min_similarity: 0.6 }
+  },
+  min_score: 0.75
+};
+
 export const RuleExecutor: React.FC = () => {
   const [savedRules, setSavedRules] = useState<AuditRule[]>([]);
   const [selectedRules, setSelectedRules] = useState<string[]>([]);
@@ -82,6 +351,14 @@ export const RuleExecutor: React.FC = () => {
   const [executionResult, setExecutionResult] = useState<BatchExecutionResult | null>(null);
   const [showDetails, setShowDetails] = useState<string | null>(null);
   const [expandedFieldData, setExpandedFieldData] = useState<string | null>(null);
+  const [expandedTrace, setExpandedTrace] = useState<string | null>(null);
+  const [benfordField, setBenfordField] = useState('TotalAmt');
+  // 'all', 'custom' or a named period
+  const [periodChoice, setPeriodChoice] = useState<'all' | 'custom' | PeriodName>('all');
+  const [periodFrom, setPeriodFrom] = useState('');
+  const [periodTo, setPeriodTo] = useState('');
+  const [fiscalStartMonth, setFiscalStartMonth] = useState(1);
+  const [benfordResult, setBenfordResult] = useState<BenfordResult | null>(null);
   const [serverStatus, setServerStatus] = useState<{ connected: boolean; error: string | null }>({ connected: false, error: null });
   const [dataContext, setDataContext] = useState<Record<string, unknown> | null>(null);
   const [showDataContext, setShowDataContext] = useState(false);
@@ -138,6 +415,18 @@ export const RuleExecutor: React.FC = () => {
     setSelectedRules([]);
   };
 
+  // The period selected in the picker, or undefined to audit all dates
+  const buildRunPeriod = (): RunPeriod | undefined => {
+    if (periodChoice === 'all') return undefined;
+    if (periodChoice === 'custom') {
+      if (!periodFrom && !periodTo) return undefined;
+      return { ...(periodFrom && { from: periodFrom }), ...(periodTo && { to: periodTo }) };
+    }
+    return periodChoice.includes('fiscal')
+      ? { name: periodChoice, fiscal_year_start_month: fiscalStartMonth }
+      : { name: periodChoice };
+  };
+
   const handleExecuteSelected = async () => {
     if (selectedRules.length === 0 || !realmId.trim() || !entity.trim()) {
       return;
@@ -146,7 +435,7 @@ export const RuleExecutor: React.FC = () => {
     setIsExecuting(true);
     try {
       const rulesToExecute = savedRules.filter(rule => selectedRules.includes(rule.id));
-      const result = await apiClient.executeRules(rulesToExecute, realmId, accessToken.trim() || null, entity) as { data: BatchExecutionResult };
+      const result = await apiClient.executeRules(rulesToExecute, realmId, accessToken.trim() || null, entity, buildRunPeriod()) as { data: BatchExecutionResult };
       setExecutionResult(result.data);
     } catch (error) {
       console.error('Execution failed:', error);
@@ -162,7 +451,7 @@ export const RuleExecutor: React.FC = () => {
 
     setIsExecuting(true);
     try {
-      const result = await apiClient.executeAllActiveRules(savedRules, realmId, accessToken.trim() || null, entity) as { data: BatchExecutionResult };
+      const result = await apiClient.executeAllActiveRules(savedRules, realmId, accessToken.trim() || null, entity, buildRunPeriod()) as { data: BatchExecutionResult };
       setExecutionResult(result.data);
     } catch (error) {
       console.error('Execution failed:', error);
@@ -171,6 +460,22 @@ export const RuleExecutor: React.FC = () => {
     }
   };
 
+  const handleIncrementalRun = async () => {
+    if (!realmId.trim() || !entity.trim()) {
+      return;
+    }
+
+    setIsExecuting(true);
+    try {
+      const result = await apiClient.executeIncremental(savedRules, realmId, accessToken.trim() || null, entity) as { data: BatchExecutionResult };
+      setExecutionResult(result.data);
+    } catch (error) {
+      console.error('Incremental run failed:', error);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const handleExecuteSingleRule = async (rule: AuditRule) => {
     if (!realmId.trim() || !entity.trim()) {
       return;
@@ -178,7 +483,7 @@ export const RuleExecutor: React.FC = () => {
 
     setIsExecuting(true);
     try {
-      const result = await apiClient.executeRule(rule, realmId, accessToken.trim() || null, entity) as { data: ExecutionResult };
+      const result = await apiClient.executeRule(rule, realmId, accessToken.trim() || null, entity, buildRunPeriod()) as { data: ExecutionResult };
       setExecutionResult({
         summary: {
           total_rules_executed: 1,
@@ -186,8 +491,13 @@ export const RuleExecutor: React.FC = () => {
           failed_executions: 0,
           total_transactions_checked: result.data.execution_summary.total_checked,
           total_transactions_flagged: result.data.execution_summary.flagged_count,
-          total_execution_time: result.data.execution_summary.execution_time
+          total_transactions_suppressed: result.data.execution_summary.suppressed_count,
+          total_execution_time: result.data.execution_summary.execution_time,
+          total_fetch_time: result.data.execution_summary.fetch_time,
+          total_evaluation_time: result.data.execution_summary.evaluation_time
         },
+        scope: result.data.scope,
+        warnings: result.data.warnings,
         individual_results: [{ success: true, data: result.data }],
         executed_at: new Date().toISOString()
       });
@@ -198,6 +508,54 @@ export const RuleExecutor: React.FC = () => {
     }
   };
 
+  const handleFindDuplicates = async () => {
+    if (!realmId.trim() || !entity.trim()) {
+      return;
+    }
+
+    setIsExecuting(true);
+    try {
+      const result = await apiClient.detectDuplicates(DEFAULT_DUPLICATE_CONFIG, realmId, accessToken.trim() || null, entity) as { data: ExecutionResult };
+      setExecutionResult({
+        summary: {
+          total_rules_executed: 1,
+          successful_executions: 1,
+          failed_executions: 0,
+          total_transactions_checked: result.data.execution_summary.total_checked,
+          total_transactions_flagged: result.data.execution_summary.flagged_count,
+          total_transactions_suppressed: result.data.execution_summary.suppressed_count,
+          total_execution_time: result.data.execution_summary.execution_time,
+          total_fetch_time: result.data.execution_summary.fetch_time,
+          total_evaluation_time: result.data.execution_summary.evaluation_time
+        },
+        scope: result.data.scope,
+        warnings: result.data.warnings,
+        individual_results: [{ success: true, data: result.data }],
+        executed_at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Duplicate detection failed:', error);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const handleRunBenford = async () => {
+    if (!realmId.trim() || !entity.trim() || !benfordField.trim()) {
+      return;
+    }
+
+    setIsExecuting(true);
+    try {
+      const result = await apiClient.runBenfordAnalysis(benfordField.trim(), realmId, accessToken.trim() || null, entity) as { data: BenfordResult };
+      setBenfordResult(result.data);
+    } catch (error) {
+      console.error('Benford analysis failed:', error);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
   const exportResults = () => {
     if (!executionResult) return;
     
@@ -338,6 +696,59 @@ export const RuleExecutor: React.FC = () => {
               </select>
             </div>
           </div>
+
+          <div className="mt-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Audit Period
+            </label>
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={periodChoice}
+                onChange={e => setPeriodChoice(e.target.value as 'all' | 'custom' | PeriodName)}
+                className="px-4 py-3 bg-gray-50 border border-gray-300 rounded-lg text-gray-800 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+              >
+                <option value="all">All dates</option>
+                {(Object.keys(PERIOD_LABELS) as PeriodName[]).map(name => (
+                  <option key={name} value={name}>{PERIOD_LABELS[name]}</option>
+                ))}
+                <option value="custom">Custom range</option>
+              </select>
+              {periodChoice === 'custom' && (
+                <>
+                  <input
+                    type="date"
+                    value={periodFrom}
+                    onChange={e => setPeriodFrom(e.target.value)}
+                    className="px-4 py-3 bg-gray-50 border border-gray-300 rounded-lg text-gray-800 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+                  />
+                  <span className="text-sm text-gray-600">to</span>
+                  <input
+                    type="date"
+                    value={periodTo}
+                    onChange={e => setPeriodTo(e.target.value)}
+                    className="px-4 py-3 bg-gray-50 border border-gray-300 rounded-lg text-gray-800 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+                  />
+                </>
+              )}
+              {periodChoice.includes('fiscal') && (
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  Fiscal year starts in
+                  <select
+                    value={fiscalStartMonth}
+                    onChange={e => setFiscalStartMonth(parseInt(e.target.value))}
+                    className="px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-gray-800 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none"
+                  >
+                    {MONTH_NAMES.map((month, index) => (
+                      <option key={month} value={index + 1}>{month}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+            <p className="text-sm text-slate-600 mt-2">
+              Rule executions only audit transactions whose TxnDate falls within this period
+            </p>
+          </div>
           
           {QuickBooksStorage.hasCredentials() && (
             <div className="mt-4 pt-4 border-t border-slate-200">
@@ -424,6 +835,12 @@ export const RuleExecutor: React.FC = () => {
                         <span className="px-2 py-1 text-xs border border-gray-300 text-gray-700 bg-white rounded">
                           {rule.action}
                         </span>
+                        <span className={`px-2 py-1 text-xs border rounded ${SEVERITY_STYLES[rule.severity || 'medium']}`}>
+                          {rule.severity || 'medium'}{rule.weight && rule.weight !== 1 ? ` ×${rule.weight}` : ''}
+                        </span>
+                        <span className="px-2 py-1 text-xs border border-purple-300 text-purple-700 bg-white rounded">
+                          {rule.kind === 'three_way_match' ? 'Bill' : rule.entities?.join(', ') || `${entity} (unbound)`}
+                        </span>
                       </div>
                       <p className="text-sm text-gray-400 ml-7">{rule.original_instruction}</p>
                     </div>
@@ -466,6 +883,42 @@ export const RuleExecutor: React.FC = () => {
               <Zap className="w-5 h-5" />
               Execute All Active ({savedRules.length})
             </button>
+
+            <button
+              onClick={handleIncrementalRun}
+              disabled={isExecuting || savedRules.length === 0 || !serverStatus.connected}
+              className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 border border-gray-300 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed rounded"
+            >
+              <RefreshCw className="w-5 h-5" />
+              Incremental Run
+            </button>
+
+            <button
+              onClick={handleFindDuplicates}
+              disabled={isExecuting || !realmId.trim() || !serverStatus.connected}
+              className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 border border-gray-300 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed rounded"
+            >
+              <Copy className="w-5 h-5" />
+              Find Duplicates
+            </button>
+
+            <div className="flex items-center border border-gray-300 rounded">
+              <input
+                type="text"
+                value={benfordField}
+                onChange={(e) => setBenfordField(e.target.value)}
+                placeholder="Amount field"
+                className="w-32 px-3 py-3 text-sm text-gray-800 bg-white border-r border-gray-300 rounded-l focus:outline-none"
+              />
+              <button
+                onClick={handleRunBenford}
+                disabled={isExecuting || !realmId.trim() || !benfordField.trim() || !serverStatus.connected}
+                className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed rounded-r"
+              >
+                <Sigma className="w-5 h-5" />
+                Benford Analysis
+              </button>
+            </div>
           </div>
 
           {isExecuting && (
@@ -476,6 +929,9 @@ export const RuleExecutor: React.FC = () => {
           )}
         </div>
 
+        {/* Benford Analysis */}
+        {benfordResult && <BenfordAnalysis result={benfordResult} />}
+
         {/* Data Context */}
         {showDataContext && dataContext && (
           <div className="bg-black border border-white/20 p-8">
@@ -506,7 +962,19 @@ export const RuleExecutor: React.FC = () => {
         {executionResult && (
           <div className="bg-white border border-gray-200 p-8 rounded">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-semibold text-gray-800">Execution Results</h2>
+                <div>
+                  <h2 className="text-2xl font-semibold text-gray-800">Execution Results</h2>
+                  {executionResult.scope && (
+                    <p className="text-sm text-gray-600 mt-1">Period audited: {executionResult.scope.label}</p>
+                  )}
+                  {executionResult.findings && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      Findings: {executionResult.findings.created} new, {executionResult.findings.updated} already tracked
+                      {executionResult.findings.reopened > 0 && `, ${executionResult.findings.reopened} reopened`}
+                      {!!executionResult.findings.resolved && `, ${executionResult.findings.resolved} resolved`}
+                    </p>
+                  )}
+                </div>
                 <button
                   onClick={exportResults}
                   className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors rounded"
@@ -540,6 +1008,9 @@ export const RuleExecutor: React.FC = () => {
                   <span className="text-sm font-medium text-gray-700">Flagged</span>
                 </div>
                 <p className="text-2xl font-bold text-gray-800">{executionResult.summary.total_transactions_flagged}</p>
+                {(executionResult.summary.total_transactions_suppressed || 0) > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">{executionResult.summary.total_transactions_suppressed} suppressed</p>
+                )}
               </div>
               
               <div className="p-4 bg-gray-50 border border-gray-200 rounded">
@@ -548,131 +1019,352 @@ export const RuleExecutor: React.FC = () => {
                   <span className="text-sm font-medium text-gray-700">Duration</span>
                 </div>
                 <p className="text-2xl font-bold text-gray-800">{formatExecutionTime(executionResult.summary.total_execution_time)}</p>
+                {executionResult.summary.total_fetch_time !== undefined && executionResult.summary.total_evaluation_time !== undefined && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Fetch {formatExecutionTime(executionResult.summary.total_fetch_time)} · Evaluate {formatExecutionTime(executionResult.summary.total_evaluation_time)}
+                  </p>
+                )}
               </div>
             </div>
 
-            {/* Individual Results */}
-            <div className="space-y-4">
-              {executionResult.individual_results.map((result, index) => (
-                <div key={index} className="border border-gray-200 p-4 rounded">
-                  {result.success && result.data ? (
-                    <div>
-                      <div className="flex items-center justify-between mb-4">
-                        <h3 className="text-lg font-semibold text-gray-800">
-                          {result.data?.rule_type}
-                        </h3>
-                        <div className="flex items-center gap-4">
-                          <span className="text-sm text-gray-600">
-                            {result.data?.execution_summary.flagged_count} flagged / {result.data?.execution_summary.total_checked} total
-                          </span>
-                          <button
-                            onClick={() => setShowDetails(showDetails === result.data?.rule_id ? null : result.data?.rule_id || null)}
-                            className="flex items-center gap-1 px-3 py-1 text-sm bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors rounded"
-                          >
-                            <Eye className="w-4 h-4" />
-                            {showDetails === result.data?.rule_id ? 'Hide' : 'Show'} Details
-                          </button>
+            {/* What an incremental run covered */}
+            {executionResult.incremental && (
+              <div className="mb-8 p-4 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700">
+                {executionResult.incremental.mode === 'full' ? (
+                  <p>Full audit recorded as the baseline for incremental runs.</p>
+                ) : (
+                  <p>
+                    Changes since {new Date(executionResult.incremental.changed_since as string).toLocaleString()}:{' '}
+                    {executionResult.incremental.changed_records} changed, {executionResult.incremental.deleted_records} deleted,{' '}
+                    {executionResult.incremental.voided_records} voided
+                    {executionResult.incremental.source === 'last_updated_time' && ' (deletions not visible beyond the 30-day change window)'}
+                  </p>
+                )}
+                <p className="mt-1">
+                  {executionResult.incremental.new_findings} new findings, {executionResult.incremental.closed_findings.length} closed
+                  {!executionResult.incremental.checkpoint_advanced && ' · checkpoint not advanced because some rules failed'}
+                </p>
+                {executionResult.incremental.closed_findings.length > 0 && (
+                  <ul className="mt-2 list-disc pl-6 text-gray-600">
+                    {executionResult.incremental.closed_findings.map(finding => (
+                      <li key={`${finding.transaction_id}:${finding.rule_id}`}>
+                        ID {finding.transaction_id} · {finding.rule_type} · closed ({finding.closed_reason})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {executionResult.incremental.skipped_rules.length > 0 && (
+                  <p className="mt-2 text-gray-600">
+                    Skipped: {executionResult.incremental.skipped_rules.map(rule => rule.rule_type).join(', ')} (need a full audit)
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Populations cut short by the record cap */}
+            {executionResult.warnings && executionResult.warnings.length > 0 && (
+              <div className="mb-8 p-4 bg-yellow-50 border border-yellow-300 rounded">
+                <div className="flex items-center gap-2 mb-2">
+                  <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                  <span className="text-sm font-medium text-yellow-800">Incomplete population</span>
+                </div>
+                <ul className="text-sm text-yellow-800 list-disc pl-6">
+                  {executionResult.warnings.map(warning => (
+                    <li key={warning.entity}>{warning.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Prioritized Review Queue */}
+            {executionResult.risk_queue && executionResult.risk_queue.length > 0 && (
+              <div className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-800 mb-1">Prioritized Review Queue</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  {executionResult.risk_queue.length} unique transactions, ranked by combined risk across all rules
+                </p>
+                <div className="border border-gray-200 rounded divide-y divide-gray-200">
+                  {executionResult.risk_queue.map(entry => (
+                    <div key={`${entry.entity}:${entry.transaction_id}`} className="p-3 flex items-start gap-4">
+                      <div className={`w-16 shrink-0 text-center border px-2 py-1 rounded ${SEVERITY_STYLES[entry.risk_level]}`}>
+                        <p className="text-lg font-bold">{entry.score}</p>
+                        <p className="text-xs">{entry.risk_level}</p>
+                      </div>
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-gray-800">
+                          {entry.entity || 'Transaction'} {entry.transaction_id}
+                          <span className="text-gray-500 font-normal"> · {entry.hit_count} rule{entry.hit_count === 1 ? '' : 's'}</span>
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {entry.contributing_rules.map(contribution => (
+                            <span
+                              key={contribution.rule_id}
+                              title={contribution.reason}
+                              className={`px-2 py-1 text-xs border rounded ${SEVERITY_STYLES[contribution.severity]}`}
+                            >
+                              {contribution.rule_type} (+{contribution.score})
+                            </span>
+                          ))}
                         </div>
                       </div>
-                      
-                      {showDetails === result.data?.rule_id && (
-                        <div className="mt-4 space-y-4">
-                          {result.data.flagged_transactions.map((transaction, txIndex) => (
-                            <div key={txIndex} className="bg-red-50 border border-red-300 p-4 rounded">
-                              <div className="flex items-center justify-between mb-2">
-                                <span className="font-medium text-red-900">Transaction ID: {transaction.id}</span>
-                                <span className="text-sm text-red-900 bg-red-200 border border-red-400 px-2 py-1 rounded">{transaction.action}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {executionResult.risk_queue && executionResult.risk_queue.length > 0 && (
+              <WriteBackPanel
+                realmId={realmId}
+                accessToken={accessToken.trim() || null}
+                entity={entity}
+                riskQueue={executionResult.risk_queue}
+              />
+            )}
+
+            {/* Individual Results, grouped by entity */}
+            <div className="space-y-8">
+              {groupResultsByEntity(executionResult).map(group => (
+                <div key={group.entity || 'all'}>
+                  {group.entity && (
+                    <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                      {group.entity}
+                      {group.summary && (
+                        <span className="text-sm font-normal text-gray-600">
+                          {' '}· {group.summary.total_transactions_flagged} flagged / {group.summary.total_transactions_checked} checked
+                        </span>
+                      )}
+                    </h3>
+                  )}
+                  <div className="space-y-4">
+                      {group.results.map((result, index) => (
+                        <div key={index} className="border border-gray-200 p-4 rounded">
+                          {result.success && result.data ? (
+                            <div>
+                              <div className="flex items-center justify-between mb-4">
+                                <h3 className="text-lg font-semibold text-gray-800">
+                                  {result.data?.rule_type}
+                                </h3>
+                                <div className="flex items-center gap-4">
+                                  <span className="text-sm text-gray-600">
+                                    {result.data?.execution_summary.flagged_count} flagged / {result.data?.execution_summary.total_checked} total
+                                    {(result.data?.execution_summary.suppressed_count || 0) > 0 && ` · ${result.data?.execution_summary.suppressed_count} suppressed`}
+                                  </span>
+                                  <button
+                                    onClick={() => setShowDetails(showDetails === resultKey(result.data) ? null : resultKey(result.data))}
+                                    className="flex items-center gap-1 px-3 py-1 text-sm bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors rounded"
+                                  >
+                                    <Eye className="w-4 h-4" />
+                                    {showDetails === resultKey(result.data) ? 'Hide' : 'Show'} Details
+                                  </button>
+                                </div>
                               </div>
-                              <p className="text-sm text-red-800 mb-3">{transaction.reason}</p>
                               
-                              <div className="space-y-2">
-                                <h4 className="text-sm font-medium text-red-900">Matched Conditions:</h4>
-                                {transaction.matched_conditions.map((condition, condIndex) => {
-                                  const fieldDataKey = `${transaction.id}-${condIndex}`;
-                                  const isExpanded = expandedFieldData === fieldDataKey;
-                                  
-                                  return (
-                                    <div 
-                                      key={condIndex} 
-                                      onClick={() => condition.flagged_field_data && setExpandedFieldData(isExpanded ? null : fieldDataKey)}
-                                      className={`text-sm text-red-800 ml-4 space-y-2 ${condition.flagged_field_data ? 'cursor-pointer' : ''}`}
-                                    >
-                                      <div className={`flex items-center gap-2 p-3 rounded border-2 transition-all ${condition.flagged_field_data ? (isExpanded ? 'bg-red-100 border-red-400' : 'bg-red-50 border-red-300 hover:bg-red-100 hover:border-red-400') : 'bg-red-50 border-red-200'}`}>
-                                        {condition.flagged_field_data && (
-                                          <span className="text-red-700 font-bold text-lg">
-                                            {isExpanded ? '▼' : '▶'}
-                                          </span>
-                                        )}
-                                        <span className="font-medium text-red-900">{condition.field}</span>
-                                        <span className="mx-2 text-red-700">{condition.operator}</span>
-                                        <span className="bg-red-100 border border-red-300 px-2 py-1 text-red-800 rounded">{String(condition.value)}</span>
-                                        <span className="mx-2 text-red-600">→</span>
-                                        <span className="bg-red-300 border border-red-500 px-2 py-1 text-red-900 rounded">{String(condition.actual_value)}</span>
+                              {showDetails === resultKey(result.data) && (
+                                <div className="mt-4 space-y-4">
+                                  {result.data.flagged_transactions.map((transaction, txIndex) => (
+                                    <div key={txIndex} className="bg-red-50 border border-red-300 p-4 rounded">
+                                      <div className="flex items-center justify-between mb-2">
+                                        <span className="font-medium text-red-900">
+                                          {transaction.member_transactions ? `Group: ${transaction.id}` : `Transaction ID: ${transaction.id}`}
+                                        </span>
+                                        <span className="text-sm text-red-900 bg-red-200 border border-red-400 px-2 py-1 rounded">{transaction.action}</span>
                                       </div>
-                                      
-                                      {/* Enhanced Field Data Display */}
-                                      {condition.flagged_field_data && isExpanded && (
-                                        <div className="ml-4 bg-red-100 border border-red-400 p-3 rounded">
-                                          <h5 className="text-xs font-medium text-red-900 mb-2">Complete Flagged Field Data:</h5>
-                                          
-                                          {condition.flagged_field_data.line_index !== undefined ? (
-                                            // Line field data
-                                            <div className="space-y-2">
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Line Index:</span> {condition.flagged_field_data.line_index}
-                                              </div>
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Field Path:</span> {condition.flagged_field_data.field_path}
+                                      <p className="text-sm text-red-800 mb-3">{transaction.reason}</p>
+
+                                      {transaction.linked && (
+                                        <div className="mb-3 space-y-1 text-xs text-red-800">
+                                          {(Object.keys(LINKED_DOCUMENT_LABELS) as Array<keyof typeof LINKED_DOCUMENT_LABELS>).map(key => {
+                                            const documents = transaction.linked?.[key];
+                                            if (!documents) return null;
+                                            return (
+                                              <div key={key} className="flex flex-wrap items-center gap-2">
+                                                <span className="font-medium text-red-900">{LINKED_DOCUMENT_LABELS[key]}:</span>
+                                                {documents.length === 0 ? (
+                                                  <span>none</span>
+                                                ) : documents.map((document, documentIndex) => (
+                                                  <span key={documentIndex} className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                                    {document.DocNumber ? `#${document.DocNumber}` : `ID ${document.Id}`} · {document.amount}
+                                                    {document.TxnDate && ` · ${document.TxnDate}`}
+                                                  </span>
+                                                ))}
                                               </div>
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Field Value:</span> {String(condition.flagged_field_data.field_value)}
+                                            );
+                                          })}
+                                        </div>
+                                      )}
+
+                                      {transaction.baseline && transaction.deviation && (
+                                        <div className="mb-3 flex flex-wrap gap-2 text-xs text-red-800">
+                                          <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                            <span className="font-medium text-red-900">{transaction.baseline.group_field}:</span> {transaction.baseline.group_key}
+                                          </span>
+                                          <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                            <span className="font-medium text-red-900">
+                                              {transaction.deviation.method === 'percentile' ? 'Percentile rank' : 'Deviation score'}:
+                                            </span> {transaction.deviation.score} (threshold {transaction.deviation.threshold}, {transaction.deviation.direction})
+                                          </span>
+                                          <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                            <span className="font-medium text-red-900">Baseline of {transaction.baseline.count}:</span>{' '}
+                                            mean {transaction.baseline.mean}, stddev {transaction.baseline.stddev}, median {transaction.baseline.median}, MAD {transaction.baseline.mad}
+                                          </span>
+                                          {transaction.baseline.upper_bound !== undefined && (
+                                            <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                              <span className="font-medium text-red-900">Normal range:</span> {transaction.baseline.lower_bound} – {transaction.baseline.upper_bound}
+                                            </span>
+                                          )}
+                                        </div>
+                                      )}
+
+                                      {transaction.member_transactions && (
+                                        <div className="mb-3 space-y-2">
+                                          <div className="flex flex-wrap gap-2 text-xs text-red-800">
+                                            {transaction.cluster && (
+                                              <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                                <span className="font-medium text-red-900">Duplicate Score:</span> {(transaction.cluster.score * 100).toFixed(0)}%
+                                              </span>
+                                            )}
+                                            {transaction.group && Object.entries(transaction.group.values).map(([label, value]) => (
+                                              <span key={label} className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                                <span className="font-medium text-red-900">{label}:</span> {value}
+                                              </span>
+                                            ))}
+                                            {transaction.group?.window_start && (
+                                              <span className="bg-red-100 border border-red-300 px-2 py-1 rounded">
+                                                <span className="font-medium text-red-900">Window:</span> {transaction.group.window_start} – {transaction.group.window_end}
+                                              </span>
+                                            )}
+                                          </div>
+                                          <h4 className="text-sm font-medium text-red-900">
+                                            Member Transactions ({transaction.member_transactions?.length || 0}):
+                                          </h4>
+                                          <div className="ml-4 space-y-1">
+                                            {transaction.member_transactions?.map((member, memberIndex) => (
+                                              <div key={memberIndex} className="flex items-center gap-4 text-xs text-red-800 bg-red-50 border border-red-200 px-2 py-1 rounded">
+                                                <span className="font-medium text-red-900">ID: {String(member.Id)}</span>
+                                                <span>{String(member.TxnDate ?? '')}</span>
+                                                <span>{String(member.TotalAmt ?? '')}</span>
                                               </div>
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Complete Line Data:</span>
+                                            ))}
+                                          </div>
+                                        </div>
+                                      )}
+                                      
+                                      <div className="space-y-2">
+                                        <h4 className="text-sm font-medium text-red-900">Matched Conditions:</h4>
+                                        {transaction.matched_conditions.map((condition, condIndex) => {
+                                          const fieldDataKey = `${transaction.id}-${condIndex}`;
+                                          const isExpanded = expandedFieldData === fieldDataKey;
+                                          
+                                          return (
+                                            <div 
+                                              key={condIndex} 
+                                              onClick={() => condition.flagged_field_data && setExpandedFieldData(isExpanded ? null : fieldDataKey)}
+                                              className={`text-sm text-red-800 ml-4 space-y-2 ${condition.flagged_field_data ? 'cursor-pointer' : ''}`}
+                                            >
+                                              <div className={`flex items-center gap-2 p-3 rounded border-2 transition-all ${condition.flagged_field_data ? (isExpanded ? 'bg-red-100 border-red-400' : 'bg-red-50 border-red-300 hover:bg-red-100 hover:border-red-400') : 'bg-red-50 border-red-200'}`}>
+                                                {condition.flagged_field_data && (
+                                                  <span className="text-red-700 font-bold text-lg">
+                                                    {isExpanded ? '▼' : '▶'}
+                                                  </span>
+                                                )}
+                                                {condition.negate && (
+                                                  <span className="font-medium text-red-700">NOT</span>
+                                                )}
+                                                <span className="font-medium text-red-900">{condition.field}</span>
+                                                <span className="mx-2 text-red-700">{condition.operator}</span>
+                                                <span className="bg-red-100 border border-red-300 px-2 py-1 text-red-800 rounded">{String(condition.value)}</span>
+                                                <span className="mx-2 text-red-600">→</span>
+                                                <span className="bg-red-300 border border-red-500 px-2 py-1 text-red-900 rounded">{String(condition.actual_value)}</span>
+                                                {condition.coercion && condition.coercion.length > 0 && (
+                                                  <span className="text-xs text-red-700 italic">
+                                                    {condition.coercion.map(formatCoercion).join('; ')}
+                                                  </span>
+                                                )}
                                               </div>
-                                              <pre className="text-xs bg-red-200 border border-red-400 p-2 overflow-auto max-h-32 text-red-900 rounded">
-                                                {JSON.stringify(condition.flagged_field_data.line_data, null, 2)}
-                                              </pre>
-                                            </div>
-                                          ) : (
-                                            // Regular field data
-                                            <div className="space-y-2">
-                                              {condition.flagged_field_data.parent_path && (
-                                                <div className="text-xs text-red-800">
-                                                  <span className="font-medium text-red-900">Parent Path:</span> {condition.flagged_field_data.parent_path}
+                                              
+                                              {/* Enhanced Field Data Display */}
+                                              {condition.flagged_field_data && isExpanded && (
+                                                <div className="ml-4 bg-red-100 border border-red-400 p-3 rounded">
+                                                  <h5 className="text-xs font-medium text-red-900 mb-2">Complete Flagged Field Data:</h5>
+                                                  
+                                                  {condition.flagged_field_data.line_index !== undefined ? (
+                                                    // Line field data
+                                                    <div className="space-y-2">
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Line Index:</span> {condition.flagged_field_data.line_index}
+                                                      </div>
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Field Path:</span> {condition.flagged_field_data.field_path}
+                                                      </div>
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Field Value:</span> {String(condition.flagged_field_data.field_value)}
+                                                      </div>
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Complete Line Data:</span>
+                                                      </div>
+                                                      <pre className="text-xs bg-red-200 border border-red-400 p-2 overflow-auto max-h-32 text-red-900 rounded">
+                                                        {JSON.stringify(condition.flagged_field_data.line_data, null, 2)}
+                                                      </pre>
+                                                    </div>
+                                                  ) : (
+                                                    // Regular field data
+                                                    <div className="space-y-2">
+                                                      {condition.flagged_field_data.parent_path && (
+                                                        <div className="text-xs text-red-800">
+                                                          <span className="font-medium text-red-900">Parent Path:</span> {condition.flagged_field_data.parent_path}
+                                                        </div>
+                                                      )}
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Field Name:</span> {condition.flagged_field_data.field_name}
+                                                      </div>
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Field Value:</span> {String(condition.flagged_field_data.field_value)}
+                                                      </div>
+                                                      <div className="text-xs text-red-800">
+                                                        <span className="font-medium text-red-900">Parent Object:</span>
+                                                      </div>
+                                                      <pre className="text-xs bg-red-200 border border-red-400 p-2 overflow-auto max-h-32 text-red-900 rounded">
+                                                        {JSON.stringify(condition.flagged_field_data.parent_object, null, 2)}
+                                                      </pre>
+                                                    </div>
+                                                  )}
                                                 </div>
                                               )}
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Field Name:</span> {condition.flagged_field_data.field_name}
-                                              </div>
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Field Value:</span> {String(condition.flagged_field_data.field_value)}
-                                              </div>
-                                              <div className="text-xs text-red-800">
-                                                <span className="font-medium text-red-900">Parent Object:</span>
-                                              </div>
-                                              <pre className="text-xs bg-red-200 border border-red-400 p-2 overflow-auto max-h-32 text-red-900 rounded">
-                                                {JSON.stringify(condition.flagged_field_data.parent_object, null, 2)}
-                                              </pre>
+                                            </div>
+                                          );
+                                        })}
+                                      </div>
+
+                                      {transaction.evaluation_trace && (
+                                        <div className="mt-3">
+                                          <button
+                                            onClick={() => setExpandedTrace(expandedTrace === transaction.id ? null : transaction.id)}
+                                            className="text-sm text-red-900 underline"
+                                          >
+                                            {expandedTrace === transaction.id ? 'Hide' : 'Show'} why this was flagged
+                                          </button>
+                                          {expandedTrace === transaction.id && (
+                                            <div className="mt-2 bg-white border border-gray-300 p-3 rounded">
+                                              <TraceNodeView node={transaction.evaluation_trace} />
                                             </div>
                                           )}
                                         </div>
                                       )}
                                     </div>
-                                  );
-                                })}
-                              </div>
+                                  ))}
+                                </div>
+                              )}
                             </div>
-                          ))}
+                          ) : (
+                            <div className="flex items-center gap-2 text-gray-700">
+                              <AlertCircle className="w-5 h-5" />
+                              <span>Failed to execute rule: {result.error}</span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-2 text-gray-700">
-                      <AlertCircle className="w-5 h-5" />
-                      <span>Failed to execute rule: {result.error}</span>
-                    </div>
-                  )}
+                      ))}
+                  </div>
                 </div>
               ))}
             </div>
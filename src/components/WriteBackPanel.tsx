@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, RotateCcw, Upload } from 'lucide-react';
+import { apiClient } from '../services/apiClient';
+import { WriteBackAction, WriteBackChangeStatus, WriteBackConfig, WriteBackRun, WriteBackTarget } from '../types/audit';
+
+interface WriteBackPanelProps {
+  realmId: string;
+  accessToken: string | null;
+  entity: string;
+  riskQueue: unknown[];
+}
+
+// Strongest first, matching the order the server picks a transaction's action in
+const ACTIONS: WriteBackAction[] = ['reject', 'review', 'flag', 'approve'];
+
+const STATUS_STYLES: Record<WriteBackChangeStatus, string> = {
+  planned: 'border-gray-300 text-gray-700 bg-gray-50',
+  applied: 'border-green-300 text-green-700 bg-green-50',
+  conflict: 'border-yellow-400 text-yellow-800 bg-yellow-50',
+  failed: 'border-red-300 text-red-700 bg-red-50',
+  undone: 'border-purple-300 text-purple-700 bg-purple-50',
+  undo_conflict: 'border-yellow-400 text-yellow-800 bg-yellow-50',
+  undo_failed: 'border-red-300 text-red-700 bg-red-50'
+};
+
+const describeTarget = (target: WriteBackTarget) =>
+  target.mode === 'private_note' ? 'Private note' : `Custom field ${target.name || target.definition_id}`;
+
+// The run an interrupted apply or undo still reports alongside its error
+const runFromError = (error: unknown) => (error as Error & { data?: { data?: WriteBackRun } }).data?.data;
+
+export const WriteBackPanel: React.FC<WriteBackPanelProps> = ({ realmId, accessToken, entity, riskQueue }) => {
+  const [config, setConfig] = useState<WriteBackConfig['actions']>({});
+  const [isEditingConfig, setIsEditingConfig] = useState(false);
+  const [run, setRun] = useState<WriteBackRun | null>(null);
+  const [confirmed, setConfirmed] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!realmId.trim()) return;
+    apiClient.getWriteBackConfig(realmId)
+      .then(response => setConfig((response as { data: WriteBackConfig }).data.actions))
+      .catch(() => setConfig({}));
+  }, [realmId]);
+
+  // A new execution result needs a new plan
+  useEffect(() => {
+    setRun(null);
+    setConfirmed(false);
+    setError(null);
+  }, [riskQueue]);
+
+  const configuredActions = ACTIONS.filter(action => config[action]);
+
+  const updateTarget = (action: WriteBackAction, target: WriteBackTarget | null) => {
+    setConfig(current => {
+      const next = { ...current };
+      if (target) next[action] = target; else delete next[action];
+      return next;
+    });
+  };
+
+  const runStep = async (step: () => Promise<unknown>) => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      const response = await step() as { data: WriteBackRun };
+      setRun(response.data);
+    } catch (stepError) {
+      const partial = runFromError(stepError);
+      if (partial) setRun(partial);
+      setError(stepError instanceof Error ? stepError.message : 'Write-back failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSaveConfig = async () => {
+    setError(null);
+    try {
+      const response = await apiClient.saveWriteBackConfig(realmId, config) as { data: WriteBackConfig };
+      setConfig(response.data.actions);
+      setIsEditingConfig(false);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save write-back settings');
+    }
+  };
+
+  const handlePlan = () => {
+    setConfirmed(false);
+    return runStep(() => apiClient.planWriteBack(riskQueue, realmId, accessToken, entity));
+  };
+
+  const handleApply = () => {
+    if (!run?.confirmation_code || !confirmed) return;
+    const code = run.confirmation_code;
+    return runStep(() => apiClient.applyWriteBack(run.id, code, realmId, accessToken));
+  };
+
+  const handleUndo = () => {
+    if (!run) return;
+    return runStep(() => apiClient.undoWriteBack(run.id, realmId, accessToken));
+  };
+
+  const canUndo = run && ['applied', 'interrupted'].includes(run.status) && (run.summary.applied || 0) > 0;
+
+  return (
+    <div className="mb-8 border border-gray-200 p-4 rounded space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Write Back to QuickBooks</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {configuredActions.length > 0
+              ? `Marks transactions whose rules ${configuredActions.join(', ')}: ${configuredActions.map(action => `${action} → ${describeTarget(config[action] as WriteBackTarget)}`).join('; ')}`
+              : 'Off. Choose which rule actions update the transaction in QuickBooks.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsEditingConfig(!isEditingConfig)}
+          className="px-3 py-1 bg-white text-gray-700 border border-gray-300 text-sm hover:bg-gray-50 rounded"
+        >
+          {isEditingConfig ? 'Close' : 'Settings'}
+        </button>
+      </div>
+
+      {isEditingConfig && (
+        <div className="bg-gray-50 border border-gray-200 p-3 rounded space-y-2">
+          {ACTIONS.map(action => {
+            const target = config[action];
+            return (
+              <div key={action} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="w-20 font-medium text-gray-700">{action}</span>
+                <select
+                  value={target?.mode || 'off'}
+                  onChange={e => updateTarget(action, e.target.value === 'off'
+                    ? null
+                    : e.target.value === 'private_note'
+                      ? { mode: 'private_note' }
+                      : { mode: 'custom_field', definition_id: '', value: '' })}
+                  className="px-2 py-1 bg-white border border-gray-300 text-sm text-gray-800 rounded"
+                >
+                  <option value="off">Don't write back</option>
+                  <option value="private_note">Append to private note</option>
+                  <option value="custom_field">Set custom field</option>
+                </select>
+                {target?.mode === 'private_note' && (
+                  <input
+                    type="text"
+                    value={target.note || ''}
+                    onChange={e => updateTarget(action, { mode: 'private_note', ...(e.target.value && { note: e.target.value }) })}
+                    placeholder={`Audit ${action}`}
+                    className="flex-1 px-2 py-1 bg-white border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                  />
+                )}
+                {target?.mode === 'custom_field' && (
+                  <>
+                    <input
+                      type="text"
+                      value={target.definition_id}
+                      onChange={e => updateTarget(action, { ...target, definition_id: e.target.value })}
+                      placeholder="Field definition ID"
+                      className="w-40 px-2 py-1 bg-white border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                    />
+                    <input
+                      type="text"
+                      value={target.value}
+                      onChange={e => updateTarget(action, { ...target, value: e.target.value })}
+                      placeholder="Value"
+                      className="flex-1 px-2 py-1 bg-white border border-gray-300 text-sm text-gray-800 placeholder-gray-400 rounded"
+                    />
+                  </>
+                )}
+              </div>
+            );
+          })}
+          <div className="flex justify-end">
+            <button
+              onClick={handleSaveConfig}
+              disabled={!realmId.trim()}
+              className="px-3 py-1 bg-purple-600 text-white border border-purple-600 text-sm hover:bg-purple-700 disabled:opacity-50 rounded"
+            >
+              Save settings
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!run && (
+        <button
+          onClick={handlePlan}
+          disabled={isWorking || configuredActions.length === 0 || riskQueue.length === 0}
+          className="px-4 py-2 bg-white text-gray-700 border border-gray-300 font-medium hover:bg-gray-50 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed rounded"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{isWorking ? 'Planning...' : 'Plan write-back'}</span>
+        </button>
+      )}
+
+      {run && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            {run.changes.length} transaction{run.changes.length === 1 ? '' : 's'} to update
+            {run.skipped.length > 0 && `, ${run.skipped.length} skipped`} · run {run.status}
+          </p>
+
+          {run.changes.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-2 font-medium">Transaction</th>
+                    <th className="py-1 pr-2 font-medium">Action</th>
+                    <th className="py-1 pr-2 font-medium">Field</th>
+                    <th className="py-1 pr-2 font-medium">Before</th>
+                    <th className="py-1 pr-2 font-medium">After</th>
+                    <th className="py-1 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.changes.map(change => (
+                    <tr key={`${change.entity}:${change.transaction_id}`} className="border-t border-gray-100 text-gray-800 align-top">
+                      <td className="py-1 pr-2">{change.entity} {change.doc_number || `#${change.transaction_id}`}</td>
+                      <td className="py-1 pr-2">{change.action}</td>
+                      <td className="py-1 pr-2">{describeTarget(change.target)}</td>
+                      <td className="py-1 pr-2 whitespace-pre-wrap text-gray-500">{change.before || '—'}</td>
+                      <td className="py-1 pr-2 whitespace-pre-wrap">{change.after}</td>
+                      <td className="py-1">
+                        <span title={change.error} className={`px-2 py-0.5 border rounded ${STATUS_STYLES[change.status]}`}>
+                          {change.status.replace('_', ' ')}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {run.skipped.length > 0 && (
+            <ul className="text-xs text-gray-500 list-disc list-inside">
+              {run.skipped.map(item => (
+                <li key={`${item.entity}:${item.transaction_id}`}>{item.entity} {item.transaction_id}: {item.reason}</li>
+              ))}
+            </ul>
+          )}
+
+          {run.status === 'planned' && run.changes.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 p-3 rounded space-y-2">
+              <label className="flex items-start space-x-2 text-sm text-yellow-900">
+                <input
+                  type="checkbox"
+                  checked={confirmed}
+                  onChange={e => setConfirmed(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  Update {run.changes.length} transaction{run.changes.length === 1 ? '' : 's'} in QuickBooks.
+                  Records edited since this plan was made are left alone.
+                </span>
+              </label>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleApply}
+                  disabled={!confirmed || isWorking}
+                  className="px-4 py-2 bg-purple-600 text-white border border-purple-600 text-sm font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded"
+                >
+                  {isWorking ? 'Writing...' : 'Apply write-back'}
+                </button>
+                <button
+                  onClick={() => setRun(null)}
+                  disabled={isWorking}
+                  className="px-4 py-2 bg-white text-gray-700 border border-gray-300 text-sm font-medium hover:bg-gray-50 disabled:opacity-50 rounded"
+                >
+                  Discard plan
+                </button>
+              </div>
+            </div>
+          )}
+
+          {canUndo && (
+            <button
+              onClick={handleUndo}
+              disabled={isWorking}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 text-sm font-medium hover:bg-gray-50 flex items-center space-x-2 disabled:opacity-50 rounded"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>{isWorking ? 'Undoing...' : 'Undo write-back'}</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start space-x-2 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,3 +1,5 @@
+import { DuplicateConfig, FindingStatus, NewSuppression, RuleExample, RuleSchemaContext, RunPeriod, WriteBackConfig } from '../types/audit';
+
 class ApiClient {
   private baseURL: string;
 
@@ -54,14 +56,27 @@ class ApiClient {
     return this.request(`/rules/${id}`);
   }
 
-  async createRule(parsedRule: any, originalInstruction: string, createdBy = 'user') {
+  // With a schema context the server checks the rule's fields against the entity
+  async createRule(parsedRule: any, originalInstruction: string, createdBy = 'user', context?: RuleSchemaContext) {
+    const body: Record<string, unknown> = { parsedRule, originalInstruction, createdBy };
+    if (context) {
+      body.realmId = context.realmId;
+      body.entity = context.entity;
+      if (context.accessToken) {
+        body.accessToken = context.accessToken;
+      }
+    }
     return this.request('/rules', {
       method: 'POST',
-      body: JSON.stringify({
-        parsedRule,
-        originalInstruction,
-        createdBy
-      }),
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Run labeled examples against a rule without saving it
+  async checkRuleExamples(rule: unknown, examples: RuleExample[]) {
+    return this.request('/rules/examples/check', {
+      method: 'POST',
+      body: JSON.stringify({ rule, examples }),
     });
   }
 
@@ -88,6 +103,29 @@ class ApiClient {
     });
   }
 
+  // Dry-run a parsed rule against the active version it would replace
+  async previewRule(parsedRule: unknown, context: RuleSchemaContext, compareTo?: string) {
+    return this.request('/rules/preview', {
+      method: 'POST',
+      body: JSON.stringify({ parsedRule, compareTo, ...this.previewContext(context) }),
+    });
+  }
+
+  async previewRollback(ruleType: string, version: number, context: RuleSchemaContext) {
+    return this.request(`/rules/rollback/${ruleType}/${version}/preview`, {
+      method: 'POST',
+      body: JSON.stringify(this.previewContext(context)),
+    });
+  }
+
+  private previewContext(context: RuleSchemaContext) {
+    return {
+      realmId: context.realmId,
+      entity: context.entity,
+      ...(context.accessToken && { accessToken: context.accessToken }),
+    };
+  }
+
   async exportRules() {
     return this.request('/rules/export/all');
   }
@@ -127,39 +165,173 @@ class ApiClient {
   }
 
   // Execution endpoints
-  async executeRule(rule: any, realmId: string, accessToken: string | null = null, entity: string) {
+  async executeRule(rule: any, realmId: string, accessToken: string | null = null, entity: string, period?: RunPeriod) {
     const body: any = { rule, realmId, entity };
     if (accessToken) {
       body.accessToken = accessToken;
     }
+    if (period) {
+      body.period = period;
+    }
     return this.request('/execution/rule', {
       method: 'POST',
       body: JSON.stringify(body),
     });
   }
 
-  async executeRules(rules: any[], realmId: string, accessToken: string | null = null, entity: string) {
+  async executeRules(rules: any[], realmId: string, accessToken: string | null = null, entity: string, period?: RunPeriod) {
     const body: any = { rules, realmId, entity };
     if (accessToken) {
       body.accessToken = accessToken;
     }
+    if (period) {
+      body.period = period;
+    }
     return this.request('/execution/rules', {
       method: 'POST',
       body: JSON.stringify(body),
     });
   }
 
-  async executeAllActiveRules(rules: any[], realmId: string, accessToken: string | null = null, entity: string) {
+  async executeAllActiveRules(rules: any[], realmId: string, accessToken: string | null = null, entity: string, period?: RunPeriod) {
     const body: any = { rules, realmId, entity };
     if (accessToken) {
       body.accessToken = accessToken;
     }
+    if (period) {
+      body.period = period;
+    }
     return this.request('/execution/all-active', {
       method: 'POST',
       body: JSON.stringify(body),
     });
   }
 
+  async executeIncremental(rules: unknown[], realmId: string, accessToken: string | null = null, entity: string, full = false) {
+    const body: Record<string, unknown> = { rules, realmId, entity, full };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request('/execution/incremental', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  async detectDuplicates(duplicate: DuplicateConfig, realmId: string, accessToken: string | null = null, entity: string) {
+    const body: Record<string, unknown> = { duplicate, realmId, entity };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request('/execution/duplicates', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Analysis endpoints
+  async runBenfordAnalysis(field: string, realmId: string, accessToken: string | null = null, entity: string) {
+    const body: Record<string, unknown> = { field, realmId, entity };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request('/analysis/benford', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Write-back endpoints
+  async getWriteBackConfig(realmId: string) {
+    return this.request(`/writeback/config?${new URLSearchParams({ realmId })}`);
+  }
+
+  async saveWriteBackConfig(realmId: string, actions: WriteBackConfig['actions']) {
+    return this.request('/writeback/config', {
+      method: 'PUT',
+      body: JSON.stringify({ realmId, actions }),
+    });
+  }
+
+  // Plans only; nothing is written to QuickBooks until the run is applied
+  async planWriteBack(riskQueue: unknown[], realmId: string, accessToken: string | null = null, entity: string) {
+    const body: Record<string, unknown> = { risk_queue: riskQueue, realmId, entity };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request('/writeback/plan', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  async applyWriteBack(runId: string, confirmation: string, realmId: string, accessToken: string | null = null) {
+    const body: Record<string, unknown> = { confirmation, realmId };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request(`/writeback/runs/${runId}/apply`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  async undoWriteBack(runId: string, realmId: string, accessToken: string | null = null) {
+    const body: Record<string, unknown> = { realmId };
+    if (accessToken) {
+      body.accessToken = accessToken;
+    }
+    return this.request(`/writeback/runs/${runId}/undo`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  // Findings endpoints
+  async getFindings(realmId: string, filters: { status?: FindingStatus; entity?: string; assignee?: string } = {}) {
+    const params = new URLSearchParams({ realmId });
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) params.set(name, value);
+    }
+    return this.request(`/findings?${params}`);
+  }
+
+  async updateFinding(id: string, update: { status?: FindingStatus; assignee?: string | null; note?: string }) {
+    return this.request(`/findings/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    });
+  }
+
+  async addFindingComment(id: string, text: string) {
+    return this.request(`/findings/${id}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    });
+  }
+
+  // Suppression endpoints
+  async getSuppressions(realmId: string, includeExpired = false) {
+    const params = new URLSearchParams({ realmId });
+    if (includeExpired) {
+      params.set('include_expired', 'true');
+    }
+    return this.request(`/suppressions?${params}`);
+  }
+
+  async createSuppression(suppression: NewSuppression) {
+    return this.request('/suppressions', {
+      method: 'POST',
+      body: JSON.stringify(suppression),
+    });
+  }
+
+  async deleteSuppression(id: string) {
+    return this.request(`/suppressions/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Get complete QuickBooks data context for analysis
   async getDataContext(realmId: string, accessToken: string | null = null, entity: string) {
     const params = new URLSearchParams({ realmId, entity });
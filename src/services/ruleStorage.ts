@@ -1,10 +1,10 @@
-import { AuditRule, ParsedRule } from '../types/audit';
+import { AuditRule, ParsedRule, RuleSchemaContext } from '../types/audit';
 import { apiClient } from './apiClient';
 
 export class RuleStorage {
-  static async saveRule(parsedRule: ParsedRule, originalInstruction: string, createdBy: string = 'user'): Promise<AuditRule> {
+  static async saveRule(parsedRule: ParsedRule, originalInstruction: string, createdBy: string = 'user', context?: RuleSchemaContext): Promise<AuditRule> {
     try {
-      const response = await apiClient.createRule(parsedRule, originalInstruction, createdBy);
+      const response = await apiClient.createRule(parsedRule, originalInstruction, createdBy, context);
       return response.data;
     } catch (error) {
       console.error('Failed to save rule:', error);
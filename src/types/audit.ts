@@ -2,7 +2,16 @@ export interface AuditRule {
   id: string;
   version: number;
   rule_type: string;
+  kind?: RuleKind;
+  // QuickBooks entities the rule audits, e.g. ['Invoice']
+  entities?: string[];
   conditions: Record<string, any>;
+  aggregate?: AggregateConfig;
+  duplicate?: DuplicateConfig;
+  outlier?: OutlierConfig;
+  three_way_match?: ThreeWayMatchConfig;
+  severity?: RuleSeverity;
+  weight?: number;
   action: 'flag' | 'approve' | 'review' | 'reject';
   reason: string;
   original_instruction: string;
@@ -10,21 +19,151 @@ export interface AuditRule {
   created_by: string;
   is_active: boolean;
   confidence_score: number;
+  examples?: RuleExample[];
+  // Latest run of the examples; a failing rule can't be active
+  example_results?: RuleExampleRun;
 }
 
+// Mirrors EXAMPLE_EXPECTATIONS in server/services/ruleExamples.js
+export type ExampleExpectation = 'flag' | 'no_flag';
+
+// A labeled transaction the rule must (or must not) flag
+export interface RuleExample {
+  id?: string;
+  description?: string;
+  expect: ExampleExpectation;
+  transaction: Record<string, unknown>;
+  // Records for $vendor, $customer and $account fields
+  references?: Partial<Record<'vendor' | 'customer' | 'account', Record<string, unknown>>>;
+  // Purchase orders and payments for three-way match examples
+  related?: Partial<Record<'PurchaseOrder' | 'BillPayment', Record<string, unknown>[]>>;
+}
+
+export interface RuleExampleResult {
+  id: string;
+  description: string;
+  expect: ExampleExpectation;
+  flagged: boolean;
+  passed: boolean;
+  reason?: string;
+  error?: string;
+}
+
+export interface RuleExampleRun {
+  status: 'none' | 'passing' | 'failing';
+  total: number;
+  passed: number;
+  failed: number;
+  results: RuleExampleResult[];
+  checked_at: string;
+}
+
+// Mirrors SEVERITY_SCORES in server/services/riskScoring.js
+export type RuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Mirrors the operator catalog in server/services/operatorCatalog.js
+export type RuleOperator =
+  | 'eq' | 'ne'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'contains' | 'not_contains' | 'starts_with' | 'ends_with' | 'regex'
+  | 'in' | 'not_in'
+  | 'exists' | 'is_empty'
+  | 'within_last_days' | 'older_than_days' | 'weekday_in';
+
 export interface RuleCondition {
   field: string;
-  operator: 'gt' | 'lt' | 'eq' | 'ne' | 'contains' | 'not_contains' | 'in' | 'not_in';
+  operator: RuleOperator;
   value: any;
   logical_operator?: 'AND' | 'OR';
+  negate?: boolean;
+}
+
+export interface ConditionGroup {
+  // Omit logic to combine children by their own logical_operator
+  logic?: 'AND' | 'OR';
+  // 'line' requires all Line.* conditions in the group to match one line item
+  scope?: 'line';
+  conditions: ConditionNode[];
+  logical_operator?: 'AND' | 'OR';
+  negate?: boolean;
+}
+
+export type ConditionNode = RuleCondition | ConditionGroup;
+
+export type RuleKind = 'transaction' | 'aggregate' | 'duplicate' | 'outlier' | 'three_way_match';
+
+export interface AggregateGroupBy {
+  field: string;
+  bucket?: 'day' | 'week' | 'month';
+}
+
+export interface AggregateCondition {
+  metric: 'count' | 'sum' | 'avg' | 'min' | 'max' | 'distinct_count';
+  field?: string;
+  operator: RuleOperator;
+  value: number;
+  logical_operator?: 'AND' | 'OR';
+}
+
+export interface AggregateConfig {
+  group_by: Array<string | AggregateGroupBy>;
+  window?: {
+    field?: string;
+    days: number;
+  };
+  having: AggregateCondition[];
+}
+
+export interface DuplicateConfig {
+  keys: {
+    vendor?: boolean | { field?: string; weight?: number };
+    amount?: boolean | { field?: string; tolerance?: number; tolerance_type?: 'absolute' | 'percent'; weight?: number };
+    date?: boolean | { field?: string; days?: number; weight?: number };
+    text?: boolean | { fields?: string[]; min_similarity?: number; weight?: number };
+  };
+  min_score?: number;
+}
+
+export interface OutlierConfig {
+  group_by?: string;
+  field?: string;
+  method?: 'zscore' | 'mad' | 'percentile';
+  threshold?: number;
+  direction?: 'high' | 'low' | 'both';
+  min_group_size?: number;
+}
+
+export type ThreeWayMatchCheck = 'bill_without_po' | 'bill_exceeds_po' | 'payment_exceeds_bill' | 'payment_unmatched';
+
+export interface ThreeWayMatchConfig {
+  checks?: ThreeWayMatchCheck[];
+  tolerance?: number;
+  tolerance_type?: 'absolute' | 'percent';
 }
 
 export interface ParsedRule {
   rule_type: string;
-  conditions: RuleCondition[];
+  kind?: RuleKind;
+  entities?: string[];
+  conditions: ConditionNode[];
+  aggregate?: AggregateConfig;
+  duplicate?: DuplicateConfig;
+  outlier?: OutlierConfig;
+  three_way_match?: ThreeWayMatchConfig;
+  severity?: RuleSeverity;
+  weight?: number;
   action: string;
   reason: string;
   confidence_score: number;
+  examples?: RuleExample[];
+}
+
+export interface RuleValidationError {
+  path: string;
+  field?: string;
+  code: 'unknown_field' | 'unknown_reference' | 'unknown_operator' | 'incompatible_operator' | 'invalid_value' | 'missing_field' | 'invalid_group' | 'invalid_conditions' | 'invalid_config';
+  message: string;
+  suggestions: string[];
 }
 
 export interface ConversionResult {
@@ -32,4 +171,192 @@ export interface ConversionResult {
   rule?: ParsedRule;
   error?: string;
   suggestions?: string[];
-}
\ No newline at end of file
+  validation_errors?: RuleValidationError[];
+  // Fields missing from the sampled records; the rule is still usable
+  validation_warnings?: RuleValidationError[];
+}
+
+export interface RuleSchemaContext {
+  realmId: string;
+  accessToken?: string | null;
+  entity: string;
+}
+
+export type PeriodName =
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter'
+  | 'last_quarter'
+  | 'this_year'
+  | 'last_year'
+  | 'this_fiscal_quarter'
+  | 'last_fiscal_quarter'
+  | 'this_fiscal_year'
+  | 'last_fiscal_year';
+
+// Period an execution run audits, by name or by TxnDate range
+export type RunPeriod =
+  | { name: PeriodName; fiscal_year_start_month?: number }
+  | { from?: string; to?: string };
+
+// The period a run actually audited, as recorded on its results
+export interface RunScope {
+  name?: PeriodName;
+  fiscal_year_start_month?: number;
+  from?: string;
+  to?: string;
+  label: string;
+  filter: string | null;
+}
+
+// A transaction in an impact preview diff
+export interface ImpactTransaction {
+  entity: string;
+  transaction_id: string;
+  doc_number: string | null;
+  txn_date: string | null;
+  amount: number | null;
+  name: string | null;
+  reason: string;
+}
+
+export interface ImpactVersion {
+  rule_id: string | null;
+  rule_type: string;
+  version: number | null;
+  flagged_count: number;
+}
+
+// Dry run of a candidate rule against the active version it would replace
+export interface RuleImpactPreview {
+  candidate: ImpactVersion;
+  current: ImpactVersion | null;
+  entities: string[];
+  scope: RunScope;
+  summary: {
+    transactions_checked: number;
+    newly_flagged: number;
+    no_longer_flagged: number;
+    still_flagged: number;
+  };
+  newly_flagged: ImpactTransaction[];
+  no_longer_flagged: ImpactTransaction[];
+  still_flagged: ImpactTransaction[];
+  warnings: { message: string }[];
+  previewed_at: string;
+}
+
+export type WriteBackAction = 'reject' | 'review' | 'flag' | 'approve';
+
+// Where an action's audit marker is written on the QuickBooks transaction
+export type WriteBackTarget =
+  | { mode: 'private_note'; note?: string }
+  | { mode: 'custom_field'; definition_id: string; value: string; name?: string; note?: string };
+
+export interface WriteBackConfig {
+  actions: Partial<Record<WriteBackAction, WriteBackTarget>>;
+  updated_at: string | null;
+}
+
+export type WriteBackChangeStatus =
+  | 'planned'
+  | 'applied'
+  | 'conflict'
+  | 'failed'
+  | 'undone'
+  | 'undo_conflict'
+  | 'undo_failed';
+
+// One sparse update of a write-back run, with the value it replaced
+export interface WriteBackChange {
+  entity: string;
+  transaction_id: string;
+  doc_number: string | null;
+  action: WriteBackAction;
+  rule_types: string[];
+  target: WriteBackTarget;
+  before: string | null;
+  after: string;
+  sync_token: string;
+  sync_token_after: string | null;
+  status: WriteBackChangeStatus;
+  error?: string;
+}
+
+export interface WriteBackRun {
+  id: string;
+  realm_id: string;
+  status: 'planned' | 'applying' | 'applied' | 'interrupted' | 'undoing' | 'undone' | 'expired';
+  confirmation_code?: string;
+  created_at: string;
+  expires_at: string;
+  applied_at: string | null;
+  undone_at: string | null;
+  changes: WriteBackChange[];
+  skipped: Array<{ entity: string; transaction_id: string; reason: string }>;
+  summary: { total: number; skipped: number } & Partial<Record<WriteBackChangeStatus, number>>;
+}
+
+export type FindingStatus = 'open' | 'in_review' | 'resolved' | 'false_positive';
+
+export interface FindingComment {
+  id: string;
+  author: string;
+  text: string;
+  created_at: string;
+}
+
+export interface FindingHistoryEntry {
+  from: FindingStatus | null;
+  to: FindingStatus;
+  by: string;
+  note: string | null;
+  at: string;
+}
+
+// A flagged transaction worked as a case, one per realm, entity, transaction and rule
+export interface Finding {
+  id: string;
+  realm_id: string;
+  entity: string;
+  transaction_id: string;
+  rule_id: string;
+  rule_type: string;
+  reason: string;
+  transaction: {
+    doc_number: string | null;
+    txn_date: string | null;
+    amount: number | null;
+    name: string | null;
+  };
+  status: FindingStatus;
+  assignee: string | null;
+  flag_count: number;
+  first_flagged_at: string;
+  last_flagged_at: string;
+  comments: FindingComment[];
+  history: FindingHistoryEntry[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type SuppressionScope = 'transaction' | 'vendor' | 'pattern';
+
+// An accepted exception: flags of a rule matching it are counted apart until it expires
+export interface Suppression {
+  id: string;
+  realm_id: string;
+  rule_type: string;
+  scope: SuppressionScope;
+  transaction_id?: string;
+  entity?: string | null;
+  vendor_id?: string;
+  pattern?: { field: string; operator: string; value: unknown };
+  expires_on: string;
+  justification: string;
+  created_by: string;
+  created_at: string;
+  expired: boolean;
+}
+
+export type NewSuppression = Pick<Suppression, 'realm_id' | 'rule_type' | 'scope' | 'transaction_id' | 'entity' | 'vendor_id' | 'pattern' | 'expires_on' | 'justification'>;